@@ -1,25 +1,264 @@
-import { Module } from '@nestjs/common';
+import { DynamicModule, Module } from '@nestjs/common';
+import {
+  APP_FILTER,
+  APP_GUARD,
+  APP_PIPE,
+  ModuleRef,
+  Reflector,
+} from '@nestjs/core';
 import { WeatherController } from './controllers/weather.controller';
 import { RecommendationController } from './controllers/recommendation.controller';
 import { WeatherService } from './services/weather.service';
 import { RecommendationService } from './services/recommendation.service';
-import { OllamaService } from './services/ollama.service';
+import { StructuredGenerationService } from './services/structured-generation.service';
+import { LlmProvider } from './services/llm-provider';
+import { createLlmProvider } from './services/llm-provider.factory';
+import { WeatherDataProvider } from './services/weather-data-provider';
+import { createWeatherDataProvider } from './services/weather-data-provider.factory';
+import { ClimatologyService } from './services/climatology.service';
+import { CacheStore } from './services/cache-store';
+import { createCacheStore } from './services/cache-store.factory';
+import { ResponseCacheService } from './services/response-cache.service';
+import { CacheAdminController } from './controllers/cache-admin.controller';
+import { ModelAdminController } from './controllers/model-admin.controller';
+import { ModelSelectionService } from './services/model-selection.service';
+import { ModelPullService } from './services/model-pull.service';
+import { HealthController } from './controllers/health.controller';
+import { HealthService } from './services/health.service';
+import { PromptRegistryService } from './services/prompt-registry.service';
+import { PromptAdminController } from './controllers/prompt-admin.controller';
+import { createValidationPipe } from './validation/validation.pipe';
+import { ApiExceptionFilter } from './validation/api-exception.filter';
+import { AppConfig } from './config/app-config';
+import { ConfigModule } from './config/config.module';
+import { TripController } from './controllers/trip.controller';
+import { TripService } from './services/trip.service';
+import { TripStore } from './services/trip-store';
+import { createTripStore } from './services/trip-store.factory';
+import { PlanSessionController } from './controllers/plan-session.controller';
+import { PlanSessionService } from './services/plan-session.service';
+import { MultiCityService } from './services/multi-city.service';
+import { ExchangeRateService } from './services/exchange-rate.service';
+import { ExchangeRateAdminController } from './controllers/exchange-rate-admin.controller';
+import { BudgetService } from './services/budget.service';
+import { PackingListService } from './services/packing-list.service';
+import { DashboardService } from './services/dashboard.service';
+import { LlmQueue } from './services/llm-queue';
+import { QueuedLlmProvider } from './services/queued-llm-provider';
+import { JobService } from './services/job.service';
+import { JobController } from './controllers/job.controller';
+import { ApiKeyStore } from './services/api-key-store';
+import { createApiKeyStore } from './services/api-key-store.factory';
+import { ApiKeyService } from './services/api-key.service';
+import { ApiKeyAdminController } from './controllers/api-key-admin.controller';
+import { ApiKeyGuard } from './auth/api-key.guard';
 
 @Module({
   imports: [],
-  controllers: [WeatherController, RecommendationController],
+  controllers: [
+    WeatherController,
+    RecommendationController,
+    CacheAdminController,
+    ModelAdminController,
+    HealthController,
+    PromptAdminController,
+    TripController,
+    PlanSessionController,
+    ExchangeRateAdminController,
+    JobController,
+    ApiKeyAdminController,
+  ],
   providers: [
     {
-      provide: OllamaService,
-      useFactory: () => {
-        return new OllamaService({
-          ollamaModel: 'llama3.2:3b',
-          ollamaUrl: 'http://localhost:11434'
-        });
+      provide: APP_PIPE,
+      useFactory: createValidationPipe,
+    },
+    {
+      provide: APP_FILTER,
+      useClass: ApiExceptionFilter,
+    },
+    {
+      provide: APP_GUARD,
+      useFactory: (
+        reflector: Reflector,
+        apiKeyService: ApiKeyService,
+        config: AppConfig,
+        moduleRef: ModuleRef,
+      ) => {
+        return new ApiKeyGuard(
+          reflector,
+          apiKeyService,
+          config.auth,
+          moduleRef,
+        );
+      },
+      inject: [Reflector, ApiKeyService, AppConfig, ModuleRef],
+    },
+    {
+      provide: ApiKeyStore,
+      useFactory: (config: AppConfig) => {
+        return createApiKeyStore(config.auth);
+      },
+      inject: [AppConfig],
+    },
+    {
+      provide: ApiKeyService,
+      useFactory: (store: ApiKeyStore, config: AppConfig) => {
+        return new ApiKeyService(store, config.auth.defaultQuotas);
+      },
+      inject: [ApiKeyStore, AppConfig],
+    },
+    {
+      provide: LlmQueue,
+      useFactory: (config: AppConfig) => {
+        return new LlmQueue(config.llm.maxConcurrency);
+      },
+      inject: [AppConfig],
+    },
+    {
+      provide: LlmProvider,
+      useFactory: (queue: LlmQueue, config: AppConfig) => {
+        return new QueuedLlmProvider(createLlmProvider(config.llm), queue);
+      },
+      inject: [LlmQueue, AppConfig],
+    },
+    {
+      provide: WeatherDataProvider,
+      useFactory: (config: AppConfig) => {
+        return createWeatherDataProvider(config.weatherData);
+      },
+      inject: [AppConfig],
+    },
+    {
+      provide: ModelSelectionService,
+      useFactory: (llmProvider: LlmProvider, config: AppConfig) => {
+        return new ModelSelectionService(llmProvider, config.llm.featureModels);
+      },
+      inject: [LlmProvider, AppConfig],
+    },
+    ModelPullService,
+    {
+      provide: HealthService,
+      useFactory: (
+        llmProvider: LlmProvider,
+        modelSelection: ModelSelectionService,
+        structuredGeneration: StructuredGenerationService,
+        modelPull: ModelPullService,
+        config: AppConfig,
+      ) => {
+        return new HealthService(
+          llmProvider,
+          modelSelection,
+          structuredGeneration,
+          modelPull,
+          config.llm.startupMode,
+        );
+      },
+      inject: [
+        LlmProvider,
+        ModelSelectionService,
+        StructuredGenerationService,
+        ModelPullService,
+        AppConfig,
+      ],
+    },
+    {
+      provide: CacheStore,
+      useFactory: (config: AppConfig) => {
+        return createCacheStore(config.cache);
+      },
+      inject: [AppConfig],
+    },
+    {
+      provide: ResponseCacheService,
+      useFactory: (
+        store: CacheStore,
+        modelSelection: ModelSelectionService,
+        config: AppConfig,
+      ) => {
+        return new ResponseCacheService(
+          store,
+          modelSelection,
+          config.cache.ttlSeconds,
+        );
+      },
+      inject: [CacheStore, ModelSelectionService, AppConfig],
+    },
+    {
+      provide: StructuredGenerationService,
+      useFactory: (
+        llmProvider: LlmProvider,
+        modelSelection: ModelSelectionService,
+        config: AppConfig,
+      ) => {
+        return new StructuredGenerationService(
+          llmProvider,
+          modelSelection,
+          config.llm.generation,
+        );
+      },
+      inject: [LlmProvider, ModelSelectionService, AppConfig],
+    },
+    {
+      provide: PromptRegistryService,
+      useFactory: (config: AppConfig) => {
+        return new PromptRegistryService(config.prompts.directory);
+      },
+      inject: [AppConfig],
+    },
+    {
+      provide: ExchangeRateService,
+      useFactory: (config: AppConfig) => {
+        return new ExchangeRateService(config.exchangeRates.filePath);
+      },
+      inject: [AppConfig],
+    },
+    {
+      provide: DashboardService,
+      useFactory: (
+        weatherService: WeatherService,
+        recommendationService: RecommendationService,
+        queue: LlmQueue,
+        config: AppConfig,
+      ) => {
+        return new DashboardService(
+          weatherService,
+          recommendationService,
+          queue,
+          config.dashboard,
+        );
+      },
+      inject: [WeatherService, RecommendationService, LlmQueue, AppConfig],
+    },
+    {
+      provide: JobService,
+      useFactory: (queue: LlmQueue, config: AppConfig) => {
+        return new JobService(queue, config.jobs);
+      },
+      inject: [LlmQueue, AppConfig],
+    },
+    {
+      provide: TripStore,
+      useFactory: (config: AppConfig) => {
+        return createTripStore(config.trips);
       },
+      inject: [AppConfig],
     },
+    ClimatologyService,
     WeatherService,
     RecommendationService,
+    TripService,
+    PlanSessionService,
+    MultiCityService,
+    BudgetService,
+    PackingListService,
   ],
 })
-export class AppModule {}
\ No newline at end of file
+export class AppModule {
+  static forRoot(config: AppConfig): DynamicModule {
+    return {
+      module: AppModule,
+      imports: [ConfigModule.forRoot(config)],
+    };
+  }
+}
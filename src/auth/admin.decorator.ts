@@ -0,0 +1,6 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const IS_ADMIN_KEY = 'isAdmin';
+
+/** Restricts a route or controller to the admin API key */
+export const Admin = () => SetMetadata(IS_ADMIN_KEY, true);
@@ -0,0 +1,11 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import type { ApiKeyRequest } from './api-key.guard';
+
+/**
+ * The id of the API key the request was authenticated with, or null when
+ * it came with the admin key or auth is off.
+ */
+export const ApiKeyId = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): string | null =>
+    context.switchToHttp().getRequest<ApiKeyRequest>().apiKey?.id ?? null,
+);
@@ -0,0 +1,210 @@
+import { ExecutionContext } from '@nestjs/common';
+import { ModuleRef, Reflector } from '@nestjs/core';
+import { ApiKeyGuard, type ApiKeyRequest } from './api-key.guard';
+import {
+  GENERATES_KEY,
+  type GenerationWeight,
+  planWeight,
+} from './generates.decorator';
+import { IS_PUBLIC_KEY } from './public.decorator';
+import { IS_ADMIN_KEY } from './admin.decorator';
+import { ApiKeyService } from '../services/api-key.service';
+import { MemoryApiKeyStore } from '../services/api-key-store';
+import { AuthConfig } from '../config/app-config';
+import { ApiError } from '../validation/api-error';
+
+describe('ApiKeyGuard', () => {
+  const ADMIN_KEY = 'admin-key-0123456789';
+
+  let apiKeyService: ApiKeyService;
+  let guard: ApiKeyGuard;
+  let setHeader: jest.Mock;
+  const moduleRef = {} as ModuleRef;
+
+  const config = {
+    mode: 'api-key',
+    adminKey: ADMIN_KEY,
+    store: 'memory',
+    filePath: '',
+    defaultQuotas: {
+      requestsPerMinute: 10,
+      requestsPerDay: 10,
+      generationsPerMinute: 1,
+      generationsPerDay: 10,
+    },
+  } as AuthConfig;
+
+  /** How the route and its controller are marked */
+  interface Route {
+    isPublic?: boolean;
+    admin?: boolean;
+    generates?: GenerationWeight;
+  }
+
+  /** A request to `path`, handled by a route marked as in `route` */
+  const createContext = (
+    path: string,
+    headers: Record<string, string>,
+    { isPublic = false, admin = false, generates }: Route = {},
+  ) => {
+    const handler = () => undefined;
+    const controller = class {};
+    if (generates !== undefined) {
+      Reflect.defineMetadata(GENERATES_KEY, generates, handler);
+    }
+    Reflect.defineMetadata(IS_PUBLIC_KEY, isPublic, controller);
+    Reflect.defineMetadata(IS_ADMIN_KEY, admin, controller);
+    const [pathname, search] = path.split('?');
+    const request = {
+      path: pathname,
+      query: Object.fromEntries(new URLSearchParams(search)),
+      headers,
+    };
+    return {
+      switchToHttp: () => ({
+        getRequest: () => request,
+        getResponse: () => ({ setHeader }),
+      }),
+      getHandler: () => handler,
+      getClass: () => controller,
+    } as unknown as ExecutionContext;
+  };
+
+  const rejection = async (context: ExecutionContext) => {
+    const error = await guard.canActivate(context).catch((e: unknown) => e);
+    return error instanceof ApiError ? error.toBody() : error;
+  };
+
+  beforeEach(() => {
+    setHeader = jest.fn();
+    apiKeyService = new ApiKeyService(
+      new MemoryApiKeyStore(),
+      config.defaultQuotas,
+    );
+    guard = new ApiKeyGuard(new Reflector(), apiKeyService, config, moduleRef);
+  });
+
+  it('should only let known keys into the API, and only the admin key into admin routes', async () => {
+    const { key, apiKey } = await apiKeyService.issue('web');
+    const admin = { admin: true };
+
+    await expect(
+      guard.canActivate(createContext('/', {}, { isPublic: true })),
+    ).resolves.toBe(true);
+    expect(await rejection(createContext('/api/v1/weather', {}))).toMatchObject(
+      { code: 'MISSING_API_KEY' },
+    );
+    expect(
+      await rejection(createContext('/api/v1/weather', { 'x-api-key': 'x' })),
+    ).toMatchObject({ code: 'INVALID_API_KEY' });
+    const authorized = createContext('/api/v1/weather', {
+      authorization: `Bearer ${key}`,
+    });
+    await expect(guard.canActivate(authorized)).resolves.toBe(true);
+    expect(
+      authorized.switchToHttp().getRequest<ApiKeyRequest>().apiKey,
+    ).toMatchObject({ id: apiKey.id });
+    expect(
+      await rejection(
+        createContext('/api/v1/admin/cache', { 'x-api-key': key }, admin),
+      ),
+    ).toMatchObject({ code: 'ADMIN_KEY_REQUIRED' });
+    await expect(
+      guard.canActivate(
+        createContext('/api/v1/admin/cache', { 'x-api-key': ADMIN_KEY }, admin),
+      ),
+    ).resolves.toBe(true);
+  });
+
+  it('should go by the route and not the path, whatever its case', async () => {
+    const { key } = await apiKeyService.issue('web');
+
+    expect(await rejection(createContext('/API/V1/weather', {}))).toMatchObject(
+      { code: 'MISSING_API_KEY' },
+    );
+    expect(
+      await rejection(
+        createContext(
+          '/API/v1/Admin/api-keys',
+          { 'x-api-key': key },
+          { admin: true },
+        ),
+      ),
+    ).toMatchObject({ code: 'ADMIN_KEY_REQUIRED' });
+    expect(
+      await rejection(
+        createContext('/Api/V1/admin/cache', {}, { admin: true }),
+      ),
+    ).toMatchObject({ code: 'MISSING_API_KEY' });
+    await expect(
+      guard.canActivate(createContext('/HEALTH/live', {}, { isPublic: true })),
+    ).resolves.toBe(true);
+  });
+
+  it('should answer 429 with Retry-After once a generation quota is used up', async () => {
+    const { key } = await apiKeyService.issue('web');
+    const context = () =>
+      createContext(
+        '/api/v1/plan/trip-plan',
+        { 'x-api-key': key },
+        { generates: 1 },
+      );
+
+    await expect(guard.canActivate(context())).resolves.toBe(true);
+    expect(await rejection(context())).toMatchObject({ code: 'RATE_LIMITED' });
+    expect(setHeader).toHaveBeenCalledWith(
+      'Retry-After',
+      expect.stringMatching(/^\d+$/),
+    );
+    await expect(
+      guard.canActivate(createContext('/api/v1/trips', { 'x-api-key': key })),
+    ).resolves.toBe(true);
+  });
+
+  it('should count a route by the generations it can run', async () => {
+    const { key, apiKey } = await apiKeyService.issue('web', {
+      generationsPerMinute: 3,
+    });
+    const context = (weatherAware: string) =>
+      createContext(
+        `/api/v1/plan/trip-plan?weatherAware=${weatherAware}`,
+        { 'x-api-key': key },
+        { generates: (request) => planWeight(request.query.weatherAware) },
+      );
+
+    await expect(guard.canActivate(context('true'))).resolves.toBe(true);
+    expect(await rejection(context('true'))).toMatchObject({
+      code: 'RATE_LIMITED',
+    });
+    await expect(guard.canActivate(context('false'))).resolves.toBe(true);
+    expect((await apiKeyService.get(apiKey.id)).usage.minute).toEqual({
+      requests: 2,
+      generations: 3,
+    });
+  });
+
+  it('should let a weight look up what the request refers to for its key', async () => {
+    const { key, apiKey } = await apiKeyService.issue('web', {
+      generationsPerMinute: 5,
+    });
+    const lookup = jest.fn<Promise<number>, [string | undefined, ModuleRef]>(
+      () => Promise.resolve(3),
+    );
+
+    await expect(
+      guard.canActivate(
+        createContext(
+          '/api/v1/trips/1/weather',
+          { 'x-api-key': key },
+          {
+            generates: (request, ref) => lookup(request.apiKey?.id, ref),
+          },
+        ),
+      ),
+    ).resolves.toBe(true);
+    expect(lookup).toHaveBeenCalledWith(apiKey.id, moduleRef);
+    expect((await apiKeyService.get(apiKey.id)).usage.minute.generations).toBe(
+      3,
+    );
+  });
+});
@@ -0,0 +1,153 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  HttpStatus,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { ModuleRef, Reflector } from '@nestjs/core';
+import { createHash, timingSafeEqual } from 'crypto';
+import { Request, Response } from 'express';
+import { GENERATES_KEY, type GenerationWeight } from './generates.decorator';
+import { IS_PUBLIC_KEY } from './public.decorator';
+import { IS_ADMIN_KEY } from './admin.decorator';
+import { ApiKeyQuotaError, ApiKeyService } from '../services/api-key.service';
+import type { ApiKeyRecord } from '../services/api-key-store';
+import type { AuthConfig } from '../config/app-config';
+import { ApiError } from '../validation/api-error';
+
+export type AuthMode = 'api-key' | 'none';
+
+/** A request the guard let through, with the key it was authenticated with */
+export interface ApiKeyRequest extends Request {
+  /** Unset for the admin key and when auth is off */
+  apiKey?: ApiKeyRecord;
+}
+
+/**
+ * Requires an API key on every route not marked {@link Public} and counts
+ * the request against the key's quotas. Routes marked {@link Admin} take
+ * the configured admin key instead, which also works on the other routes
+ * without any quota. Routes are told apart by their metadata, never by the
+ * request path.
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  private readonly logger = new Logger(ApiKeyGuard.name);
+  private readonly adminKeyHash?: Buffer;
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly apiKeyService: ApiKeyService,
+    private readonly config: AuthConfig,
+    private readonly moduleRef: ModuleRef,
+  ) {
+    this.adminKeyHash = config.adminKey ? hash(config.adminKey) : undefined;
+    if (config.mode === 'none') {
+      this.logger.warn('AUTH_MODE=none: the API is open to anyone');
+    } else if (!config.adminKey) {
+      this.logger.warn('ADMIN_API_KEY is not set: no API key can be issued');
+    }
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<ApiKeyRequest>();
+    if (
+      this.config.mode === 'none' ||
+      this.hasMetadata(IS_PUBLIC_KEY, context)
+    ) {
+      return true;
+    }
+
+    const key = readKey(request);
+    if (!key) {
+      throw new ApiError(
+        HttpStatus.UNAUTHORIZED,
+        'MISSING_API_KEY',
+        'Send an API key in the X-API-Key header',
+      );
+    }
+    if (this.isAdminKey(key)) {
+      return true;
+    }
+    if (this.hasMetadata(IS_ADMIN_KEY, context)) {
+      throw new ApiError(
+        HttpStatus.FORBIDDEN,
+        'ADMIN_KEY_REQUIRED',
+        'Admin routes need the admin API key',
+      );
+    }
+
+    const record = await this.apiKeyService.authenticate(key);
+    if (!record) {
+      throw new ApiError(
+        HttpStatus.UNAUTHORIZED,
+        'INVALID_API_KEY',
+        'The API key is unknown or has been revoked',
+      );
+    }
+
+    // Set first so route weights can look up what belongs to the key
+    request.apiKey = record;
+    const generations = await this.getGenerations(context, request);
+    try {
+      this.apiKeyService.consume(record, generations);
+    } catch (error) {
+      if (!(error instanceof ApiKeyQuotaError)) {
+        throw error;
+      }
+      context
+        .switchToHttp()
+        .getResponse<Response>()
+        .setHeader('Retry-After', String(error.retryAfterSeconds));
+      throw new ApiError(
+        HttpStatus.TOO_MANY_REQUESTS,
+        'RATE_LIMITED',
+        `${error.message}, retry in ${error.retryAfterSeconds} s`,
+      );
+    }
+    return true;
+  }
+
+  /** Whether the route, or else its controller, is marked with `key` */
+  private hasMetadata(key: string, context: ExecutionContext): boolean {
+    return !!this.reflector.getAllAndOverride<boolean | undefined>(key, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+  }
+
+  /** What the route's {@link Generates} weight makes of the request, 0 without one */
+  private async getGenerations(
+    context: ExecutionContext,
+    request: ApiKeyRequest,
+  ): Promise<number> {
+    const weight = this.reflector.getAllAndOverride<
+      GenerationWeight | undefined
+    >(GENERATES_KEY, [context.getHandler(), context.getClass()]);
+    if (weight === undefined) {
+      return 0;
+    }
+    return typeof weight === 'function'
+      ? weight(request, this.moduleRef)
+      : weight;
+  }
+
+  private isAdminKey(key: string): boolean {
+    return !!this.adminKeyHash && timingSafeEqual(hash(key), this.adminKeyHash);
+  }
+}
+
+/** From `X-API-Key: <key>` or `Authorization: Bearer <key>` */
+function readKey(request: Request): string | undefined {
+  const header = request.headers['x-api-key'];
+  if (typeof header === 'string' && header.trim()) {
+    return header.trim();
+  }
+  const match = /^Bearer\s+(\S+)$/i.exec(request.headers.authorization ?? '');
+  return match?.[1];
+}
+
+function hash(key: string): Buffer {
+  return createHash('sha256').update(key).digest();
+}
@@ -0,0 +1,26 @@
+import { SetMetadata } from '@nestjs/common';
+import type { ModuleRef } from '@nestjs/core';
+import type { ApiKeyRequest } from './api-key.guard';
+
+export const GENERATES_KEY = 'generates';
+
+/**
+ * How many generations a request counts as: the most the route can run for
+ * it, fixed or read from the request. A function can look up what the
+ * request refers to through `moduleRef`. The request is read before it is
+ * validated, so a function must cope with any input.
+ */
+export type GenerationWeight =
+  | number
+  | ((
+      request: ApiKeyRequest,
+      moduleRef: ModuleRef,
+    ) => number | Promise<number>);
+
+/** Marks a route that calls the model, so it also counts as generations */
+export const Generates = (weight: GenerationWeight = 1) =>
+  SetMetadata(GENERATES_KEY, weight);
+
+/** A trip plan, plus the forecast it is planned around when weather-aware */
+export const planWeight = (weatherAware: unknown): number =>
+  weatherAware === true || weatherAware === 'true' ? 2 : 1;
@@ -0,0 +1,326 @@
+import { Type } from 'class-transformer';
+import {
+  IsDefined,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Max,
+  Min,
+  MinLength,
+  ValidateNested,
+} from 'class-validator';
+import type { AuthMode } from '../auth/api-key.guard';
+import type { ApiKeyStoreType } from '../services/api-key-store';
+import type { CacheStoreType } from '../services/cache-store';
+import type { LlmProviderType, LlmStartupMode } from '../services/llm-provider';
+import type { TripStoreType } from '../services/trip-store';
+import type { WeatherDataProviderType } from '../services/weather-data-provider';
+
+export const LLM_PROVIDER_TYPES: LlmProviderType[] = [
+  'ollama',
+  'openai',
+  'fake',
+];
+export const LLM_STARTUP_MODES: LlmStartupMode[] = [
+  'fail-fast',
+  'warn',
+  'auto-pull',
+];
+export const WEATHER_PROVIDER_TYPES: WeatherDataProviderType[] = [
+  'open-meteo',
+  'none',
+];
+export const CACHE_STORE_TYPES: CacheStoreType[] = ['memory', 'file'];
+export const TRIP_STORE_TYPES: TripStoreType[] = ['memory', 'file'];
+export const AUTH_MODES: AuthMode[] = ['api-key', 'none'];
+export const API_KEY_STORE_TYPES: ApiKeyStoreType[] = ['memory', 'file'];
+
+const URL_OPTIONS = { require_tld: false, require_protocol: true };
+
+// Constraints run bottom-up, so type checks sit right above each property
+// and a non-numeric value is reported as such rather than as out of range
+
+/** Sampling and limits for one LLM call, unset fields fall back to the defaults */
+export class GenerationSettings {
+  @IsOptional()
+  @Min(0)
+  @Max(2)
+  @IsNumber()
+  temperature?: number;
+
+  @IsOptional()
+  @Min(0)
+  @Max(1)
+  @IsNumber()
+  topP?: number;
+
+  /** Ollama `num_predict`, OpenAI `max_tokens` */
+  @IsOptional()
+  @Min(1)
+  @IsInt()
+  maxTokens?: number;
+
+  @IsOptional()
+  @Min(1)
+  @IsInt()
+  timeoutMs?: number;
+}
+
+export class GenerationConfig {
+  @IsDefined()
+  @ValidateNested()
+  @Type(() => GenerationSettings)
+  defaults: GenerationSettings;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => GenerationSettings)
+  weather?: GenerationSettings;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => GenerationSettings)
+  'trip-plan'?: GenerationSettings;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => GenerationSettings)
+  'money-saving-tips'?: GenerationSettings;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => GenerationSettings)
+  budget?: GenerationSettings;
+}
+
+export class FeatureModelsConfig {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  weather?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  'trip-plan'?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  'money-saving-tips'?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  budget?: string;
+}
+
+export class LlmProviderConfig {
+  @IsIn(LLM_PROVIDER_TYPES)
+  provider: LlmProviderType;
+
+  @IsString()
+  @IsNotEmpty()
+  model: string;
+
+  @IsOptional()
+  @IsUrl(URL_OPTIONS)
+  baseUrl?: string;
+
+  @IsOptional()
+  @IsString()
+  apiKey?: string;
+
+  /** Per-feature models, unset features use `model` */
+  @IsDefined()
+  @ValidateNested()
+  @Type(() => FeatureModelsConfig)
+  featureModels: FeatureModelsConfig;
+
+  @IsIn(LLM_STARTUP_MODES)
+  startupMode: LlmStartupMode;
+
+  /** Generations sent to the runtime at once; the rest wait in line */
+  @Min(1)
+  @IsInt()
+  maxConcurrency: number;
+
+  @IsDefined()
+  @ValidateNested()
+  @Type(() => GenerationConfig)
+  generation: GenerationConfig;
+}
+
+export class WeatherDataProviderConfig {
+  @IsIn(WEATHER_PROVIDER_TYPES)
+  provider: WeatherDataProviderType;
+
+  @IsOptional()
+  @IsUrl(URL_OPTIONS)
+  forecastUrl?: string;
+
+  @IsOptional()
+  @IsUrl(URL_OPTIONS)
+  geocodingUrl?: string;
+}
+
+export class ResponseCacheConfig {
+  @IsIn(CACHE_STORE_TYPES)
+  store: CacheStoreType;
+
+  /** 0 disables caching */
+  @Min(0)
+  @IsInt()
+  ttlSeconds: number;
+
+  @IsString()
+  @IsNotEmpty()
+  filePath: string;
+}
+
+export class TripStoreConfig {
+  @IsIn(TRIP_STORE_TYPES)
+  store: TripStoreType;
+
+  @IsString()
+  @IsNotEmpty()
+  filePath: string;
+}
+
+export class PromptsConfig {
+  /** Holds `<feature>/<version>/<template>.txt` and `<feature>/rollout.json` */
+  @IsString()
+  @IsNotEmpty()
+  directory: string;
+}
+
+export class ExchangeRatesConfig {
+  /** JSON table of rates against one base currency, see `data/exchange-rates.json` */
+  @IsString()
+  @IsNotEmpty()
+  filePath: string;
+}
+
+export class DashboardConfig {
+  /** Sections generated at the same time; the rest wait for a free slot */
+  @Min(1)
+  @IsInt()
+  concurrency: number;
+
+  /** How long one section may run before it is reported as timed out */
+  @Min(1)
+  @IsInt()
+  sectionTimeoutMs: number;
+}
+
+export class JobsConfig {
+  /** Default time limit of a generation job, queueing included */
+  @Min(1)
+  @IsInt()
+  timeoutMs: number;
+
+  /** How long finished jobs can still be fetched */
+  @Min(1)
+  @IsInt()
+  retentionSeconds: number;
+}
+
+/** Quotas of keys issued without their own */
+export class ApiKeyQuotasConfig {
+  @Min(1)
+  @IsInt()
+  requestsPerMinute: number;
+
+  @Min(1)
+  @IsInt()
+  requestsPerDay: number;
+
+  @Min(1)
+  @IsInt()
+  generationsPerMinute: number;
+
+  @Min(1)
+  @IsInt()
+  generationsPerDay: number;
+}
+
+export class AuthConfig {
+  /** `none` leaves the API open, e.g. for local development */
+  @IsIn(AUTH_MODES)
+  mode: AuthMode;
+
+  /** Key for the /api/v1/admin routes; without one they stay closed */
+  @IsOptional()
+  @IsString()
+  @MinLength(16)
+  adminKey?: string;
+
+  @IsIn(API_KEY_STORE_TYPES)
+  store: ApiKeyStoreType;
+
+  @IsString()
+  @IsNotEmpty()
+  filePath: string;
+
+  @IsDefined()
+  @ValidateNested()
+  @Type(() => ApiKeyQuotasConfig)
+  defaultQuotas: ApiKeyQuotasConfig;
+}
+
+/** Everything the app reads at startup, validated before anything is created */
+export class AppConfig {
+  @Min(1)
+  @Max(65535)
+  @IsInt()
+  port: number;
+
+  @IsDefined()
+  @ValidateNested()
+  @Type(() => LlmProviderConfig)
+  llm: LlmProviderConfig;
+
+  @IsDefined()
+  @ValidateNested()
+  @Type(() => WeatherDataProviderConfig)
+  weatherData: WeatherDataProviderConfig;
+
+  @IsDefined()
+  @ValidateNested()
+  @Type(() => ResponseCacheConfig)
+  cache: ResponseCacheConfig;
+
+  @IsDefined()
+  @ValidateNested()
+  @Type(() => PromptsConfig)
+  prompts: PromptsConfig;
+
+  @IsDefined()
+  @ValidateNested()
+  @Type(() => TripStoreConfig)
+  trips: TripStoreConfig;
+
+  @IsDefined()
+  @ValidateNested()
+  @Type(() => ExchangeRatesConfig)
+  exchangeRates: ExchangeRatesConfig;
+
+  @IsDefined()
+  @ValidateNested()
+  @Type(() => DashboardConfig)
+  dashboard: DashboardConfig;
+
+  @IsDefined()
+  @ValidateNested()
+  @Type(() => JobsConfig)
+  jobs: JobsConfig;
+
+  @IsDefined()
+  @ValidateNested()
+  @Type(() => AuthConfig)
+  auth: AuthConfig;
+}
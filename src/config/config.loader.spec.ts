@@ -0,0 +1,81 @@
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ConfigError, loadAppConfig } from './config.loader';
+
+describe('loadAppConfig', () => {
+  const writeConfigFile = (content: unknown): string => {
+    const filePath = join(mkdtempSync(join(tmpdir(), 'config-')), 'app.json');
+    writeFileSync(filePath, JSON.stringify(content));
+    return filePath;
+  };
+
+  it('should fall back to the built-in defaults', () => {
+    const config = loadAppConfig({});
+
+    expect(config.port).toBe(3000);
+    expect(config.llm).toMatchObject({
+      provider: 'ollama',
+      model: 'llama3.2:3b',
+      baseUrl: 'http://localhost:11434',
+      startupMode: 'warn',
+    });
+    expect(config.llm.generation.defaults).toEqual({
+      temperature: 0.7,
+      topP: 0.9,
+      maxTokens: 800,
+      timeoutMs: 120000,
+    });
+    expect(config.llm.generation['trip-plan']).toEqual({ maxTokens: 2048 });
+  });
+
+  it('should let the environment override the config file', () => {
+    const config = loadAppConfig({
+      CONFIG_FILE: writeConfigFile({
+        port: 8080,
+        llm: {
+          provider: 'openai',
+          generation: { weather: { temperature: 0.2 } },
+        },
+      }),
+      PORT: '9000',
+      LLM_TOP_P_WEATHER: '0.5',
+    });
+
+    expect(config.port).toBe(9000);
+    expect(config.llm.baseUrl).toBe('http://localhost:8080');
+    expect(config.llm.generation.weather).toEqual({
+      temperature: 0.2,
+      topP: 0.5,
+      maxTokens: 1500,
+    });
+  });
+
+  it('should report every invalid setting with its source', () => {
+    let error: ConfigError | undefined;
+    try {
+      loadAppConfig({
+        PORT: 'eighty',
+        LLM_PROVIDER: 'bogus',
+        LLM_TEMPERATURE_TRIP_PLAN: '5',
+      });
+    } catch (caught) {
+      error = caught as ConfigError;
+    }
+
+    expect(error).toBeInstanceOf(ConfigError);
+    expect(error?.problems).toEqual([
+      expect.stringMatching(/^port: .*\(from PORT\)$/),
+      expect.stringMatching(/^llm\.provider: .*\(from LLM_PROVIDER\)$/),
+      expect.stringMatching(
+        /^llm\.generation\.trip-plan\.temperature: .*\(from LLM_TEMPERATURE_TRIP_PLAN\)$/,
+      ),
+    ]);
+  });
+
+  it('should reject unknown keys in the config file', () => {
+    expect(() =>
+      loadAppConfig({ CONFIG_FILE: writeConfigFile({ llm: { modle: 'x' } }) }),
+    ).toThrow('llm.modle: property modle should not exist');
+  });
+});
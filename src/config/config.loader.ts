@@ -0,0 +1,285 @@
+import { plainToInstance } from 'class-transformer';
+import { validateSync, ValidationError } from 'class-validator';
+import { readFileSync } from 'fs';
+import { DEFAULT_GENERATE_OPTIONS } from '../services/llm-provider';
+import { LLM_FEATURES } from '../services/model-selection.service';
+import { AppConfig } from './app-config';
+
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(
+      `Invalid configuration:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`,
+    );
+    this.name = 'ConfigError';
+  }
+}
+
+type PlainObject = Record<string, unknown>;
+
+interface EnvVariable {
+  name: string;
+  /** Dotted path in AppConfig */
+  path: string;
+  type: 'string' | 'number' | 'enum';
+}
+
+const GENERATION_VARIABLES: [string, string][] = [
+  ['TEMPERATURE', 'temperature'],
+  ['TOP_P', 'topP'],
+  ['MAX_TOKENS', 'maxTokens'],
+  ['TIMEOUT_MS', 'timeoutMs'],
+];
+
+const QUOTA_VARIABLES: [string, string][] = [
+  ['REQUESTS_PER_MINUTE', 'requestsPerMinute'],
+  ['REQUESTS_PER_DAY', 'requestsPerDay'],
+  ['GENERATIONS_PER_MINUTE', 'generationsPerMinute'],
+  ['GENERATIONS_PER_DAY', 'generationsPerDay'],
+];
+
+const ENV_VARIABLES: EnvVariable[] = [
+  { name: 'PORT', path: 'port', type: 'number' },
+  { name: 'LLM_PROVIDER', path: 'llm.provider', type: 'enum' },
+  { name: 'LLM_MODEL', path: 'llm.model', type: 'string' },
+  { name: 'LLM_BASE_URL', path: 'llm.baseUrl', type: 'string' },
+  { name: 'LLM_API_KEY', path: 'llm.apiKey', type: 'string' },
+  { name: 'LLM_STARTUP_MODE', path: 'llm.startupMode', type: 'enum' },
+  {
+    name: 'LLM_MAX_CONCURRENCY',
+    path: 'llm.maxConcurrency',
+    type: 'number',
+  },
+  ...GENERATION_VARIABLES.map(
+    ([suffix, setting]): EnvVariable => ({
+      name: `LLM_${suffix}`,
+      path: `llm.generation.defaults.${setting}`,
+      type: 'number',
+    }),
+  ),
+  ...LLM_FEATURES.flatMap((feature): EnvVariable[] => {
+    const featureSuffix = feature.toUpperCase().replace(/-/g, '_');
+    return [
+      {
+        name: `LLM_MODEL_${featureSuffix}`,
+        path: `llm.featureModels.${feature}`,
+        type: 'string',
+      },
+      ...GENERATION_VARIABLES.map(
+        ([suffix, setting]): EnvVariable => ({
+          name: `LLM_${suffix}_${featureSuffix}`,
+          path: `llm.generation.${feature}.${setting}`,
+          type: 'number',
+        }),
+      ),
+    ];
+  }),
+  { name: 'WEATHER_PROVIDER', path: 'weatherData.provider', type: 'enum' },
+  {
+    name: 'WEATHER_FORECAST_URL',
+    path: 'weatherData.forecastUrl',
+    type: 'string',
+  },
+  {
+    name: 'WEATHER_GEOCODING_URL',
+    path: 'weatherData.geocodingUrl',
+    type: 'string',
+  },
+  { name: 'CACHE_STORE', path: 'cache.store', type: 'enum' },
+  { name: 'CACHE_TTL_SECONDS', path: 'cache.ttlSeconds', type: 'number' },
+  { name: 'CACHE_FILE', path: 'cache.filePath', type: 'string' },
+  { name: 'PROMPTS_DIR', path: 'prompts.directory', type: 'string' },
+  { name: 'TRIP_STORE', path: 'trips.store', type: 'enum' },
+  { name: 'TRIP_FILE', path: 'trips.filePath', type: 'string' },
+  {
+    name: 'EXCHANGE_RATES_FILE',
+    path: 'exchangeRates.filePath',
+    type: 'string',
+  },
+  {
+    name: 'DASHBOARD_CONCURRENCY',
+    path: 'dashboard.concurrency',
+    type: 'number',
+  },
+  {
+    name: 'DASHBOARD_SECTION_TIMEOUT_MS',
+    path: 'dashboard.sectionTimeoutMs',
+    type: 'number',
+  },
+  { name: 'JOB_TIMEOUT_MS', path: 'jobs.timeoutMs', type: 'number' },
+  {
+    name: 'JOB_RETENTION_SECONDS',
+    path: 'jobs.retentionSeconds',
+    type: 'number',
+  },
+  { name: 'AUTH_MODE', path: 'auth.mode', type: 'enum' },
+  { name: 'ADMIN_API_KEY', path: 'auth.adminKey', type: 'string' },
+  { name: 'API_KEY_STORE', path: 'auth.store', type: 'enum' },
+  { name: 'API_KEY_FILE', path: 'auth.filePath', type: 'string' },
+  ...QUOTA_VARIABLES.map(
+    ([suffix, quota]): EnvVariable => ({
+      name: `API_KEY_${suffix}`,
+      path: `auth.defaultQuotas.${quota}`,
+      type: 'number',
+    }),
+  ),
+];
+
+const DEFAULT_BASE_URLS: Record<string, string> = {
+  ollama: 'http://localhost:11434',
+  openai: 'http://localhost:8080',
+};
+
+function createDefaults(): PlainObject {
+  return {
+    port: 3000,
+    llm: {
+      provider: 'ollama',
+      model: 'llama3.2:3b',
+      featureModels: {},
+      startupMode: 'warn',
+      maxConcurrency: 2,
+      generation: {
+        defaults: { ...DEFAULT_GENERATE_OPTIONS },
+        weather: { maxTokens: 1500 },
+        'trip-plan': { maxTokens: 2048 },
+      },
+    },
+    weatherData: { provider: 'open-meteo' },
+    cache: {
+      store: 'memory',
+      ttlSeconds: 6 * 60 * 60,
+      filePath: '.cache/llm-responses.json',
+    },
+    prompts: { directory: 'prompts' },
+    trips: { store: 'file', filePath: '.data/trips.json' },
+    exchangeRates: { filePath: 'data/exchange-rates.json' },
+    dashboard: { concurrency: 2, sectionTimeoutMs: 90000 },
+    jobs: { timeoutMs: 180000, retentionSeconds: 60 * 60 },
+    auth: {
+      mode: 'api-key',
+      store: 'file',
+      filePath: '.data/api-keys.json',
+      defaultQuotas: {
+        requestsPerMinute: 60,
+        requestsPerDay: 5000,
+        generationsPerMinute: 5,
+        generationsPerDay: 200,
+      },
+    },
+  };
+}
+
+/**
+ * Builds the app configuration from the built-in defaults, the JSON file
+ * named by CONFIG_FILE (if any) and the environment, later sources winning.
+ * Throws a ConfigError listing every invalid setting.
+ */
+export function loadAppConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
+  const plain = createDefaults();
+  if (env.CONFIG_FILE) {
+    merge(plain, readConfigFile(env.CONFIG_FILE));
+  }
+  merge(plain, readEnvironment(env));
+
+  // The default URL depends on the provider, the fake one needs none
+  const llm = plain.llm as PlainObject;
+  llm.baseUrl ??= DEFAULT_BASE_URLS[llm.provider as string];
+
+  const config = plainToInstance(AppConfig, plain);
+  const errors = validateSync(config, {
+    whitelist: true,
+    forbidNonWhitelisted: true,
+    stopAtFirstError: true,
+  });
+  if (errors.length > 0) {
+    throw new ConfigError(describeErrors(errors, env));
+  }
+  return config;
+}
+
+function readConfigFile(filePath: string): PlainObject {
+  let content: unknown;
+  try {
+    content = JSON.parse(readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new ConfigError([`CONFIG_FILE ${filePath}: ${reason}`]);
+  }
+  if (!isPlainObject(content)) {
+    throw new ConfigError([`CONFIG_FILE ${filePath}: expected a JSON object`]);
+  }
+  return content;
+}
+
+function readEnvironment(env: NodeJS.ProcessEnv): PlainObject {
+  const values: PlainObject = {};
+  ENV_VARIABLES.forEach(({ name, path, type }) => {
+    const raw = env[name]?.trim();
+    if (!raw) {
+      return;
+    }
+    setPath(values, path, toValue(raw, type));
+  });
+  return values;
+}
+
+function toValue(raw: string, type: EnvVariable['type']): unknown {
+  switch (type) {
+    case 'number': {
+      // Non-numeric text is kept so validation can report it
+      const value = Number(raw);
+      return Number.isNaN(value) ? raw : value;
+    }
+    case 'enum':
+      return raw.toLowerCase();
+    default:
+      return raw;
+  }
+}
+
+function setPath(target: PlainObject, path: string, value: unknown): void {
+  const keys = path.split('.');
+  const last = keys.pop();
+  const parent = keys.reduce<PlainObject>((node, key) => {
+    if (!isPlainObject(node[key])) {
+      node[key] = {};
+    }
+    return node[key] as PlainObject;
+  }, target);
+  parent[last] = value;
+}
+
+function merge(target: PlainObject, source: PlainObject): void {
+  Object.entries(source).forEach(([key, value]) => {
+    if (isPlainObject(value) && isPlainObject(target[key])) {
+      merge(target[key], value);
+    } else {
+      target[key] = value;
+    }
+  });
+}
+
+function isPlainObject(value: unknown): value is PlainObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describeErrors(
+  errors: ValidationError[],
+  env: NodeJS.ProcessEnv,
+  parentPath = '',
+): string[] {
+  return errors.flatMap((error) => {
+    const path = `${parentPath}${error.property}`;
+    const variable = ENV_VARIABLES.find(
+      (candidate) => candidate.path === path && env[candidate.name]?.trim(),
+    );
+    const source = variable ? ` (from ${variable.name})` : '';
+    const problems = Object.values(error.constraints ?? {}).map(
+      (message) => `${path}: ${message}${source}`,
+    );
+    return [
+      ...problems,
+      ...describeErrors(error.children ?? [], env, `${path}.`),
+    ];
+  });
+}
@@ -0,0 +1,63 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpStatus,
+  Param,
+  Post,
+} from '@nestjs/common';
+import {
+  type ApiKey,
+  type IssuedApiKey,
+  ApiKeyService,
+} from '../services/api-key.service';
+import { IssueApiKeyDto } from '../dto/api-key.dto';
+import { ApiError } from '../validation/api-error';
+import { Admin } from '../auth/admin.decorator';
+
+@Admin()
+@Controller('api/v1/admin/api-keys')
+export class ApiKeyAdminController {
+  constructor(private readonly apiKeyService: ApiKeyService) {}
+
+  /** Every key, revoked ones included, with its quotas and usage */
+  @Get()
+  list(): Promise<ApiKey[]> {
+    return this.apiKeyService.list();
+  }
+
+  /** The response is the only place the key itself is shown */
+  @Post()
+  issue(@Body() body: IssueApiKeyDto): Promise<IssuedApiKey> {
+    return this.apiKeyService.issue(body.name, body.quotas);
+  }
+
+  @Get(':id')
+  async get(@Param('id') id: string): Promise<ApiKey> {
+    const apiKey = await this.apiKeyService.get(id);
+    if (!apiKey) {
+      throw this.keyNotFound(id);
+    }
+    return apiKey;
+  }
+
+  /** The key stops working at once; it stays listed with its usage */
+  @Delete(':id')
+  async revoke(@Param('id') id: string): Promise<ApiKey> {
+    const apiKey = await this.apiKeyService.revoke(id);
+    if (!apiKey) {
+      throw this.keyNotFound(id);
+    }
+    return apiKey;
+  }
+
+  private keyNotFound(id: string): ApiError {
+    return new ApiError(
+      HttpStatus.NOT_FOUND,
+      'API_KEY_NOT_FOUND',
+      `No API key with id "${id}"`,
+      'id',
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { Controller, Delete, Get, Logger, Query } from '@nestjs/common';
+import {
+  CacheStats,
+  ResponseCacheService,
+} from '../services/response-cache.service';
+import { Admin } from '../auth/admin.decorator';
+
+@Admin()
+@Controller('api/v1/admin/cache')
+export class CacheAdminController {
+  private readonly logger = new Logger(CacheAdminController.name);
+
+  constructor(private readonly responseCache: ResponseCacheService) {}
+
+  @Get()
+  getStats(): Promise<CacheStats> {
+    return this.responseCache.getStats();
+  }
+
+  /**
+   * Removes cached responses. Without filters the whole cache is cleared;
+   * `namespace` (weather | trip-plan | money-saving-tips) and `city`
+   * narrow it down.
+   */
+  @Delete()
+  async invalidate(
+    @Query('namespace') namespace?: string,
+    @Query('city') city?: string,
+  ): Promise<{ removed: number }> {
+    this.logger.log(
+      `Invalidating cache (namespace: ${namespace || 'all'}, city: ${city || 'all'})`,
+    );
+    const removed = await this.responseCache.invalidate({ namespace, city });
+    return { removed };
+  }
+}
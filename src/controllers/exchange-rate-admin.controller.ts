@@ -0,0 +1,48 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Post,
+} from '@nestjs/common';
+import {
+  type ExchangeRateTable,
+  ExchangeRateService,
+  ExchangeRateTableError,
+} from '../services/exchange-rate.service';
+import { ApiError } from '../validation/api-error';
+import { Admin } from '../auth/admin.decorator';
+
+@Admin()
+@Controller('api/v1/admin/exchange-rates')
+export class ExchangeRateAdminController {
+  private readonly logger = new Logger(ExchangeRateAdminController.name);
+
+  constructor(private readonly exchangeRates: ExchangeRateService) {}
+
+  /** The rates budgets are converted with */
+  @Get()
+  getRates(): ExchangeRateTable {
+    return this.exchangeRates.getTable();
+  }
+
+  /** Picks up an edited rate table without a restart */
+  @Post('reload')
+  @HttpCode(HttpStatus.OK)
+  reload(): ExchangeRateTable {
+    try {
+      return this.exchangeRates.reload();
+    } catch (error) {
+      if (error instanceof ExchangeRateTableError) {
+        this.logger.error(error.message);
+        throw new ApiError(
+          HttpStatus.UNPROCESSABLE_ENTITY,
+          'INVALID_EXCHANGE_RATES',
+          error.problems.join('; '),
+        );
+      }
+      throw error;
+    }
+  }
+}
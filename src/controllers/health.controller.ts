@@ -0,0 +1,33 @@
+import { Controller, Get, HttpStatus, Res } from '@nestjs/common';
+import type { Response } from 'express';
+import { HealthService, Readiness } from '../services/health.service';
+import { Public } from '../auth/public.decorator';
+
+export interface Liveness {
+  status: 'ok';
+  uptimeSeconds: number;
+}
+
+@Public()
+@Controller('health')
+export class HealthController {
+  constructor(private readonly healthService: HealthService) {}
+
+  /** The process is up; does not touch the LLM runtime */
+  @Get('live')
+  getLiveness(): Liveness {
+    return { status: 'ok', uptimeSeconds: Math.round(process.uptime()) };
+  }
+
+  /** 200 when the runtime is reachable and every configured model is installed, 503 otherwise */
+  @Get('ready')
+  async getReadiness(
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<Readiness> {
+    const readiness = await this.healthService.checkReadiness();
+    if (!readiness.ready) {
+      response.status(HttpStatus.SERVICE_UNAVAILABLE);
+    }
+    return readiness;
+  }
+}
@@ -0,0 +1,207 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  MessageEvent,
+  Param,
+  Post,
+  Sse,
+} from '@nestjs/common';
+import { Observable, map } from 'rxjs';
+import { type Job, JobService } from '../services/job.service';
+import { type LlmQueueStats, LlmQueue } from '../services/llm-queue';
+import { WeatherService } from '../services/weather.service';
+import { RecommendationService } from '../services/recommendation.service';
+import { PromptRegistryService } from '../services/prompt-registry.service';
+import { parseCacheMode } from '../services/response-cache.service';
+import {
+  MoneySavingTipsJobDto,
+  TripPlanJobDto,
+  WeatherJobDto,
+} from '../dto/job.dto';
+import { ApiError } from '../validation/api-error';
+import { Generates, planWeight } from '../auth/generates.decorator';
+import { ApiKeyId } from '../auth/api-key-id.decorator';
+
+/**
+ * Background versions of the generation endpoints: POST returns a job right
+ * away, then GET :id or the :id/events stream gives its result.
+ */
+@Controller('api/v1/jobs')
+export class JobController {
+  private readonly logger = new Logger(JobController.name);
+
+  constructor(
+    private readonly jobService: JobService,
+    private readonly llmQueue: LlmQueue,
+    private readonly weatherService: WeatherService,
+    private readonly recommendationService: RecommendationService,
+    private readonly promptRegistry: PromptRegistryService,
+  ) {}
+
+  @Post('weather')
+  @Generates()
+  @HttpCode(HttpStatus.ACCEPTED)
+  createWeatherJob(
+    @Body() body: WeatherJobDto,
+    @ApiKeyId() apiKeyId: string | null,
+  ): Job {
+    const { city, startDate, endDate, trip, cache, promptVersion, locale } =
+      body.params;
+    this.promptRegistry.assertVersion(
+      'weather',
+      promptVersion,
+      'params.promptVersion',
+    );
+
+    this.logger.log(`Creating weather job for ${city}`);
+    return this.jobService.create(
+      'weather',
+      () =>
+        this.weatherService.getWeatherData(city, startDate, endDate, trip, {
+          cache: parseCacheMode(cache),
+          promptVersion,
+          locale,
+        }),
+      { ...body, apiKeyId },
+    );
+  }
+
+  @Post('trip-plan')
+  @Generates((request) =>
+    planWeight(
+      (request.body as Partial<TripPlanJobDto> | undefined)?.params
+        ?.weatherAware,
+    ),
+  )
+  @HttpCode(HttpStatus.ACCEPTED)
+  createTripPlanJob(
+    @Body() body: TripPlanJobDto,
+    @ApiKeyId() apiKeyId: string | null,
+  ): Job {
+    const {
+      city,
+      startDate,
+      endDate,
+      trip,
+      weatherAware,
+      cache,
+      promptVersion,
+      locale,
+    } = body.params;
+    this.promptRegistry.assertVersion(
+      'trip-plan',
+      promptVersion,
+      'params.promptVersion',
+    );
+
+    this.logger.log(`Creating trip-plan job for ${city}`);
+    return this.jobService.create(
+      'trip-plan',
+      () =>
+        this.recommendationService.getTripPlan(city, startDate, endDate, trip, {
+          weatherAware,
+          cache: parseCacheMode(cache),
+          promptVersion,
+          locale,
+        }),
+      { ...body, apiKeyId },
+    );
+  }
+
+  @Post('money-saving-tips')
+  @Generates()
+  @HttpCode(HttpStatus.ACCEPTED)
+  createMoneySavingTipsJob(
+    @Body() body: MoneySavingTipsJobDto,
+    @ApiKeyId() apiKeyId: string | null,
+  ): Job {
+    const {
+      cities,
+      startDate,
+      endDate,
+      tripName,
+      cache,
+      promptVersion,
+      locale,
+      category,
+      city,
+    } = body.params;
+    this.promptRegistry.assertVersion(
+      'money-saving-tips',
+      promptVersion,
+      'params.promptVersion',
+    );
+
+    this.logger.log(`Creating money-saving-tips job for ${cities.join(', ')}`);
+    return this.jobService.create(
+      'money-saving-tips',
+      () =>
+        this.recommendationService.getMoneySavingTips(
+          cities,
+          startDate,
+          endDate,
+          tripName,
+          {
+            cache: parseCacheMode(cache),
+            promptVersion,
+            locale,
+            categories: category,
+            cities: city,
+          },
+        ),
+      { ...body, apiKeyId },
+    );
+  }
+
+  /** How busy the model is: running calls and the line behind them */
+  @Get('queue')
+  getQueue(): LlmQueueStats {
+    return this.llmQueue.getStats();
+  }
+
+  @Get(':id')
+  get(@Param('id') id: string, @ApiKeyId() apiKeyId: string | null): Job {
+    const job = this.jobService.get(id, apiKeyId);
+    if (!job) {
+      throw this.jobNotFound(id);
+    }
+    return job;
+  }
+
+  /** Emits a `status` event on every change, the last one with the result */
+  @Sse(':id/events')
+  watch(
+    @Param('id') id: string,
+    @ApiKeyId() apiKeyId: string | null,
+  ): Observable<MessageEvent> {
+    const updates = this.jobService.watch(id, apiKeyId);
+    if (!updates) {
+      throw this.jobNotFound(id);
+    }
+    return updates.pipe(map((job) => ({ type: 'status', data: job })));
+  }
+
+  /** Cancels the job if it has not finished; either way returns it */
+  @Delete(':id')
+  cancel(@Param('id') id: string, @ApiKeyId() apiKeyId: string | null): Job {
+    const job = this.jobService.cancel(id, apiKeyId);
+    if (!job) {
+      throw this.jobNotFound(id);
+    }
+    return job;
+  }
+
+  private jobNotFound(id: string): ApiError {
+    return new ApiError(
+      HttpStatus.NOT_FOUND,
+      'JOB_NOT_FOUND',
+      `No generation job with id "${id}"`,
+      'id',
+    );
+  }
+}
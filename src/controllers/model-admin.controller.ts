@@ -0,0 +1,138 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  MessageEvent,
+  Param,
+  Post,
+  Put,
+  Sse,
+} from '@nestjs/common';
+import { Observable, map } from 'rxjs';
+import {
+  LlmModel,
+  LlmProvider,
+  LlmProviderType,
+} from '../services/llm-provider';
+import {
+  FeatureModel,
+  isLlmFeature,
+  LLM_FEATURES,
+  ModelSelectionService,
+} from '../services/model-selection.service';
+import {
+  type ModelPull,
+  ModelPullService,
+} from '../services/model-pull.service';
+import { FeatureModelDto, ModelNameDto } from '../dto/model.dto';
+import { ApiError } from '../validation/api-error';
+import { Admin } from '../auth/admin.decorator';
+
+export interface ModelOverview {
+  provider: LlmProviderType;
+  current: string;
+  features: FeatureModel[];
+  installed: LlmModel[];
+}
+
+@Admin()
+@Controller('api/v1/admin/models')
+export class ModelAdminController {
+  private readonly logger = new Logger(ModelAdminController.name);
+
+  constructor(
+    private readonly llmProvider: LlmProvider,
+    private readonly modelSelection: ModelSelectionService,
+    private readonly modelPull: ModelPullService,
+  ) {}
+
+  @Get()
+  async getModels(): Promise<ModelOverview> {
+    return {
+      provider: this.llmProvider.type,
+      current: this.llmProvider.getCurrentModel(),
+      features: this.modelSelection.getFeatureModels(),
+      installed: await this.llmProvider.listModels(),
+    };
+  }
+
+  /** Switches the model used by every feature without its own override */
+  @Put('current')
+  async switchModel(@Body() body: ModelNameDto): Promise<ModelOverview> {
+    this.logger.log(`Switching current model to ${body.model}`);
+    if (!(await this.llmProvider.switchModel(body.model))) {
+      throw this.modelNotFound(body.model);
+    }
+    return this.getModels();
+  }
+
+  @Put('features/:feature')
+  async setFeatureModel(
+    @Param('feature') feature: string,
+    @Body() body: FeatureModelDto,
+  ): Promise<ModelOverview> {
+    if (!isLlmFeature(feature)) {
+      throw new ApiError(
+        HttpStatus.NOT_FOUND,
+        'UNKNOWN_FEATURE',
+        `Unknown feature "${feature}". Expected one of: ${LLM_FEATURES.join(', ')}`,
+        'feature',
+      );
+    }
+    if (!(await this.modelSelection.setFeatureModel(feature, body.model))) {
+      throw this.modelNotFound(body.model);
+    }
+    return this.getModels();
+  }
+
+  /** Starts downloading a model; follow it with GET pulls/:id/stream */
+  @Post('pulls')
+  @HttpCode(HttpStatus.ACCEPTED)
+  startPull(@Body() body: ModelNameDto): ModelPull {
+    return this.modelPull.startPull(body.model);
+  }
+
+  @Get('pulls')
+  listPulls(): ModelPull[] {
+    return this.modelPull.listPulls();
+  }
+
+  @Get('pulls/:id')
+  getPull(@Param('id') id: string): ModelPull {
+    const pull = this.modelPull.getPull(id);
+    if (!pull) {
+      throw this.pullNotFound(id);
+    }
+    return pull;
+  }
+
+  @Sse('pulls/:id/stream')
+  streamPull(@Param('id') id: string): Observable<MessageEvent> {
+    const updates = this.modelPull.watchPull(id);
+    if (!updates) {
+      throw this.pullNotFound(id);
+    }
+    return updates.pipe(map((pull) => ({ type: 'progress', data: pull })));
+  }
+
+  private modelNotFound(model: string): ApiError {
+    return new ApiError(
+      HttpStatus.NOT_FOUND,
+      'MODEL_NOT_FOUND',
+      `Model "${model}" is not installed. Pull it first with POST /api/v1/admin/models/pulls`,
+      'model',
+    );
+  }
+
+  private pullNotFound(id: string): ApiError {
+    return new ApiError(
+      HttpStatus.NOT_FOUND,
+      'PULL_NOT_FOUND',
+      `No model pull with id "${id}"`,
+      'id',
+    );
+  }
+}
@@ -0,0 +1,144 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Param,
+  Post,
+} from '@nestjs/common';
+import {
+  type PlanRevisionResult,
+  type PlanSession,
+  PlanSessionBusyError,
+  PlanSessionService,
+} from '../services/plan-session.service';
+import { PromptRegistryService } from '../services/prompt-registry.service';
+import { PlanMessageDto, PlanSessionDto } from '../dto/plan-session.dto';
+import { ApiError } from '../validation/api-error';
+import { Generates, planWeight } from '../auth/generates.decorator';
+import { ApiKeyId } from '../auth/api-key-id.decorator';
+
+@Controller('api/v1/plan/sessions')
+export class PlanSessionController {
+  private readonly logger = new Logger(PlanSessionController.name);
+
+  constructor(
+    private readonly planSessionService: PlanSessionService,
+    private readonly promptRegistry: PromptRegistryService,
+  ) {}
+
+  /** Generates the first plan of a new session */
+  @Post()
+  @Generates((request) =>
+    planWeight(
+      (request.body as Partial<PlanSessionDto> | undefined)?.weatherAware,
+    ),
+  )
+  async create(
+    @Body() body: PlanSessionDto,
+    @ApiKeyId() apiKeyId: string | null,
+  ): Promise<PlanSession> {
+    this.promptRegistry.assertVersion('trip-plan', body.promptVersion);
+
+    this.logger.log(`Starting plan session for ${body.city}`);
+    try {
+      return await this.planSessionService.create(body, apiKeyId);
+    } catch (error) {
+      throw this.generationFailed(error);
+    }
+  }
+
+  @Get(':id')
+  get(
+    @Param('id') id: string,
+    @ApiKeyId() apiKeyId: string | null,
+  ): PlanSession {
+    const session = this.planSessionService.get(id, apiKeyId);
+    if (!session) {
+      throw this.sessionNotFound(id);
+    }
+    return session;
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  delete(@Param('id') id: string, @ApiKeyId() apiKeyId: string | null): void {
+    if (!this.planSessionService.delete(id, apiKeyId)) {
+      throw this.sessionNotFound(id);
+    }
+  }
+
+  /** Revises the plan following an instruction, e.g. "less walking on day 2" */
+  @Post(':id/messages')
+  @Generates()
+  @HttpCode(HttpStatus.OK)
+  reply(
+    @Param('id') id: string,
+    @Body() body: PlanMessageDto,
+    @ApiKeyId() apiKeyId: string | null,
+  ): Promise<PlanRevisionResult> {
+    return this.revise(id, () =>
+      this.planSessionService.revise(id, body.message, apiKeyId),
+    );
+  }
+
+  /** Swaps the suggestions for different ones, keeping the rest of the plan */
+  @Post(':id/refresh')
+  @Generates()
+  @HttpCode(HttpStatus.OK)
+  refresh(
+    @Param('id') id: string,
+    @ApiKeyId() apiKeyId: string | null,
+  ): Promise<PlanRevisionResult> {
+    return this.revise(id, () => this.planSessionService.refresh(id, apiKeyId));
+  }
+
+  private async revise(
+    id: string,
+    run: () => Promise<PlanRevisionResult | undefined>,
+  ): Promise<PlanRevisionResult> {
+    let result: PlanRevisionResult | undefined;
+    try {
+      result = await run();
+    } catch (error) {
+      if (error instanceof PlanSessionBusyError) {
+        throw new ApiError(
+          HttpStatus.CONFLICT,
+          'SESSION_BUSY',
+          error.message,
+          'id',
+        );
+      }
+      throw this.generationFailed(error);
+    }
+
+    if (!result) {
+      throw this.sessionNotFound(id);
+    }
+    return result;
+  }
+
+  private generationFailed(error: unknown): ApiError {
+    this.logger.error(
+      'Plan session generation failed:',
+      error instanceof Error ? error.message : error,
+    );
+    return new ApiError(
+      HttpStatus.SERVICE_UNAVAILABLE,
+      'GENERATION_FAILED',
+      'The model could not produce a plan, try again',
+    );
+  }
+
+  private sessionNotFound(id: string): ApiError {
+    return new ApiError(
+      HttpStatus.NOT_FOUND,
+      'SESSION_NOT_FOUND',
+      `No plan session with id "${id}"`,
+      'id',
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Post,
+} from '@nestjs/common';
+import {
+  type PromptFeatureInfo,
+  PromptRegistryService,
+  PromptTemplateError,
+} from '../services/prompt-registry.service';
+import { ApiError } from '../validation/api-error';
+import { Admin } from '../auth/admin.decorator';
+
+@Admin()
+@Controller('api/v1/admin/prompts')
+export class PromptAdminController {
+  private readonly logger = new Logger(PromptAdminController.name);
+
+  constructor(private readonly promptRegistry: PromptRegistryService) {}
+
+  /** Versions on disk and the rollout of each feature */
+  @Get()
+  listPrompts(): PromptFeatureInfo[] {
+    return this.promptRegistry.listFeatures();
+  }
+
+  /** Picks up edited template files without a restart */
+  @Post('reload')
+  @HttpCode(HttpStatus.OK)
+  reload(): PromptFeatureInfo[] {
+    try {
+      return this.promptRegistry.reload();
+    } catch (error) {
+      if (error instanceof PromptTemplateError) {
+        this.logger.error(error.message);
+        throw new ApiError(
+          HttpStatus.UNPROCESSABLE_ENTITY,
+          'INVALID_PROMPT_TEMPLATES',
+          error.problems.join('; '),
+        );
+      }
+      throw error;
+    }
+  }
+}
@@ -1,104 +1,379 @@
-import { Controller, Get, Query, Logger } from '@nestjs/common';
-import { RecommendationService, TripPlanData, MoneySavingTip } from '../services/recommendation.service';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Query,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Sse,
+  MessageEvent,
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
+import {
+  RecommendationService,
+  TripPlanData,
+  MoneySavingTips,
+} from '../services/recommendation.service';
+import { parseCacheMode } from '../services/response-cache.service';
+import {
+  BudgetQueryDto,
+  CityTripQueryDto,
+  DashboardQueryDto,
+  MoneySavingTipsQueryDto,
+  TripPlanQueryDto,
+} from '../dto/trip-query.dto';
+import { BookingsDto } from '../dto/booking.dto';
+import { MultiCityPlanDto } from '../dto/multi-city.dto';
+import {
+  MultiCityPlan,
+  MultiCityService,
+} from '../services/multi-city.service';
+import { Budget, BudgetService } from '../services/budget.service';
+import { ExchangeRateService } from '../services/exchange-rate.service';
+import {
+  PackingList,
+  PackingListService,
+} from '../services/packing-list.service';
+import { Dashboard, DashboardService } from '../services/dashboard.service';
+import { BookingInput } from '../services/bookings';
+import { PromptRegistryService } from '../services/prompt-registry.service';
+import { ApiError } from '../validation/api-error';
+import {
+  Generates,
+  GenerationWeight,
+  planWeight,
+} from '../auth/generates.decorator';
+import { MAX_CITIES } from '../validation/validators';
+
+/** A plan per city, with its forecast when weather-aware, then the transfers between them */
+const multiCityWeight: GenerationWeight = (request) => {
+  const body = request.body as Partial<MultiCityPlanDto> | undefined;
+  const stays = Array.isArray(body?.cities)
+    ? Math.min(body.cities.length, MAX_CITIES)
+    : MAX_CITIES;
+  return stays * planWeight(body?.weatherAware) + 1;
+};
+
+/** Weather, trip plan and tips; a weather-aware plan reuses the weather */
+const DASHBOARD_WEIGHT = 3;
 
 @Controller('api/v1/plan')
 export class RecommendationController {
   private readonly logger = new Logger(RecommendationController.name);
 
-  constructor(private readonly recommendationService: RecommendationService) {}
+  constructor(
+    private readonly recommendationService: RecommendationService,
+    private readonly multiCityService: MultiCityService,
+    private readonly budgetService: BudgetService,
+    private readonly exchangeRates: ExchangeRateService,
+    private readonly packingListService: PackingListService,
+    private readonly dashboardService: DashboardService,
+    private readonly promptRegistry: PromptRegistryService,
+  ) {}
 
   @Get('trip-plan')
-  async getTripPlan(
-    @Query('city') city: string,
-    @Query('startDate') startDate: string,
-    @Query('endDate') endDate: string,
-    @Query('trip') trip: string
+  @Generates((request) => planWeight(request.query.weatherAware))
+  getTripPlan(
+    @Query() query: TripPlanQueryDto,
+    @Headers('cache-control') cacheControl?: string,
   ): Promise<TripPlanData> {
-    if (!city) {
-      throw new Error('City parameter is required');
-    }
-    
-    if (!startDate || !endDate) {
-      throw new Error('startDate and endDate parameters are required (ISO format)');
-    }
+    return this.planTrip(query, cacheControl);
+  }
 
-    if (!trip) {
-      throw new Error('trip parameter is required');
-    }
+  /** Same as GET, but plans around the bookings in the body */
+  @Post('trip-plan')
+  @Generates((request) => planWeight(request.query.weatherAware))
+  @HttpCode(HttpStatus.OK)
+  planTripAroundBookings(
+    @Query() query: TripPlanQueryDto,
+    @Body() body: BookingsDto,
+    @Headers('cache-control') cacheControl?: string,
+  ): Promise<TripPlanData> {
+    return this.planTrip(query, cacheControl, body.bookings);
+  }
 
-    // Validate ISO date format
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-    
-    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
-      throw new Error('Invalid date format. Please use ISO format (e.g., 2024-08-15T10:00:00.000Z)');
-    }
+  private async planTrip(
+    query: TripPlanQueryDto,
+    cacheControl?: string,
+    bookings?: BookingInput[],
+  ): Promise<TripPlanData> {
+    const {
+      city,
+      startDate,
+      endDate,
+      trip,
+      weatherAware,
+      cache,
+      promptVersion,
+      locale,
+    } = query;
 
-    if (start > end) {
-      throw new Error('startDate cannot be after endDate');
-    }
+    this.logger.log(
+      `Fetching trip plan for city: ${city}, dates: ${startDate} to ${endDate}`,
+    );
+    this.promptRegistry.assertVersion('trip-plan', promptVersion);
 
-    this.logger.log(`Fetching trip plan for city: ${city}, dates: ${startDate} to ${endDate}`);
-    
     try {
-      const tripPlanData = await this.recommendationService.getTripPlan(city, startDate, endDate, trip);
+      const tripPlanData = await this.recommendationService.getTripPlan(
+        city,
+        startDate,
+        endDate,
+        trip,
+        {
+          weatherAware,
+          cache: parseCacheMode(cache, cacheControl),
+          promptVersion,
+          locale,
+          bookings,
+        },
+      );
       this.logger.log(`Successfully retrieved trip plan data for ${city}`);
       console.log(tripPlanData);
       return tripPlanData;
     } catch (error) {
-      this.logger.error(`Failed to get trip plan data: ${error.message}`);
+      this.logger.error(
+        `Failed to get trip plan data: ${(error as Error).message}`,
+      );
       throw error;
     }
   }
 
-  @Get('money-saving-tips')
-  async getMoneySavingTips(
-    @Query('cities') cities: string,
-    @Query('startDate') startDate: string,
-    @Query('endDate') endDate: string,
-    @Query('tripName') tripName: string
-  ): Promise<MoneySavingTip> {
-    if (!cities) {
-      throw new Error('Cities parameter is required (comma-separated list)');
-    }
-    
-    if (!startDate || !endDate) {
-      throw new Error('startDate and endDate parameters are required (ISO format)');
-    }
+  /** Plans each city of a trip and the transfers between them */
+  @Post('multi-city')
+  @Generates(multiCityWeight)
+  @HttpCode(HttpStatus.OK)
+  async getMultiCityPlan(
+    @Body() body: MultiCityPlanDto,
+    @Headers('cache-control') cacheControl?: string,
+  ): Promise<MultiCityPlan> {
+    const cities = body.cities.map((city) => city.name);
 
-    if (!tripName) {
-      throw new Error('tripName parameter is required');
-    }
+    this.logger.log(
+      `Fetching multi-city plan for cities: ${cities.join(', ')}`,
+    );
+    this.promptRegistry.assertVersion('trip-plan', body.promptVersion);
 
-    // Parse cities array from comma-separated string
-    const citiesArray = cities.split(',').map(city => city.trim()).filter(city => city.length > 0);
-    
-    if (citiesArray.length === 0) {
-      throw new Error('At least one city must be provided');
+    try {
+      const plan = await this.multiCityService.getPlan({
+        ...body,
+        cache: parseCacheMode(body.cache, cacheControl),
+      });
+      this.logger.log(
+        `Successfully retrieved multi-city plan for ${cities.join(', ')}`,
+      );
+      return plan;
+    } catch (error) {
+      this.logger.error(
+        `Failed to get multi-city plan: ${(error as Error).message}`,
+      );
+      throw error;
     }
+  }
 
-    // Validate ISO date format
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-    
-    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
-      throw new Error('Invalid date format. Please use ISO format (e.g., 2024-08-15T10:00:00.000Z)');
-    }
+  @Get('money-saving-tips')
+  @Generates()
+  async getMoneySavingTips(
+    @Query() query: MoneySavingTipsQueryDto,
+    @Headers('cache-control') cacheControl?: string,
+  ): Promise<MoneySavingTips> {
+    const {
+      cities: citiesArray,
+      startDate,
+      endDate,
+      tripName,
+      cache,
+      promptVersion,
+      locale,
+      category,
+      city,
+    } = query;
 
-    if (start > end) {
-      throw new Error('startDate cannot be after endDate');
-    }
+    this.logger.log(
+      `Fetching money-saving tips for trip: ${tripName}, cities: ${citiesArray.join(', ')}, dates: ${startDate} to ${endDate}`,
+    );
+    this.promptRegistry.assertVersion('money-saving-tips', promptVersion);
 
-    this.logger.log(`Fetching money-saving tips for trip: ${tripName}, cities: ${citiesArray.join(', ')}, dates: ${startDate} to ${endDate}`);
-    
     try {
-      const tipsData = await this.recommendationService.getMoneySavingTips(citiesArray, startDate, endDate, tripName);
-      this.logger.log(`Successfully retrieved money-saving tips for trip: ${tripName}`);
+      const tipsData = await this.recommendationService.getMoneySavingTips(
+        citiesArray,
+        startDate,
+        endDate,
+        tripName,
+        {
+          cache: parseCacheMode(cache, cacheControl),
+          promptVersion,
+          locale,
+          categories: category,
+          cities: city,
+        },
+      );
+      this.logger.log(
+        `Successfully retrieved money-saving tips for trip: ${tripName}`,
+      );
       console.log(tipsData);
       return tipsData;
     } catch (error) {
-      this.logger.error(`Failed to get money-saving tips: ${error.message}`);
+      this.logger.error(
+        `Failed to get money-saving tips: ${(error as Error).message}`,
+      );
       throw error;
     }
   }
+
+  /** Per-city daily costs and totals for the same cities and dates as the tips */
+  @Get('budget')
+  @Generates()
+  getBudget(
+    @Query() query: BudgetQueryDto,
+    @Headers('cache-control') cacheControl?: string,
+  ): Promise<Budget> {
+    const {
+      cities,
+      startDate,
+      endDate,
+      tier,
+      travelers,
+      currency,
+      cache,
+      promptVersion,
+    } = query;
+
+    this.logger.log(
+      `Estimating a ${tier} budget for ${travelers} traveler(s), cities: ${cities.join(', ')}, dates: ${startDate} to ${endDate}`,
+    );
+    this.promptRegistry.assertVersion('budget', promptVersion);
+    if (currency && !this.exchangeRates.hasCurrency(currency)) {
+      throw new ApiError(
+        HttpStatus.UNPROCESSABLE_ENTITY,
+        'UNSUPPORTED_CURRENCY',
+        `No exchange rate for ${currency}`,
+        'currency',
+      );
+    }
+
+    return this.budgetService.getBudget({
+      cities,
+      startDate,
+      endDate,
+      tier,
+      travelers,
+      currency,
+      cache: parseCacheMode(cache, cacheControl),
+      promptVersion,
+    });
+  }
+
+  /** Checklist for one city, from its daily weather and the kind of trip */
+  @Get('packing-list')
+  @Generates()
+  getPackingList(
+    @Query() query: CityTripQueryDto,
+    @Headers('cache-control') cacheControl?: string,
+  ): Promise<PackingList> {
+    const { city, startDate, endDate, trip, cache, promptVersion, locale } =
+      query;
+
+    this.logger.log(
+      `Building packing list for city: ${city}, dates: ${startDate} to ${endDate}`,
+    );
+    this.promptRegistry.assertVersion('weather', promptVersion);
+    return this.packingListService.getPackingList(
+      city,
+      startDate,
+      endDate,
+      trip,
+      {
+        cache: parseCacheMode(cache, cacheControl),
+        promptVersion,
+        locale,
+      },
+    );
+  }
+
+  /** Weather, trip plan and tips for one city in one call, each with its own status */
+  @Get('dashboard')
+  @Generates(DASHBOARD_WEIGHT)
+  getDashboard(
+    @Query() query: DashboardQueryDto,
+    @Headers('cache-control') cacheControl?: string,
+  ): Promise<Dashboard> {
+    const { city, startDate, endDate, trip, weatherAware, cache, locale } =
+      query;
+
+    this.logger.log(
+      `Building dashboard for city: ${city}, dates: ${startDate} to ${endDate}`,
+    );
+    return this.dashboardService.getDashboard({
+      city,
+      startDate,
+      endDate,
+      trip,
+      weatherAware,
+      cache: parseCacheMode(cache, cacheControl),
+      locale,
+    });
+  }
+
+  @Sse('trip-plan/stream')
+  @Generates((request) => planWeight(request.query.weatherAware))
+  streamTripPlan(@Query() query: TripPlanQueryDto): Observable<MessageEvent> {
+    const {
+      city,
+      startDate,
+      endDate,
+      trip,
+      weatherAware,
+      promptVersion,
+      locale,
+    } = query;
+
+    this.logger.log(
+      `Streaming trip plan for city: ${city}, dates: ${startDate} to ${endDate}`,
+    );
+    this.promptRegistry.assertVersion('trip-plan', promptVersion);
+    return this.recommendationService.streamTripPlan(
+      city,
+      startDate,
+      endDate,
+      trip,
+      { weatherAware, promptVersion, locale },
+    );
+  }
+
+  @Sse('money-saving-tips/stream')
+  @Generates()
+  streamMoneySavingTips(
+    @Query() query: MoneySavingTipsQueryDto,
+  ): Observable<MessageEvent> {
+    const {
+      cities: citiesArray,
+      startDate,
+      endDate,
+      tripName,
+      promptVersion,
+      locale,
+      category,
+      city,
+    } = query;
+
+    this.logger.log(
+      `Streaming money-saving tips for trip: ${tripName}, cities: ${citiesArray.join(', ')}`,
+    );
+    this.promptRegistry.assertVersion('money-saving-tips', promptVersion);
+    return this.recommendationService.streamMoneySavingTips(
+      citiesArray,
+      startDate,
+      endDate,
+      tripName,
+      {
+        promptVersion,
+        locale,
+        categories: category,
+        cities: city,
+      },
+    );
+  }
 }
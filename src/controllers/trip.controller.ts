@@ -0,0 +1,176 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Param,
+  Post,
+  Put,
+  Query,
+} from '@nestjs/common';
+import {
+  CityResults,
+  TripService,
+  TripSummary,
+  TripTips,
+} from '../services/trip.service';
+import { Trip } from '../services/trip-store';
+import { WeatherData } from '../services/weather.service';
+import { TripPlanData } from '../services/recommendation.service';
+import { parseCacheMode } from '../services/response-cache.service';
+import { PromptRegistryService } from '../services/prompt-registry.service';
+import {
+  TripDto,
+  TripGenerationQueryDto,
+  TripTipsQueryDto,
+  TripPlanGenerationQueryDto,
+} from '../dto/trip.dto';
+import { ApiError } from '../validation/api-error';
+import {
+  Generates,
+  type GenerationWeight,
+  planWeight,
+} from '../auth/generates.decorator';
+import type { ApiKeyRequest } from '../auth/api-key.guard';
+import { ApiKeyId } from '../auth/api-key-id.decorator';
+
+/** `perCity` generations for each city of the requested trip; none for an unknown trip */
+const perTripCity =
+  (perCity: (request: ApiKeyRequest) => number): GenerationWeight =>
+  async (request, moduleRef) => {
+    const trip = await moduleRef
+      .get(TripService, { strict: false })
+      .get(request.params.id, request.apiKey?.id ?? null);
+    return (trip?.cities.length ?? 0) * perCity(request);
+  };
+
+@Controller('api/v1/trips')
+export class TripController {
+  private readonly logger = new Logger(TripController.name);
+
+  constructor(
+    private readonly tripService: TripService,
+    private readonly promptRegistry: PromptRegistryService,
+  ) {}
+
+  @Post()
+  create(
+    @Body() body: TripDto,
+    @ApiKeyId() apiKeyId: string | null,
+  ): Promise<Trip> {
+    this.logger.log(`Creating trip ${body.name}`);
+    return this.tripService.create(body, apiKeyId);
+  }
+
+  /** The trips created with the request's API key */
+  @Get()
+  list(@ApiKeyId() apiKeyId: string | null): Promise<TripSummary[]> {
+    return this.tripService.list(apiKeyId);
+  }
+
+  @Get(':id')
+  async get(
+    @Param('id') id: string,
+    @ApiKeyId() apiKeyId: string | null,
+  ): Promise<Trip> {
+    return this.found(id, await this.tripService.get(id, apiKeyId));
+  }
+
+  /** Replaces the trip; results saved for the old details are dropped */
+  @Put(':id')
+  async update(
+    @Param('id') id: string,
+    @Body() body: TripDto,
+    @ApiKeyId() apiKeyId: string | null,
+  ): Promise<Trip> {
+    return this.found(id, await this.tripService.update(id, body, apiKeyId));
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async delete(
+    @Param('id') id: string,
+    @ApiKeyId() apiKeyId: string | null,
+  ): Promise<void> {
+    if (!(await this.tripService.delete(id, apiKeyId))) {
+      throw this.tripNotFound(id);
+    }
+  }
+
+  @Get(':id/weather')
+  @Generates(perTripCity(() => 1))
+  async getWeather(
+    @Param('id') id: string,
+    @Query() query: TripGenerationQueryDto,
+    @ApiKeyId() apiKeyId: string | null,
+    @Headers('cache-control') cacheControl?: string,
+  ): Promise<CityResults<WeatherData>> {
+    this.promptRegistry.assertVersion('weather', query.promptVersion);
+    const weather = await this.tripService.getWeather(
+      id,
+      { ...query, cache: parseCacheMode(query.cache, cacheControl) },
+      apiKeyId,
+    );
+    return this.found(id, weather);
+  }
+
+  @Get(':id/plan')
+  @Generates(perTripCity((request) => planWeight(request.query.weatherAware)))
+  async getPlan(
+    @Param('id') id: string,
+    @Query() query: TripPlanGenerationQueryDto,
+    @ApiKeyId() apiKeyId: string | null,
+    @Headers('cache-control') cacheControl?: string,
+  ): Promise<CityResults<TripPlanData>> {
+    this.promptRegistry.assertVersion('trip-plan', query.promptVersion);
+    const plan = await this.tripService.getPlan(
+      id,
+      { ...query, cache: parseCacheMode(query.cache, cacheControl) },
+      apiKeyId,
+    );
+    return this.found(id, plan);
+  }
+
+  @Get(':id/tips')
+  @Generates()
+  async getTips(
+    @Param('id') id: string,
+    @Query() query: TripTipsQueryDto,
+    @ApiKeyId() apiKeyId: string | null,
+    @Headers('cache-control') cacheControl?: string,
+  ): Promise<TripTips> {
+    this.promptRegistry.assertVersion('money-saving-tips', query.promptVersion);
+    const { category, city, ...options } = query;
+    const tips = await this.tripService.getTips(
+      id,
+      {
+        ...options,
+        cache: parseCacheMode(query.cache, cacheControl),
+        categories: category,
+        cities: city,
+      },
+      apiKeyId,
+    );
+    return this.found(id, tips);
+  }
+
+  private found<T>(id: string, value: T | undefined): T {
+    if (value === undefined) {
+      throw this.tripNotFound(id);
+    }
+    return value;
+  }
+
+  private tripNotFound(id: string): ApiError {
+    return new ApiError(
+      HttpStatus.NOT_FOUND,
+      'TRIP_NOT_FOUND',
+      `No trip with id "${id}"`,
+      'id',
+    );
+  }
+}
@@ -1,53 +1,80 @@
-import { Controller, Get, Query, Logger } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Query,
+  Headers,
+  Logger,
+  Sse,
+  MessageEvent,
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
 import { WeatherService, WeatherData } from '../services/weather.service';
+import { parseCacheMode } from '../services/response-cache.service';
+import { CityTripQueryDto } from '../dto/trip-query.dto';
+import { PromptRegistryService } from '../services/prompt-registry.service';
+import { Generates } from '../auth/generates.decorator';
 
 @Controller('api/v1/weather')
 export class WeatherController {
   private readonly logger = new Logger(WeatherController.name);
 
-  constructor(private readonly weatherService: WeatherService) {}
+  constructor(
+    private readonly weatherService: WeatherService,
+    private readonly promptRegistry: PromptRegistryService,
+  ) {}
 
   @Get()
+  @Generates()
   async getWeather(
-    @Query('city') city: string,
-    @Query('startDate') startDate: string,
-    @Query('endDate') endDate: string,
-    @Query('trip') trip: string
+    @Query() query: CityTripQueryDto,
+    @Headers('cache-control') cacheControl?: string,
   ): Promise<WeatherData> {
-    if (!city) {
-      throw new Error('City parameter is required');
-    }
-    
-    if (!startDate || !endDate) {
-      throw new Error('startDate and endDate parameters are required (ISO format)');
-    }
-
-    if (!trip) {
-      throw new Error('trip parameter is required');
-    }
-
-    // Validate ISO date format
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-    
-    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
-      throw new Error('Invalid date format. Please use ISO format (e.g., 2024-08-15T10:00:00.000Z)');
-    }
+    const { city, startDate, endDate, trip, cache, promptVersion, locale } =
+      query;
 
-    if (start > end) {
-      throw new Error('startDate cannot be after endDate');
-    }
+    this.logger.log(
+      `Fetching weather for city: ${city}, dates: ${startDate} to ${endDate}`,
+    );
+    this.promptRegistry.assertVersion('weather', promptVersion);
 
-    this.logger.log(`Fetching weather for city: ${city}, dates: ${startDate} to ${endDate}`);
-    
     try {
-      const weatherData = await this.weatherService.getWeatherData(city, startDate, endDate, trip);
+      const weatherData = await this.weatherService.getWeatherData(
+        city,
+        startDate,
+        endDate,
+        trip,
+        {
+          cache: parseCacheMode(cache, cacheControl),
+          promptVersion,
+          locale,
+        },
+      );
       this.logger.log(`Successfully retrieved weather data for ${city}`);
       console.log(weatherData);
       return weatherData;
     } catch (error) {
-      this.logger.error(`Failed to get weather data: ${error.message}`);
+      this.logger.error(
+        `Failed to get weather data: ${(error as Error).message}`,
+      );
       throw error;
     }
   }
+
+  @Sse('stream')
+  @Generates()
+  streamWeather(@Query() query: CityTripQueryDto): Observable<MessageEvent> {
+    const { city, startDate, endDate, trip, promptVersion, locale } = query;
+
+    this.logger.log(
+      `Streaming weather for city: ${city}, dates: ${startDate} to ${endDate}`,
+    );
+    this.promptRegistry.assertVersion('weather', promptVersion);
+    return this.weatherService.streamWeatherData(
+      city,
+      startDate,
+      endDate,
+      trip,
+      { promptVersion, locale },
+    );
+  }
 }
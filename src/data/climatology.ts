@@ -0,0 +1,57 @@
+/**
+ * Long-term monthly averages used for dates beyond the forecast horizon.
+ *
+ * Each city maps to twelve `[minTemperature, maxTemperature, rainProbability]`
+ * tuples (January to December): average daily low and high in °C and the
+ * share of days with measurable rain, in percent.
+ */
+export type MonthlyClimate = [number, number, number];
+
+// prettier-ignore
+export const CLIMATOLOGY: Record<string, MonthlyClimate[]> = {
+  amsterdam: [[1, 6, 55], [1, 7, 48], [3, 10, 50], [5, 14, 40], [9, 18, 42], [12, 20, 42], [14, 22, 45], [14, 22, 45], [11, 19, 48], [8, 15, 52], [5, 10, 58], [2, 7, 57]],
+  athens: [[7, 13, 35], [7, 14, 32], [9, 17, 28], [12, 21, 20], [16, 26, 13], [20, 31, 5], [23, 34, 2], [23, 33, 2], [19, 29, 8], [15, 24, 18], [11, 19, 30], [8, 15, 38]],
+  bangkok: [[22, 32, 5], [24, 33, 8], [25, 34, 10], [26, 35, 18], [26, 34, 50], [26, 33, 55], [26, 33, 58], [25, 33, 62], [25, 32, 68], [24, 32, 50], [23, 32, 20], [21, 32, 5]],
+  barcelona: [[5, 14, 15], [6, 15, 15], [8, 17, 18], [10, 19, 22], [14, 22, 22], [18, 26, 15], [21, 29, 10], [21, 29, 15], [18, 26, 18], [15, 22, 22], [10, 17, 18], [7, 14, 18]],
+  berlin: [[-2, 3, 45], [-2, 5, 40], [1, 9, 40], [4, 15, 35], [9, 20, 38], [12, 23, 38], [14, 25, 40], [14, 24, 38], [11, 19, 35], [6, 14, 38], [3, 8, 42], [0, 4, 45]],
+  'buenos aires': [[20, 30, 30], [19, 29, 28], [18, 26, 30], [14, 23, 30], [11, 19, 28], [8, 16, 28], [7, 15, 28], [8, 17, 28], [10, 19, 30], [13, 22, 35], [16, 25, 33], [18, 28, 33]],
+  cairo: [[9, 19, 3], [10, 21, 2], [12, 24, 2], [15, 28, 1], [18, 32, 0], [21, 34, 0], [22, 35, 0], [22, 35, 0], [21, 33, 0], [18, 30, 0], [14, 25, 2], [11, 21, 3]],
+  'cape town': [[16, 26, 10], [16, 27, 10], [15, 25, 15], [12, 23, 25], [10, 20, 35], [8, 18, 45], [7, 18, 45], [8, 18, 45], [10, 19, 35], [11, 21, 25], [13, 23, 18], [15, 25, 12]],
+  chicago: [[-9, -1, 35], [-7, 1, 30], [-2, 8, 38], [4, 15, 38], [10, 21, 38], [16, 27, 35], [19, 29, 32], [19, 28, 30], [14, 24, 28], [7, 17, 30], [1, 9, 33], [-5, 2, 35]],
+  dubai: [[14, 24, 5], [15, 26, 8], [18, 29, 8], [21, 33, 3], [25, 38, 0], [27, 40, 0], [29, 41, 0], [29, 41, 0], [27, 39, 0], [23, 35, 0], [19, 30, 3], [16, 26, 5]],
+  dublin: [[3, 8, 55], [3, 9, 48], [4, 11, 50], [5, 13, 45], [8, 15, 45], [10, 18, 42], [12, 20, 45], [12, 19, 48], [11, 17, 45], [8, 14, 52], [5, 10, 55], [3, 8, 55]],
+  'hong kong': [[15, 19, 18], [15, 19, 25], [18, 22, 30], [21, 26, 35], [24, 29, 45], [26, 31, 55], [26, 32, 55], [26, 31, 52], [25, 30, 45], [23, 28, 22], [19, 24, 15], [16, 20, 12]],
+  istanbul: [[3, 9, 55], [3, 10, 48], [5, 13, 40], [8, 18, 30], [13, 23, 25], [18, 27, 18], [21, 29, 10], [21, 29, 12], [17, 25, 20], [13, 20, 35], [9, 15, 45], [5, 11, 55]],
+  jerusalem: [[6, 12, 35], [7, 13, 35], [9, 17, 25], [12, 22, 12], [15, 26, 3], [18, 28, 0], [19, 29, 0], [19, 30, 0], [18, 28, 1], [16, 25, 8], [12, 19, 20], [8, 14, 32]],
+  lisbon: [[8, 15, 40], [9, 16, 38], [11, 19, 32], [12, 20, 32], [14, 23, 22], [17, 26, 8], [18, 28, 3], [19, 29, 3], [17, 27, 12], [15, 23, 30], [11, 18, 38], [9, 15, 42]],
+  london: [[3, 8, 50], [3, 9, 42], [4, 12, 42], [6, 15, 38], [9, 18, 38], [12, 21, 35], [14, 23, 35], [14, 23, 35], [12, 20, 35], [9, 16, 45], [6, 11, 48], [3, 8, 48]],
+  'los angeles': [[9, 20, 20], [10, 20, 20], [11, 21, 18], [12, 22, 10], [14, 23, 5], [16, 25, 2], [18, 28, 1], [18, 29, 1], [17, 28, 3], [15, 26, 8], [11, 23, 10], [9, 20, 18]],
+  madrid: [[3, 11, 20], [4, 13, 18], [6, 16, 18], [8, 18, 25], [12, 23, 22], [16, 29, 12], [19, 33, 5], [19, 32, 5], [16, 27, 12], [11, 20, 22], [6, 14, 22], [3, 11, 22]],
+  'mexico city': [[6, 22, 8], [7, 24, 8], [9, 26, 12], [11, 27, 25], [12, 27, 45], [13, 25, 65], [12, 23, 75], [12, 23, 75], [12, 23, 65], [10, 22, 40], [8, 22, 15], [6, 21, 8]],
+  miami: [[16, 24, 20], [17, 25, 18], [18, 26, 20], [20, 28, 20], [23, 30, 30], [25, 31, 55], [25, 32, 55], [25, 32, 60], [25, 31, 60], [23, 29, 45], [20, 27, 28], [17, 25, 22]],
+  'new york': [[-3, 4, 35], [-2, 6, 33], [2, 11, 37], [7, 17, 37], [12, 22, 37], [18, 27, 33], [21, 29, 33], [20, 28, 32], [16, 24, 28], [10, 18, 28], [5, 12, 33], [0, 6, 35]],
+  paris: [[3, 7, 45], [3, 9, 38], [5, 13, 40], [7, 16, 35], [11, 20, 38], [14, 23, 32], [16, 25, 28], [16, 25, 28], [13, 21, 30], [10, 16, 38], [6, 11, 42], [4, 8, 45]],
+  prague: [[-3, 2, 40], [-2, 4, 35], [1, 9, 38], [4, 15, 35], [9, 20, 42], [12, 23, 42], [14, 25, 42], [14, 25, 38], [10, 19, 35], [6, 14, 35], [2, 7, 40], [-1, 3, 40]],
+  reykjavik: [[-3, 2, 60], [-3, 3, 55], [-2, 3, 58], [0, 6, 50], [4, 9, 45], [7, 12, 42], [9, 14, 45], [8, 13, 48], [5, 10, 55], [2, 7, 58], [-1, 4, 58], [-3, 2, 60]],
+  'rio de janeiro': [[23, 30, 40], [23, 31, 35], [23, 30, 38], [21, 28, 32], [20, 26, 28], [18, 25, 22], [18, 25, 18], [18, 26, 18], [19, 25, 25], [20, 26, 32], [21, 28, 38], [22, 29, 42]],
+  rome: [[3, 12, 28], [4, 13, 28], [6, 16, 28], [8, 19, 28], [12, 24, 20], [16, 28, 13], [19, 31, 7], [19, 31, 10], [16, 27, 18], [12, 22, 28], [8, 17, 32], [4, 13, 32]],
+  'san francisco': [[8, 14, 35], [9, 16, 35], [10, 17, 30], [10, 18, 20], [11, 19, 10], [12, 21, 4], [13, 21, 2], [14, 22, 2], [14, 23, 5], [13, 21, 12], [10, 17, 25], [8, 14, 35]],
+  singapore: [[23, 30, 50], [24, 31, 35], [24, 32, 45], [25, 32, 50], [25, 32, 45], [25, 32, 45], [25, 31, 45], [25, 31, 48], [24, 31, 45], [24, 32, 50], [24, 31, 60], [23, 30, 60]],
+  sydney: [[19, 27, 38], [19, 27, 40], [18, 25, 42], [15, 23, 38], [12, 20, 35], [9, 17, 38], [8, 17, 32], [9, 18, 28], [11, 20, 28], [14, 22, 32], [16, 24, 35], [18, 26, 35]],
+  'tel aviv': [[10, 18, 40], [10, 19, 35], [12, 21, 25], [14, 24, 10], [18, 27, 3], [21, 29, 0], [23, 31, 0], [24, 31, 0], [22, 30, 2], [19, 28, 10], [15, 24, 25], [11, 20, 38]],
+  tokyo: [[1, 10, 15], [2, 11, 20], [5, 14, 33], [10, 19, 35], [15, 23, 37], [19, 26, 40], [23, 30, 37], [24, 31, 28], [21, 27, 40], [15, 22, 35], [9, 17, 25], [4, 12, 15]],
+  vienna: [[-2, 3, 40], [-1, 6, 38], [2, 11, 40], [6, 16, 38], [11, 21, 42], [14, 24, 42], [16, 26, 40], [16, 26, 38], [12, 21, 35], [7, 14, 35], [3, 8, 40], [0, 4, 42]],
+};
+
+export const CITY_ALIASES: Record<string, string> = {
+  nyc: 'new york',
+  'new york city': 'new york',
+  la: 'los angeles',
+  sf: 'san francisco',
+  rio: 'rio de janeiro',
+  'tel aviv-yafo': 'tel aviv',
+  wien: 'vienna',
+  praha: 'prague',
+  roma: 'rome',
+  lisboa: 'lisbon',
+};
@@ -0,0 +1,45 @@
+/**
+ * Typical daily costs used to sanity-check model estimates.
+ *
+ * Each city maps to `[lodging, food, transport, attractions]` in EUR for a
+ * mid-range trip: one night in a double room at a 3-star hotel, and meals,
+ * local transport and sights for one person for one day. Keys and aliases
+ * follow the climatology table.
+ */
+export type DailyCosts = [number, number, number, number];
+
+// prettier-ignore
+export const COST_BASELINES: Record<string, DailyCosts> = {
+  amsterdam: [190, 55, 10, 30],
+  athens: [110, 35, 6, 20],
+  bangkok: [60, 20, 6, 15],
+  barcelona: [150, 45, 9, 30],
+  berlin: [120, 40, 9, 25],
+  'buenos aires': [80, 30, 4, 15],
+  cairo: [60, 15, 5, 20],
+  'cape town': [90, 30, 12, 20],
+  chicago: [190, 60, 10, 35],
+  dubai: [160, 50, 15, 45],
+  dublin: [180, 55, 9, 25],
+  'hong kong': [150, 45, 8, 30],
+  istanbul: [90, 30, 5, 25],
+  jerusalem: [150, 45, 6, 25],
+  lisbon: [120, 35, 7, 20],
+  london: [200, 60, 14, 35],
+  'los angeles': [200, 60, 20, 40],
+  madrid: [130, 40, 8, 25],
+  'mexico city': [80, 25, 5, 15],
+  miami: [200, 60, 15, 30],
+  'new york': [260, 70, 12, 45],
+  paris: [190, 55, 10, 35],
+  prague: [100, 30, 6, 20],
+  reykjavik: [200, 70, 15, 40],
+  'rio de janeiro': [90, 30, 6, 20],
+  rome: [150, 45, 8, 30],
+  'san francisco': [230, 65, 12, 35],
+  singapore: [170, 40, 8, 35],
+  sydney: [170, 55, 12, 30],
+  'tel aviv': [190, 55, 7, 20],
+  tokyo: [140, 40, 10, 25],
+  vienna: [130, 40, 8, 25],
+};
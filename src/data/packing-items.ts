@@ -0,0 +1,81 @@
+/**
+ * What the packing list can suggest, grouped by category, and the words in
+ * a trip's description that mark it as a particular kind of trip.
+ */
+export const PACKING_CATEGORIES = [
+  'clothing',
+  'toiletries',
+  'electronics',
+  'documents',
+] as const;
+
+export type PackingCategory = (typeof PACKING_CATEGORIES)[number];
+
+/** Items in the order they are listed within their category */
+export const PACKING_ITEMS = {
+  tops: 'clothing',
+  underwear: 'clothing',
+  socks: 'clothing',
+  trousers: 'clothing',
+  shorts: 'clothing',
+  sleepwear: 'clothing',
+  sweater: 'clothing',
+  'warm-jacket': 'clothing',
+  'thermal-layers': 'clothing',
+  'winter-accessories': 'clothing',
+  'rain-jacket': 'clothing',
+  umbrella: 'clothing',
+  'waterproof-shoes': 'clothing',
+  'walking-shoes': 'clothing',
+  'hiking-boots': 'clothing',
+  swimwear: 'clothing',
+  'sun-hat': 'clothing',
+  sunglasses: 'clothing',
+  'smart-outfit': 'clothing',
+  'toiletry-kit': 'toiletries',
+  medications: 'toiletries',
+  sunscreen: 'toiletries',
+  'first-aid-kit': 'toiletries',
+  'phone-charger': 'electronics',
+  'power-adapter': 'electronics',
+  'power-bank': 'electronics',
+  laptop: 'electronics',
+  headlamp: 'electronics',
+  passport: 'documents',
+  'travel-insurance': 'documents',
+  bookings: 'documents',
+  'business-cards': 'documents',
+} as const satisfies Record<string, PackingCategory>;
+
+export type PackingItem = keyof typeof PACKING_ITEMS;
+
+export const TRIP_TYPES = [
+  'business',
+  'beach',
+  'hiking',
+  'ski',
+  'family',
+  'romantic',
+] as const;
+
+export type TripType = (typeof TRIP_TYPES)[number];
+
+/** Matched at the start of a word in the trip description, e.g. `hik` in "hiking" */
+export const TRIP_TYPE_KEYWORDS: Record<TripType, string[]> = {
+  business: ['business', 'work', 'conference', 'meeting'],
+  beach: ['beach', 'seaside', 'island', 'resort', 'swim', 'surf'],
+  hiking: ['hik', 'trek', 'outdoor', 'camping', 'mountain', 'nature'],
+  ski: ['ski', 'snowboard'],
+  family: ['family', 'kid', 'children', 'baby'],
+  romantic: ['romantic', 'honeymoon', 'anniversary', 'couple'],
+};
+
+/** Why an item is on the list, other than the kind of trip */
+export type PackingReasonKind =
+  | 'length'
+  | 'rain'
+  | 'snow'
+  | 'cold'
+  | 'cool'
+  | 'hot'
+  | 'sun';
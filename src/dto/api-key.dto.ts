@@ -0,0 +1,52 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  IsDefined,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { trim } from './trip-query.dto';
+
+const MAX_KEY_NAME_LENGTH = 100;
+
+/** Quotas left out use the configured defaults */
+export class ApiKeyQuotasDto {
+  @IsOptional()
+  @Min(1)
+  @IsInt({ message: '$property must be a whole number' })
+  requestsPerMinute?: number;
+
+  @IsOptional()
+  @Min(1)
+  @IsInt({ message: '$property must be a whole number' })
+  requestsPerDay?: number;
+
+  @IsOptional()
+  @Min(1)
+  @IsInt({ message: '$property must be a whole number' })
+  generationsPerMinute?: number;
+
+  @IsOptional()
+  @Min(1)
+  @IsInt({ message: '$property must be a whole number' })
+  generationsPerDay?: number;
+}
+
+export class IssueApiKeyDto {
+  /** Who the key is for, e.g. "mobile app" */
+  @Transform(trim)
+  @IsDefined({ message: '$property is required' })
+  @IsString()
+  @IsNotEmpty({ message: '$property is required' })
+  @MaxLength(MAX_KEY_NAME_LENGTH)
+  name: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ApiKeyQuotasDto)
+  quotas?: ApiKeyQuotasDto;
+}
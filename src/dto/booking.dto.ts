@@ -0,0 +1,60 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsDefined,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { MAX_TEXT_LENGTH, trim } from './trip-query.dto';
+import { IsIsoMoment, IsNotBefore } from '../validation/validators';
+import { BOOKING_TYPES, type BookingType } from '../services/bookings';
+
+export const MAX_BOOKINGS = 50;
+
+export class BookingDto {
+  @IsDefined({ message: '$property is required' })
+  @IsIn(BOOKING_TYPES)
+  type: BookingType;
+
+  @Transform(trim)
+  @IsDefined({ message: '$property is required' })
+  @IsString()
+  @IsNotEmpty({ message: '$property is required' })
+  @MaxLength(MAX_TEXT_LENGTH)
+  title: string;
+
+  @Transform(trim)
+  @IsOptional()
+  @IsString()
+  @MaxLength(MAX_TEXT_LENGTH)
+  city?: string;
+
+  @IsDefined({ message: '$property is required' })
+  @IsIsoMoment()
+  startsAt: string;
+
+  @IsOptional()
+  @IsIsoMoment()
+  @IsNotBefore('startsAt')
+  endsAt?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(MAX_TEXT_LENGTH)
+  reference?: string;
+}
+
+/** Body of POST /api/v1/plan/trip-plan */
+export class BookingsDto {
+  @IsDefined({ message: '$property is required' })
+  @IsArray()
+  @ArrayMaxSize(MAX_BOOKINGS)
+  @ValidateNested({ each: true })
+  @Type(() => BookingDto)
+  bookings: BookingDto[];
+}
@@ -0,0 +1,19 @@
+import { IsDefined } from 'class-validator';
+import {
+  IsIsoDate,
+  IsNotBefore,
+  MAX_TRIP_DAYS,
+  MaxDaysAfter,
+} from '../validation/validators';
+
+export class DateRangeDto {
+  @IsDefined({ message: '$property is required' })
+  @IsIsoDate()
+  startDate: string;
+
+  @IsDefined({ message: '$property is required' })
+  @IsIsoDate()
+  @IsNotBefore('startDate')
+  @MaxDaysAfter('startDate', MAX_TRIP_DAYS)
+  endDate: string;
+}
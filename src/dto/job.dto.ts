@@ -0,0 +1,54 @@
+import { Type } from 'class-transformer';
+import {
+  IsDefined,
+  IsIn,
+  IsInt,
+  IsOptional,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import {
+  CityTripQueryDto,
+  MoneySavingTipsQueryDto,
+  TripPlanQueryDto,
+} from './trip-query.dto';
+import { LLM_PRIORITIES, type LlmPriority } from '../services/llm-queue';
+
+const MAX_JOB_TIMEOUT_MS = 30 * 60 * 1000;
+
+class JobDto {
+  /** `prefetch` jobs only get the model when no interactive call is waiting */
+  @IsOptional()
+  @IsIn(LLM_PRIORITIES)
+  priority: LlmPriority = 'interactive';
+
+  /** Overrides the configured time limit, waiting in the queue included */
+  @IsOptional()
+  @Min(1)
+  @Max(MAX_JOB_TIMEOUT_MS)
+  @IsInt({ message: '$property must be a whole number' })
+  timeoutMs?: number;
+}
+
+/** Body of POST /api/v1/jobs/weather: the GET parameters under `params` */
+export class WeatherJobDto extends JobDto {
+  @IsDefined({ message: '$property is required' })
+  @ValidateNested()
+  @Type(() => CityTripQueryDto)
+  params: CityTripQueryDto;
+}
+
+export class TripPlanJobDto extends JobDto {
+  @IsDefined({ message: '$property is required' })
+  @ValidateNested()
+  @Type(() => TripPlanQueryDto)
+  params: TripPlanQueryDto;
+}
+
+export class MoneySavingTipsJobDto extends JobDto {
+  @IsDefined({ message: '$property is required' })
+  @ValidateNested()
+  @Type(() => MoneySavingTipsQueryDto)
+  params: MoneySavingTipsQueryDto;
+}
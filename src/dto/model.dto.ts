@@ -0,0 +1,27 @@
+import {
+  IsDefined,
+  IsNotEmpty,
+  IsString,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+
+const MAX_MODEL_NAME_LENGTH = 200;
+
+export class ModelNameDto {
+  @IsDefined({ message: '$property is required' })
+  @IsString()
+  @IsNotEmpty({ message: '$property is required' })
+  @MaxLength(MAX_MODEL_NAME_LENGTH)
+  model: string;
+}
+
+export class FeatureModelDto {
+  /** null makes the feature follow the current model again */
+  @ValidateIf((body: FeatureModelDto) => body.model !== null)
+  @IsDefined({ message: '$property must be a model name or null' })
+  @IsString()
+  @IsNotEmpty({ message: '$property must be a model name or null' })
+  @MaxLength(MAX_MODEL_NAME_LENGTH)
+  model: string | null;
+}
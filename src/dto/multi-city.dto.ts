@@ -0,0 +1,124 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsDefined,
+  IsIn,
+  IsLocale,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import {
+  CACHE_QUERY_VALUES,
+  MAX_TEXT_LENGTH,
+  PROMPT_VERSION_PATTERN,
+  trim,
+} from './trip-query.dto';
+import { BookingDto, MAX_BOOKINGS } from './booking.dto';
+import {
+  IsIsoDate,
+  IsNotBefore,
+  IsSupportedLocale,
+  MAX_CITIES,
+  MAX_TRIP_DAYS,
+  MaxDaysAfter,
+  StaysFit,
+} from '../validation/validators';
+
+const hasDates = (stay: StayDto) =>
+  stay.startDate !== undefined || stay.endDate !== undefined;
+
+/** One city of a multi-city trip, optionally with its own dates */
+export class StayDto {
+  @Transform(trim)
+  @IsDefined({ message: '$property is required' })
+  @IsString()
+  @IsNotEmpty({ message: '$property is required' })
+  @MaxLength(MAX_TEXT_LENGTH)
+  name: string;
+
+  @ValidateIf(hasDates)
+  @IsDefined({ message: '$property is required with endDate' })
+  @IsIsoDate()
+  startDate?: string;
+
+  @ValidateIf(hasDates)
+  @IsDefined({ message: '$property is required with startDate' })
+  @IsIsoDate()
+  @IsNotBefore('startDate')
+  endDate?: string;
+}
+
+/** The trip's dates are only needed when the cities do not bring their own */
+const needsTripDates = (body: MultiCityPlanDto) =>
+  !Array.isArray(body.cities) ||
+  !body.cities.some((stay) => stay && hasDates(stay));
+
+/** Body of POST /api/v1/plan/multi-city */
+export class MultiCityPlanDto {
+  /** Free-text description of the trip, e.g. "family vacation" */
+  @Transform(trim)
+  @IsDefined({ message: '$property is required' })
+  @IsString()
+  @IsNotEmpty({ message: '$property is required' })
+  @MaxLength(MAX_TEXT_LENGTH)
+  trip: string;
+
+  @ValidateIf(needsTripDates)
+  @IsDefined({ message: '$property is required' })
+  @IsIsoDate()
+  startDate?: string;
+
+  @ValidateIf(needsTripDates)
+  @IsDefined({ message: '$property is required' })
+  @IsIsoDate()
+  @IsNotBefore('startDate')
+  @MaxDaysAfter('startDate', MAX_TRIP_DAYS)
+  endDate?: string;
+
+  /** In travel order; without dates the trip's nights are split evenly */
+  @IsDefined({ message: '$property is required' })
+  @IsArray()
+  @ArrayMinSize(2, { message: 'At least two cities must be provided' })
+  @ArrayMaxSize(MAX_CITIES, {
+    message: `At most ${MAX_CITIES} cities can be planned at once`,
+  })
+  @StaysFit(MAX_TRIP_DAYS)
+  @ValidateNested({ each: true })
+  @Type(() => StayDto)
+  cities: StayDto[];
+
+  @IsOptional()
+  @IsBoolean({ message: '$property must be true or false' })
+  weatherAware?: boolean;
+
+  @IsOptional()
+  @IsIn(CACHE_QUERY_VALUES)
+  cache?: string;
+
+  @IsOptional()
+  @IsString()
+  @Matches(PROMPT_VERSION_PATTERN, {
+    message: '$property must be a version name',
+  })
+  promptVersion?: string;
+
+  @IsOptional()
+  @IsSupportedLocale()
+  @IsLocale({ message: '$property must be a locale tag, e.g. en or he-IL' })
+  locale?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_BOOKINGS)
+  @ValidateNested({ each: true })
+  @Type(() => BookingDto)
+  bookings?: BookingDto[];
+}
@@ -0,0 +1,35 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsDefined,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { TripPlanQueryDto, trim } from './trip-query.dto';
+import { BookingDto, MAX_BOOKINGS } from './booking.dto';
+
+const MAX_INSTRUCTION_LENGTH = 500;
+
+/** Body of POST /api/v1/plan/sessions: the trip-plan parameters plus bookings */
+export class PlanSessionDto extends TripPlanQueryDto {
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_BOOKINGS)
+  @ValidateNested({ each: true })
+  @Type(() => BookingDto)
+  bookings?: BookingDto[];
+}
+
+/** A follow-up instruction, e.g. "less walking on day 2" */
+export class PlanMessageDto {
+  @Transform(trim)
+  @IsDefined({ message: '$property is required' })
+  @IsString()
+  @IsNotEmpty({ message: '$property is required' })
+  @MaxLength(MAX_INSTRUCTION_LENGTH)
+  message: string;
+}
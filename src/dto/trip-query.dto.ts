@@ -0,0 +1,206 @@
+import { Transform } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsDefined,
+  IsIn,
+  IsInt,
+  IsLocale,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { DateRangeDto } from './date-range.dto';
+import { IsSupportedLocale, MAX_CITIES } from '../validation/validators';
+import {
+  TIP_CATEGORIES,
+  type TipCategory,
+} from '../schemas/money-saving-tips.schema';
+import { BUDGET_TIERS, type BudgetTier } from '../schemas/budget.schema';
+
+export const MAX_TEXT_LENGTH = 200;
+
+export const MAX_TRAVELERS = 20;
+
+export const trim = ({ value }: { value: unknown }): unknown =>
+  typeof value === 'string' ? value.trim() : value;
+
+/** Query strings carry lists as comma-separated text, e.g. `Paris,Rome` */
+export const toList = ({ value }: { value: unknown }): unknown =>
+  typeof value === 'string'
+    ? value
+        .split(',')
+        .map((item) => item.trim())
+        .filter((item) => item.length > 0)
+    : value;
+
+/** Query strings carry numbers as text; anything else is left for the validators */
+export const toNumber = ({ value }: { value: unknown }): unknown =>
+  typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))
+    ? Number(value)
+    : value;
+
+/** Query strings carry booleans as text */
+export const toBoolean = ({ value }: { value: unknown }): unknown =>
+  value === 'true' ? true : value === 'false' ? false : value;
+
+export const PROMPT_VERSION_PATTERN = /^[\w.-]{1,50}$/;
+
+/** Query parameter that lets a client skip the response cache */
+export const CACHE_QUERY_VALUES = ['no-cache', 'no-store'];
+
+class PromptQueryDto extends DateRangeDto {
+  @IsOptional()
+  @IsIn(CACHE_QUERY_VALUES)
+  cache?: string;
+
+  /** Prompt template version to use instead of the rollout's pick, e.g. `v3` */
+  @IsOptional()
+  @IsString()
+  @Matches(PROMPT_VERSION_PATTERN, {
+    message: '$property must be a version name',
+  })
+  promptVersion?: string;
+}
+
+class GenerationQueryDto extends PromptQueryDto {
+  /** Language of the generated text and fallbacks, e.g. `he` or `fr-CA` */
+  @IsOptional()
+  @IsSupportedLocale()
+  @IsLocale({ message: '$property must be a locale tag, e.g. en or he-IL' })
+  locale?: string;
+}
+
+export class CityTripQueryDto extends GenerationQueryDto {
+  @Transform(trim)
+  @IsDefined({ message: '$property is required' })
+  @IsString()
+  @IsNotEmpty({ message: '$property is required' })
+  @MaxLength(MAX_TEXT_LENGTH)
+  city: string;
+
+  /** Free-text description of the trip, e.g. "family vacation" */
+  @Transform(trim)
+  @IsDefined({ message: '$property is required' })
+  @IsString()
+  @IsNotEmpty({ message: '$property is required' })
+  @MaxLength(MAX_TEXT_LENGTH)
+  trip: string;
+}
+
+export class TripPlanQueryDto extends CityTripQueryDto {
+  @Transform(toBoolean)
+  @IsOptional()
+  @IsBoolean({ message: '$property must be true or false' })
+  weatherAware?: boolean;
+}
+
+export class MoneySavingTipsQueryDto extends GenerationQueryDto {
+  /** Comma-separated in the query string, e.g. `Paris,Rome` */
+  @Transform(toList)
+  @IsDefined({ message: '$property is required (comma-separated list)' })
+  @IsArray()
+  @ArrayMinSize(1, { message: 'At least one city must be provided' })
+  @ArrayMaxSize(MAX_CITIES, {
+    message: `At most ${MAX_CITIES} cities can be planned at once`,
+  })
+  @IsString({ each: true })
+  @MaxLength(MAX_TEXT_LENGTH, { each: true })
+  cities: string[];
+
+  @Transform(trim)
+  @IsDefined({ message: '$property is required' })
+  @IsString()
+  @IsNotEmpty({ message: '$property is required' })
+  @MaxLength(MAX_TEXT_LENGTH)
+  tripName: string;
+
+  /** Only tips in these categories, e.g. `food,passes` */
+  @Transform(toList)
+  @IsOptional()
+  @IsArray()
+  @IsIn(TIP_CATEGORIES, { each: true })
+  category?: TipCategory[];
+
+  /** Only tips for these cities, plus the ones for the whole trip */
+  @Transform(toList)
+  @IsOptional()
+  @IsArray()
+  @MaxLength(MAX_TEXT_LENGTH, { each: true })
+  city?: string[];
+}
+
+export class BudgetQueryDto extends PromptQueryDto {
+  /** Comma-separated in the query string, e.g. `Paris,Rome` */
+  @Transform(toList)
+  @IsDefined({ message: '$property is required (comma-separated list)' })
+  @IsArray()
+  @ArrayMinSize(1, { message: 'At least one city must be provided' })
+  @ArrayMaxSize(MAX_CITIES, {
+    message: `At most ${MAX_CITIES} cities can be planned at once`,
+  })
+  @IsString({ each: true })
+  @MaxLength(MAX_TEXT_LENGTH, { each: true })
+  cities: string[];
+
+  @IsOptional()
+  @IsIn(BUDGET_TIERS)
+  tier: BudgetTier = 'mid';
+
+  @Transform(toNumber)
+  @IsOptional()
+  @Min(1)
+  @Max(MAX_TRAVELERS)
+  @IsInt({ message: '$property must be a whole number' })
+  travelers = 1;
+
+  /** ISO 4217 code to give the amounts in, e.g. `USD`; defaults to the rate table's base */
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.trim().toUpperCase() : value,
+  )
+  @IsOptional()
+  @Matches(/^[A-Z]{3}$/, {
+    message: '$property must be a currency code, e.g. USD',
+  })
+  currency?: string;
+}
+
+/**
+ * The dashboard generates with each feature's own prompt rollout, so it
+ * takes no `promptVersion`.
+ */
+export class DashboardQueryDto extends DateRangeDto {
+  @Transform(trim)
+  @IsDefined({ message: '$property is required' })
+  @IsString()
+  @IsNotEmpty({ message: '$property is required' })
+  @MaxLength(MAX_TEXT_LENGTH)
+  city: string;
+
+  @Transform(trim)
+  @IsDefined({ message: '$property is required' })
+  @IsString()
+  @IsNotEmpty({ message: '$property is required' })
+  @MaxLength(MAX_TEXT_LENGTH)
+  trip: string;
+
+  @Transform(toBoolean)
+  @IsOptional()
+  @IsBoolean({ message: '$property must be true or false' })
+  weatherAware?: boolean;
+
+  @IsOptional()
+  @IsIn(CACHE_QUERY_VALUES)
+  cache?: string;
+
+  @IsOptional()
+  @IsSupportedLocale()
+  @IsLocale({ message: '$property must be a locale tag, e.g. en or he-IL' })
+  locale?: string;
+}
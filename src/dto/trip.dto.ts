@@ -0,0 +1,147 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsDefined,
+  IsIn,
+  IsInt,
+  IsLocale,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { DateRangeDto } from './date-range.dto';
+import {
+  CACHE_QUERY_VALUES,
+  MAX_TEXT_LENGTH,
+  MAX_TRAVELERS,
+  PROMPT_VERSION_PATTERN,
+  toBoolean,
+  toList,
+  trim,
+} from './trip-query.dto';
+import { IsSupportedLocale, MAX_CITIES } from '../validation/validators';
+import { BookingDto, MAX_BOOKINGS } from './booking.dto';
+import {
+  TIP_CATEGORIES,
+  type TipCategory,
+} from '../schemas/money-saving-tips.schema';
+
+export class TripCityDto extends DateRangeDto {
+  @Transform(trim)
+  @IsDefined({ message: '$property is required' })
+  @IsString()
+  @IsNotEmpty({ message: '$property is required' })
+  @MaxLength(MAX_TEXT_LENGTH)
+  name: string;
+}
+
+export class TravelersDto {
+  @IsDefined({ message: '$property is required' })
+  @Min(1)
+  @Max(MAX_TRAVELERS)
+  @IsInt()
+  adults: number;
+
+  @IsOptional()
+  @Min(0)
+  @Max(MAX_TRAVELERS)
+  @IsInt()
+  children = 0;
+}
+
+/** Body of POST /api/v1/trips and PUT /api/v1/trips/:id */
+export class TripDto {
+  @Transform(trim)
+  @IsDefined({ message: '$property is required' })
+  @IsString()
+  @IsNotEmpty({ message: '$property is required' })
+  @MaxLength(MAX_TEXT_LENGTH)
+  name: string;
+
+  /** Free-text description of the trip, e.g. "family vacation" */
+  @Transform(trim)
+  @IsDefined({ message: '$property is required' })
+  @IsString()
+  @IsNotEmpty({ message: '$property is required' })
+  @MaxLength(MAX_TEXT_LENGTH)
+  description: string;
+
+  @IsDefined({ message: '$property is required' })
+  @IsArray()
+  @ArrayMinSize(1, { message: 'At least one city must be provided' })
+  @ArrayMaxSize(MAX_CITIES, {
+    message: `At most ${MAX_CITIES} cities can be planned at once`,
+  })
+  @ValidateNested({ each: true })
+  @Type(() => TripCityDto)
+  cities: TripCityDto[];
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TravelersDto)
+  travelers?: TravelersDto;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_BOOKINGS)
+  @ValidateNested({ each: true })
+  @Type(() => BookingDto)
+  bookings?: BookingDto[];
+}
+
+/** Query of the nested generation routes, the trip supplies cities and dates */
+export class TripGenerationQueryDto {
+  @IsOptional()
+  @IsIn(CACHE_QUERY_VALUES)
+  cache?: string;
+
+  @IsOptional()
+  @IsString()
+  @Matches(PROMPT_VERSION_PATTERN, {
+    message: '$property must be a version name',
+  })
+  promptVersion?: string;
+
+  @IsOptional()
+  @IsSupportedLocale()
+  @IsLocale({ message: '$property must be a locale tag, e.g. en or he-IL' })
+  locale?: string;
+
+  /** Generate again instead of returning the saved result */
+  @Transform(toBoolean)
+  @IsOptional()
+  @IsBoolean({ message: '$property must be true or false' })
+  refresh?: boolean;
+}
+
+export class TripPlanGenerationQueryDto extends TripGenerationQueryDto {
+  @Transform(toBoolean)
+  @IsOptional()
+  @IsBoolean({ message: '$property must be true or false' })
+  weatherAware?: boolean;
+}
+
+/** Query of GET /api/v1/trips/:id/tips: the generation options plus filters */
+export class TripTipsQueryDto extends TripGenerationQueryDto {
+  /** Only tips in these categories, e.g. `food,passes` */
+  @Transform(toList)
+  @IsOptional()
+  @IsArray()
+  @IsIn(TIP_CATEGORIES, { each: true })
+  category?: TipCategory[];
+
+  /** Only tips for these cities, plus the ones for the whole trip */
+  @Transform(toList)
+  @IsOptional()
+  @IsArray()
+  @MaxLength(MAX_TEXT_LENGTH, { each: true })
+  city?: string[];
+}
@@ -0,0 +1,59 @@
+/** Languages told apart by their script alone */
+const SCRIPTS: [string, RegExp][] = [
+  ['he', /\p{Script=Hebrew}/u],
+  ['ar', /\p{Script=Arabic}/u],
+  ['ru', /\p{Script=Cyrillic}/u],
+  ['el', /\p{Script=Greek}/u],
+  ['ja', /[\p{Script=Hiragana}\p{Script=Katakana}]/u],
+  ['ko', /\p{Script=Hangul}/u],
+  ['zh', /\p{Script=Han}/u],
+];
+
+/** Frequent short words, enough to tell Latin-script languages apart */
+const STOPWORDS: Record<string, string> = {
+  en: 'the and of to is with for you your are on at this be',
+  es: 'el los las y con para que es del por una muy más',
+  fr: 'le les des et du pour avec est une vous dans sur au',
+  de: 'der die das und mit für ist ein eine den dem von zu im sie',
+  it: 'il gli di e per che è della nel sono anche',
+  pt: 'os e em com para que é do da um uma não',
+};
+
+const LETTER = /\p{Letter}/u;
+const LATIN = /\p{Script=Latin}/u;
+
+/**
+ * Guesses the language of generated text: by script for non-Latin
+ * alphabets, by counting common words for Latin ones. Returns an ISO 639-1
+ * code, or null when the text has too few clues (e.g. only city names).
+ */
+export function detectLanguage(text: string): string | null {
+  const letters = [...text].filter((char) => LETTER.test(char));
+  if (letters.length === 0) {
+    return null;
+  }
+
+  const counts = new Map<string, number>();
+  letters.forEach((char) => {
+    const script = LATIN.test(char)
+      ? 'latin'
+      : SCRIPTS.find(([, pattern]) => pattern.test(char))?.[0];
+    if (script) {
+      counts.set(script, (counts.get(script) ?? 0) + 1);
+    }
+  });
+  const [dominant] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0] ?? [];
+  if (dominant !== 'latin') {
+    return dominant ?? null;
+  }
+
+  const words = text.toLowerCase().match(/\p{Letter}+/gu) ?? [];
+  const scores = Object.entries(STOPWORDS).map(
+    ([language, stopwords]): [string, number] => {
+      const known = new Set(stopwords.split(' '));
+      return [language, words.filter((word) => known.has(word)).length];
+    },
+  );
+  const [best, score] = scores.sort((a, b) => b[1] - a[1])[0];
+  return score > 0 ? best : null;
+}
@@ -0,0 +1,45 @@
+import { describeLanguage, isSupportedLocale, resolveLocale } from './locale';
+import { detectLanguage } from './language-detector';
+
+describe('locale', () => {
+  it('should resolve regional tags to a supported language', () => {
+    expect(resolveLocale('he-il')).toEqual({
+      tag: 'he-IL',
+      language: 'he',
+      languageName: 'Hebrew',
+      direction: 'rtl',
+    });
+    expect(resolveLocale()).toMatchObject({ tag: 'en', direction: 'ltr' });
+  });
+
+  it('should fall back to English for unsupported or malformed tags', () => {
+    expect(isSupportedLocale('ja')).toBe(false);
+    expect(isSupportedLocale('not a locale')).toBe(false);
+    expect(resolveLocale('ja').language).toBe('en');
+  });
+
+  it('should detect the language of generated text', () => {
+    expect(detectLanguage('מזג האוויר בפריז צפוי להיות נעים')).toBe('he');
+    expect(detectLanguage('يتوقع أن يكون الطقس في باريس لطيفاً')).toBe('ar');
+    expect(
+      detectLanguage('Le temps à Paris devrait être agréable avec du soleil'),
+    ).toBe('fr');
+    expect(
+      detectLanguage('Expect sunny days in Paris with a light breeze'),
+    ).toBe('en');
+    expect(detectLanguage('Paris 25°C')).toBeNull();
+  });
+
+  it('should take the direction from the language actually written', () => {
+    const hebrew = resolveLocale('he');
+
+    expect(describeLanguage(hebrew, 'שמש בהירה בכל השבוע')).toEqual({
+      locale: 'he',
+      direction: 'rtl',
+      detected: 'he',
+    });
+    expect(
+      describeLanguage(hebrew, 'The model answered in English anyway'),
+    ).toEqual({ locale: 'he', direction: 'ltr', detected: 'en' });
+  });
+});
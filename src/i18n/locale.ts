@@ -0,0 +1,98 @@
+import { detectLanguage } from './language-detector';
+
+export const SUPPORTED_LANGUAGES = [
+  'en',
+  'he',
+  'ar',
+  'es',
+  'fr',
+  'de',
+] as const;
+
+export type SupportedLanguage = (typeof SUPPORTED_LANGUAGES)[number];
+
+export type TextDirection = 'ltr' | 'rtl';
+
+export const DEFAULT_LOCALE = 'en';
+
+/** English names, used to tell the model which language to write in */
+const LANGUAGE_NAMES: Record<SupportedLanguage, string> = {
+  en: 'English',
+  he: 'Hebrew',
+  ar: 'Arabic',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+};
+
+const RTL_LANGUAGES = new Set(['he', 'ar', 'fa', 'ur', 'yi']);
+
+export interface LocaleOptions {
+  /** BCP 47 tag of the output language, e.g. `he` or `he-IL` */
+  locale?: string;
+}
+
+export interface Locale {
+  /** Canonical tag, e.g. `he-IL` */
+  tag: string;
+  language: SupportedLanguage;
+  languageName: string;
+  direction: TextDirection;
+}
+
+/** Language information returned with every generated response */
+export interface LanguageInfo {
+  locale: string;
+  direction: TextDirection;
+  /** Language found in the generated text, null when it cannot be told */
+  detected: string | null;
+}
+
+function toLanguage(tag: string): string | null {
+  try {
+    const [canonical] = Intl.getCanonicalLocales(tag);
+    return new Intl.Locale(canonical).language;
+  } catch {
+    return null;
+  }
+}
+
+export function isSupportedLocale(tag: string): boolean {
+  const language = toLanguage(tag);
+  return (SUPPORTED_LANGUAGES as readonly string[]).includes(language);
+}
+
+export function getTextDirection(language: string): TextDirection {
+  return RTL_LANGUAGES.has(language) ? 'rtl' : 'ltr';
+}
+
+/** Resolves a requested tag, falling back to English when it is unsupported */
+export function resolveLocale(tag: string = DEFAULT_LOCALE): Locale {
+  const supported = isSupportedLocale(tag) ? tag : DEFAULT_LOCALE;
+  const [canonical] = Intl.getCanonicalLocales(supported);
+  const language = toLanguage(canonical) as SupportedLanguage;
+
+  return {
+    tag: canonical,
+    language,
+    languageName: LANGUAGE_NAMES[language],
+    direction: getTextDirection(language),
+  };
+}
+
+/**
+ * Describes the language of a response from its text. The direction follows
+ * the detected language, so an answer the model wrote in English despite a
+ * Hebrew request is still rendered left to right.
+ */
+export function describeLanguage(
+  locale: Locale,
+  ...texts: string[]
+): LanguageInfo {
+  const detected = detectLanguage(texts.join('\n'));
+  return {
+    locale: locale.tag,
+    direction: getTextDirection(detected ?? locale.language),
+    detected,
+  };
+}
@@ -0,0 +1,770 @@
+import { SupportedLanguage } from './locale';
+import type { TipCategory } from '../schemas/money-saving-tips.schema';
+import type {
+  PackingCategory,
+  PackingItem,
+  PackingReasonKind,
+  TripType,
+} from '../data/packing-items';
+
+interface ForecastValues {
+  icon: string;
+  city: string;
+  condition: string;
+}
+
+interface RangeValues extends ForecastValues {
+  min: number;
+  max: number;
+}
+
+interface TemperatureValues extends ForecastValues {
+  temperature: number;
+}
+
+/** Texts the app writes itself, when the model's answer is missing or unusable */
+export interface Messages {
+  conditions: Record<string, string>;
+  defaultCondition: string;
+  weather: {
+    rangeForecast: (values: RangeValues) => string;
+    rangeSummary: (values: RangeValues & { rainyDays: number }) => string;
+    forecast: (values: TemperatureValues) => string;
+    summary: (values: TemperatureValues) => string;
+    unknownCondition: string;
+    unavailable: string;
+  };
+  tripPlan: {
+    title: (city: string) => string;
+    description: (city: string) => string;
+    activities: (city: string) => string;
+    summary: (city: string) => string;
+    unavailableTitle: string;
+    unavailableFor: (city: string) => string;
+    unavailable: string;
+  };
+  moneySavingTips: {
+    /** One general tip per category, used when the model gives none */
+    fallback: Record<TipCategory, string>;
+  };
+  transfers: {
+    unavailable: (from: string, to: string) => string;
+  };
+  packingList: {
+    categories: Record<PackingCategory, string>;
+    items: Record<PackingItem, string>;
+    /** Also used as the reason for items a kind of trip calls for */
+    tripTypes: Record<TripType, string>;
+    /** Why an item is on the list, given the number of days that call for it */
+    reasons: Record<PackingReasonKind, (days: number) => string>;
+  };
+}
+
+export const MESSAGES: Record<SupportedLanguage, Messages> = {
+  en: {
+    conditions: {
+      sunny: 'Bright sunshine',
+      clear: 'Clear skies',
+      'partly-cloudy': 'Partly cloudy',
+      cloudy: 'Cloudy',
+      overcast: 'Overcast',
+      rainy: 'Rainy',
+      rain: 'Rain',
+      stormy: 'Stormy',
+      snow: 'Snowy',
+      fog: 'Foggy',
+      windy: 'Windy',
+    },
+    defaultCondition: 'Pleasant weather',
+    weather: {
+      rangeForecast: ({ icon, city, condition, min, max }) =>
+        `${icon} Forecast for ${city}: ${condition}, ${min}–${max}°C`,
+      rangeSummary: ({ city, min, max, rainyDays }) =>
+        `Expect temperatures between ${min}°C and ${max}°C in ${city}, with ${rainyDays} day(s) where rain is likely.`,
+      forecast: ({ icon, city, condition, temperature }) =>
+        `${icon} Forecast for ${city}: ${condition}, temperature ${temperature}°C`,
+      summary: ({ city, condition, temperature }) =>
+        `The weather in ${city} is expected to be ${condition} with a temperature of ${temperature}°C.`,
+      unknownCondition: 'Unknown',
+      unavailable: 'Unable to load weather forecast at this time',
+    },
+    tripPlan: {
+      title: (city) => `Trip to ${city}`,
+      description: (city) =>
+        `Discover the best of ${city} with our curated itinerary.`,
+      activities: (city) =>
+        `Explore ${city}, visit local attractions, and try local cuisine.`,
+      summary: (city) =>
+        `Discover the best of ${city} with our curated recommendations for activities, attractions, and dining experiences.`,
+      unavailableTitle: 'Trip Planning',
+      unavailableFor: (city) =>
+        `Unable to load trip planning suggestions for ${city} at this time`,
+      unavailable: 'Unable to load trip planning suggestions at this time',
+    },
+    moneySavingTips: {
+      fallback: {
+        transport:
+          'Use public transport or walk instead of taxis, and look for day or multi-day travel cards.',
+        attractions:
+          'Buy attraction tickets online in advance and check for free-entry days and combo tickets.',
+        food: 'Eat your main meal at lunch, when set menus are cheaper, and avoid restaurants next to major sights.',
+        lodging:
+          'Compare prices across booking sites and consider staying a little outside the center near good transport.',
+        passes:
+          'Check whether a city pass covers the sights you plan to see before buying single tickets.',
+      },
+    },
+    transfers: {
+      unavailable: (from, to) =>
+        `Check the train, bus and flight options from ${from} to ${to}.`,
+    },
+    packingList: {
+      categories: {
+        clothing: 'Clothing',
+        toiletries: 'Toiletries',
+        electronics: 'Electronics',
+        documents: 'Documents',
+      },
+      items: {
+        tops: 'T-shirts and tops',
+        underwear: 'Underwear',
+        socks: 'Socks',
+        trousers: 'Trousers',
+        shorts: 'Shorts',
+        sleepwear: 'Sleepwear',
+        sweater: 'Sweater or fleece',
+        'warm-jacket': 'Warm jacket',
+        'thermal-layers': 'Thermal layers',
+        'winter-accessories': 'Hat, gloves and scarf',
+        'rain-jacket': 'Rain jacket',
+        umbrella: 'Umbrella',
+        'waterproof-shoes': 'Waterproof shoes',
+        'walking-shoes': 'Comfortable walking shoes',
+        'hiking-boots': 'Hiking boots',
+        swimwear: 'Swimwear',
+        'sun-hat': 'Sun hat',
+        sunglasses: 'Sunglasses',
+        'smart-outfit': 'Smart outfit',
+        'toiletry-kit': 'Toothbrush, toothpaste and toiletries',
+        medications: 'Personal medications',
+        sunscreen: 'Sunscreen',
+        'first-aid-kit': 'First-aid kit',
+        'phone-charger': 'Phone charger',
+        'power-adapter': 'Power adapter',
+        'power-bank': 'Power bank',
+        laptop: 'Laptop and charger',
+        headlamp: 'Headlamp',
+        passport: 'Passport or ID',
+        'travel-insurance': 'Travel insurance details',
+        bookings: 'Tickets and booking confirmations',
+        'business-cards': 'Business cards',
+      },
+      tripTypes: {
+        business: 'business trip',
+        beach: 'beach trip',
+        hiking: 'hiking trip',
+        ski: 'ski trip',
+        family: 'family trip',
+        romantic: 'romantic trip',
+      },
+      reasons: {
+        length: (days) => `${days}-day trip`,
+        rain: (days) => `${days} rainy day(s)`,
+        snow: (days) => `${days} snowy day(s)`,
+        cold: (days) => `${days} cold day(s)`,
+        cool: (days) => `${days} cool day(s)`,
+        hot: (days) => `${days} hot day(s)`,
+        sun: (days) => `${days} sunny day(s)`,
+      },
+    },
+  },
+  he: {
+    conditions: {
+      sunny: 'שמש בהירה',
+      clear: 'שמיים בהירים',
+      'partly-cloudy': 'מעונן חלקית',
+      cloudy: 'מעונן',
+      overcast: 'מעונן לחלוטין',
+      rainy: 'גשום',
+      rain: 'גשם',
+      stormy: 'סוער',
+      snow: 'מושלג',
+      fog: 'ערפילי',
+      windy: 'סוער ורוחות',
+    },
+    defaultCondition: 'מזג אוויר נעים',
+    weather: {
+      rangeForecast: ({ icon, city, condition, min, max }) =>
+        `${icon} תחזית עבור ${city}: ${condition}, ${min}–${max}°C`,
+      rangeSummary: ({ city, min, max, rainyDays }) =>
+        `צפויות טמפרטורות בין ${min}°C ל-${max}°C ב${city}, עם ${rainyDays} ימים שבהם צפוי גשם.`,
+      forecast: ({ icon, city, condition, temperature }) =>
+        `${icon} תחזית עבור ${city}: ${condition}, טמפרטורה ${temperature}°C`,
+      summary: ({ city, condition, temperature }) =>
+        `מזג האוויר ב${city} צפוי להיות ${condition} עם טמפרטורה של ${temperature}°C.`,
+      unknownCondition: 'לא ידוע',
+      unavailable: 'לא ניתן לטעון את תחזית מזג האוויר כרגע',
+    },
+    tripPlan: {
+      title: (city) => `טיול ל${city}`,
+      description: (city) => `גלו את המיטב של ${city} עם מסלול שנבחר בקפידה.`,
+      activities: (city) =>
+        `טיילו ב${city}, בקרו באטרקציות המקומיות ונסו את המטבח המקומי.`,
+      summary: (city) =>
+        `גלו את המיטב של ${city} עם המלצות נבחרות לפעילויות, אטרקציות ומסעדות.`,
+      unavailableTitle: 'תכנון טיול',
+      unavailableFor: (city) => `לא ניתן לטעון הצעות לטיול ב${city} כרגע`,
+      unavailable: 'לא ניתן לטעון הצעות לתכנון הטיול כרגע',
+    },
+    moneySavingTips: {
+      fallback: {
+        transport:
+          'כדאי להשתמש בתחבורה ציבורית או ללכת ברגל במקום מוניות, ולחפש כרטיסי נסיעה יומיים או רב-יומיים.',
+        attractions:
+          'כדאי לקנות כרטיסים לאטרקציות באינטרנט מראש ולבדוק ימי כניסה חינם וכרטיסים משולבים.',
+        food: 'כדאי לאכול את הארוחה העיקרית בצהריים, כשתפריטים עסקיים זולים יותר, ולהימנע ממסעדות ליד אתרים מרכזיים.',
+        lodging:
+          'כדאי להשוות מחירים בין אתרי הזמנות ולשקול לינה מעט מחוץ למרכז, ליד תחבורה טובה.',
+        passes:
+          'כדאי לבדוק אם כרטיס עיר מכסה את האתרים שמתוכננים לפני קניית כרטיסים בודדים.',
+      },
+    },
+    transfers: {
+      unavailable: (from, to) =>
+        `כדאי לבדוק אפשרויות רכבת, אוטובוס וטיסה מ${from} ל${to}.`,
+    },
+    packingList: {
+      categories: {
+        clothing: 'ביגוד',
+        toiletries: 'טואלטיקה',
+        electronics: 'אלקטרוניקה',
+        documents: 'מסמכים',
+      },
+      items: {
+        tops: 'חולצות',
+        underwear: 'תחתונים',
+        socks: 'גרביים',
+        trousers: 'מכנסיים ארוכים',
+        shorts: 'מכנסיים קצרים',
+        sleepwear: 'בגדי שינה',
+        sweater: 'סוודר או פליז',
+        'warm-jacket': 'מעיל חם',
+        'thermal-layers': 'ביגוד תרמי',
+        'winter-accessories': 'כובע, כפפות וצעיף',
+        'rain-jacket': 'מעיל גשם',
+        umbrella: 'מטרייה',
+        'waterproof-shoes': 'נעליים עמידות למים',
+        'walking-shoes': 'נעלי הליכה נוחות',
+        'hiking-boots': 'נעלי טיולים',
+        swimwear: 'בגד ים',
+        'sun-hat': 'כובע שמש',
+        sunglasses: 'משקפי שמש',
+        'smart-outfit': 'תלבושת אלגנטית',
+        'toiletry-kit': 'מברשת שיניים, משחת שיניים וטואלטיקה',
+        medications: 'תרופות אישיות',
+        sunscreen: 'קרם הגנה',
+        'first-aid-kit': 'ערכת עזרה ראשונה',
+        'phone-charger': 'מטען לטלפון',
+        'power-adapter': 'מתאם חשמל',
+        'power-bank': 'סוללה ניידת',
+        laptop: 'מחשב נייד ומטען',
+        headlamp: 'פנס ראש',
+        passport: 'דרכון או תעודה מזהה',
+        'travel-insurance': 'פרטי ביטוח נסיעות',
+        bookings: 'כרטיסים ואישורי הזמנה',
+        'business-cards': 'כרטיסי ביקור',
+      },
+      tripTypes: {
+        business: 'נסיעת עסקים',
+        beach: 'חופשת חוף',
+        hiking: 'טיול רגלי',
+        ski: 'חופשת סקי',
+        family: 'טיול משפחתי',
+        romantic: 'חופשה רומנטית',
+      },
+      reasons: {
+        length: (days) => `טיול של ${days} ימים`,
+        rain: (days) => `${days} ימים גשומים`,
+        snow: (days) => `${days} ימים מושלגים`,
+        cold: (days) => `${days} ימים קרים`,
+        cool: (days) => `${days} ימים קרירים`,
+        hot: (days) => `${days} ימים חמים`,
+        sun: (days) => `${days} ימים שמשיים`,
+      },
+    },
+  },
+  ar: {
+    conditions: {
+      sunny: 'شمس ساطعة',
+      clear: 'سماء صافية',
+      'partly-cloudy': 'غائم جزئياً',
+      cloudy: 'غائم',
+      overcast: 'ملبد بالغيوم',
+      rainy: 'ممطر',
+      rain: 'مطر',
+      stormy: 'عاصف',
+      snow: 'مثلج',
+      fog: 'ضبابي',
+      windy: 'رياح',
+    },
+    defaultCondition: 'طقس لطيف',
+    weather: {
+      rangeForecast: ({ icon, city, condition, min, max }) =>
+        `${icon} توقعات ${city}: ${condition}، ${min}–${max}°C`,
+      rangeSummary: ({ city, min, max, rainyDays }) =>
+        `يتوقع أن تتراوح درجات الحرارة في ${city} بين ${min}°C و${max}°C، مع ${rainyDays} يوم/أيام يرجح فيها هطول المطر.`,
+      forecast: ({ icon, city, condition, temperature }) =>
+        `${icon} توقعات ${city}: ${condition}، درجة الحرارة ${temperature}°C`,
+      summary: ({ city, condition, temperature }) =>
+        `يتوقع أن يكون الطقس في ${city} ${condition} بدرجة حرارة ${temperature}°C.`,
+      unknownCondition: 'غير معروف',
+      unavailable: 'تعذر تحميل توقعات الطقس في الوقت الحالي',
+    },
+    tripPlan: {
+      title: (city) => `رحلة إلى ${city}`,
+      description: (city) => `اكتشف أفضل ما في ${city} مع برنامج رحلة مختار.`,
+      activities: (city) =>
+        `استكشف ${city} وزر المعالم المحلية وتذوق المطبخ المحلي.`,
+      summary: (city) =>
+        `اكتشف أفضل ما في ${city} مع توصيات مختارة للأنشطة والمعالم والمطاعم.`,
+      unavailableTitle: 'تخطيط الرحلة',
+      unavailableFor: (city) =>
+        `تعذر تحميل اقتراحات الرحلة إلى ${city} في الوقت الحالي`,
+      unavailable: 'تعذر تحميل اقتراحات تخطيط الرحلة في الوقت الحالي',
+    },
+    moneySavingTips: {
+      fallback: {
+        transport:
+          'استخدم وسائل النقل العام أو امشِ بدلاً من سيارات الأجرة، وابحث عن بطاقات التنقل اليومية أو لعدة أيام.',
+        attractions:
+          'اشترِ تذاكر المعالم عبر الإنترنت مسبقاً وتحقق من أيام الدخول المجاني والتذاكر المجمعة.',
+        food: 'تناول وجبتك الرئيسية في الغداء حين تكون قوائم الوجبات أرخص، وتجنب المطاعم المجاورة للمعالم الكبرى.',
+        lodging:
+          'قارن الأسعار بين مواقع الحجز وفكّر في الإقامة خارج المركز قليلاً قرب مواصلات جيدة.',
+        passes:
+          'تحقق مما إذا كانت بطاقة المدينة تغطي المعالم التي تخطط لزيارتها قبل شراء تذاكر منفردة.',
+      },
+    },
+    transfers: {
+      unavailable: (from, to) =>
+        `تحقق من خيارات القطار والحافلة والطيران من ${from} إلى ${to}.`,
+    },
+    packingList: {
+      categories: {
+        clothing: 'الملابس',
+        toiletries: 'أدوات العناية الشخصية',
+        electronics: 'الإلكترونيات',
+        documents: 'المستندات',
+      },
+      items: {
+        tops: 'قمصان',
+        underwear: 'ملابس داخلية',
+        socks: 'جوارب',
+        trousers: 'سراويل طويلة',
+        shorts: 'سراويل قصيرة',
+        sleepwear: 'ملابس نوم',
+        sweater: 'كنزة أو صوف',
+        'warm-jacket': 'سترة دافئة',
+        'thermal-layers': 'ملابس حرارية',
+        'winter-accessories': 'قبعة وقفازات ووشاح',
+        'rain-jacket': 'معطف مطر',
+        umbrella: 'مظلة',
+        'waterproof-shoes': 'أحذية مقاومة للماء',
+        'walking-shoes': 'أحذية مريحة للمشي',
+        'hiking-boots': 'أحذية للمشي الجبلي',
+        swimwear: 'ملابس سباحة',
+        'sun-hat': 'قبعة شمس',
+        sunglasses: 'نظارات شمسية',
+        'smart-outfit': 'ملابس أنيقة',
+        'toiletry-kit': 'فرشاة ومعجون أسنان وأدوات عناية',
+        medications: 'أدوية شخصية',
+        sunscreen: 'واقي شمس',
+        'first-aid-kit': 'حقيبة إسعافات أولية',
+        'phone-charger': 'شاحن الهاتف',
+        'power-adapter': 'محول كهرباء',
+        'power-bank': 'بطارية متنقلة',
+        laptop: 'حاسوب محمول وشاحن',
+        headlamp: 'مصباح رأس',
+        passport: 'جواز السفر أو الهوية',
+        'travel-insurance': 'تفاصيل تأمين السفر',
+        bookings: 'التذاكر وتأكيدات الحجز',
+        'business-cards': 'بطاقات عمل',
+      },
+      tripTypes: {
+        business: 'رحلة عمل',
+        beach: 'رحلة شاطئية',
+        hiking: 'رحلة مشي',
+        ski: 'رحلة تزلج',
+        family: 'رحلة عائلية',
+        romantic: 'رحلة رومانسية',
+      },
+      reasons: {
+        length: (days) => `رحلة لمدة ${days} يوم`,
+        rain: (days) => `${days} يوم ممطر`,
+        snow: (days) => `${days} يوم مثلج`,
+        cold: (days) => `${days} يوم بارد`,
+        cool: (days) => `${days} يوم معتدل البرودة`,
+        hot: (days) => `${days} يوم حار`,
+        sun: (days) => `${days} يوم مشمس`,
+      },
+    },
+  },
+  es: {
+    conditions: {
+      sunny: 'Sol radiante',
+      clear: 'Cielo despejado',
+      'partly-cloudy': 'Parcialmente nublado',
+      cloudy: 'Nublado',
+      overcast: 'Cubierto',
+      rainy: 'Lluvioso',
+      rain: 'Lluvia',
+      stormy: 'Tormentoso',
+      snow: 'Nevado',
+      fog: 'Niebla',
+      windy: 'Ventoso',
+    },
+    defaultCondition: 'Tiempo agradable',
+    weather: {
+      rangeForecast: ({ icon, city, condition, min, max }) =>
+        `${icon} Pronóstico para ${city}: ${condition}, ${min}–${max}°C`,
+      rangeSummary: ({ city, min, max, rainyDays }) =>
+        `Se esperan temperaturas entre ${min}°C y ${max}°C en ${city}, con ${rainyDays} día(s) con probable lluvia.`,
+      forecast: ({ icon, city, condition, temperature }) =>
+        `${icon} Pronóstico para ${city}: ${condition}, temperatura ${temperature}°C`,
+      summary: ({ city, condition, temperature }) =>
+        `Se espera que el tiempo en ${city} sea ${condition} con una temperatura de ${temperature}°C.`,
+      unknownCondition: 'Desconocido',
+      unavailable:
+        'No se puede cargar el pronóstico del tiempo en este momento',
+    },
+    tripPlan: {
+      title: (city) => `Viaje a ${city}`,
+      description: (city) =>
+        `Descubre lo mejor de ${city} con nuestro itinerario seleccionado.`,
+      activities: (city) =>
+        `Explora ${city}, visita las atracciones locales y prueba la cocina local.`,
+      summary: (city) =>
+        `Descubre lo mejor de ${city} con nuestras recomendaciones de actividades, atracciones y restaurantes.`,
+      unavailableTitle: 'Planificación del viaje',
+      unavailableFor: (city) =>
+        `No se pueden cargar sugerencias de viaje para ${city} en este momento`,
+      unavailable:
+        'No se pueden cargar sugerencias de planificación en este momento',
+    },
+    moneySavingTips: {
+      fallback: {
+        transport:
+          'Usa el transporte público o camina en lugar de tomar taxis, y busca abonos de uno o varios días.',
+        attractions:
+          'Compra las entradas en línea con antelación y consulta los días de entrada gratuita y las entradas combinadas.',
+        food: 'Haz la comida principal al mediodía, cuando los menús del día son más baratos, y evita los restaurantes junto a los grandes monumentos.',
+        lodging:
+          'Compara precios entre webs de reservas y considera alojarte algo fuera del centro, cerca de buen transporte.',
+        passes:
+          'Comprueba si una tarjeta turística cubre los lugares que piensas visitar antes de comprar entradas sueltas.',
+      },
+    },
+    transfers: {
+      unavailable: (from, to) =>
+        `Consulta las opciones de tren, autobús y avión de ${from} a ${to}.`,
+    },
+    packingList: {
+      categories: {
+        clothing: 'Ropa',
+        toiletries: 'Artículos de aseo',
+        electronics: 'Electrónica',
+        documents: 'Documentos',
+      },
+      items: {
+        tops: 'Camisetas y blusas',
+        underwear: 'Ropa interior',
+        socks: 'Calcetines',
+        trousers: 'Pantalones',
+        shorts: 'Pantalones cortos',
+        sleepwear: 'Pijama',
+        sweater: 'Jersey o forro polar',
+        'warm-jacket': 'Abrigo',
+        'thermal-layers': 'Ropa térmica',
+        'winter-accessories': 'Gorro, guantes y bufanda',
+        'rain-jacket': 'Chubasquero',
+        umbrella: 'Paraguas',
+        'waterproof-shoes': 'Calzado impermeable',
+        'walking-shoes': 'Calzado cómodo para caminar',
+        'hiking-boots': 'Botas de montaña',
+        swimwear: 'Traje de baño',
+        'sun-hat': 'Sombrero para el sol',
+        sunglasses: 'Gafas de sol',
+        'smart-outfit': 'Ropa elegante',
+        'toiletry-kit': 'Cepillo, pasta de dientes y artículos de aseo',
+        medications: 'Medicamentos personales',
+        sunscreen: 'Protector solar',
+        'first-aid-kit': 'Botiquín',
+        'phone-charger': 'Cargador del móvil',
+        'power-adapter': 'Adaptador de enchufe',
+        'power-bank': 'Batería externa',
+        laptop: 'Portátil y cargador',
+        headlamp: 'Linterna frontal',
+        passport: 'Pasaporte o DNI',
+        'travel-insurance': 'Datos del seguro de viaje',
+        bookings: 'Billetes y confirmaciones de reserva',
+        'business-cards': 'Tarjetas de visita',
+      },
+      tripTypes: {
+        business: 'viaje de negocios',
+        beach: 'viaje de playa',
+        hiking: 'viaje de senderismo',
+        ski: 'viaje de esquí',
+        family: 'viaje en familia',
+        romantic: 'viaje romántico',
+      },
+      reasons: {
+        length: (days) => `viaje de ${days} días`,
+        rain: (days) => `${days} día(s) de lluvia`,
+        snow: (days) => `${days} día(s) de nieve`,
+        cold: (days) => `${days} día(s) de frío`,
+        cool: (days) => `${days} día(s) frescos`,
+        hot: (days) => `${days} día(s) de calor`,
+        sun: (days) => `${days} día(s) de sol`,
+      },
+    },
+  },
+  fr: {
+    conditions: {
+      sunny: 'Grand soleil',
+      clear: 'Ciel dégagé',
+      'partly-cloudy': 'Partiellement nuageux',
+      cloudy: 'Nuageux',
+      overcast: 'Couvert',
+      rainy: 'Pluvieux',
+      rain: 'Pluie',
+      stormy: 'Orageux',
+      snow: 'Neigeux',
+      fog: 'Brumeux',
+      windy: 'Venteux',
+    },
+    defaultCondition: 'Temps agréable',
+    weather: {
+      rangeForecast: ({ icon, city, condition, min, max }) =>
+        `${icon} Prévisions pour ${city} : ${condition}, ${min}–${max}°C`,
+      rangeSummary: ({ city, min, max, rainyDays }) =>
+        `Températures attendues entre ${min}°C et ${max}°C à ${city}, avec ${rainyDays} jour(s) de pluie probable.`,
+      forecast: ({ icon, city, condition, temperature }) =>
+        `${icon} Prévisions pour ${city} : ${condition}, température ${temperature}°C`,
+      summary: ({ city, condition, temperature }) =>
+        `Le temps à ${city} devrait être ${condition} avec une température de ${temperature}°C.`,
+      unknownCondition: 'Inconnu',
+      unavailable: 'Impossible de charger les prévisions météo pour le moment',
+    },
+    tripPlan: {
+      title: (city) => `Voyage à ${city}`,
+      description: (city) =>
+        `Découvrez le meilleur de ${city} avec notre itinéraire sélectionné.`,
+      activities: (city) =>
+        `Explorez ${city}, visitez les sites locaux et goûtez la cuisine locale.`,
+      summary: (city) =>
+        `Découvrez le meilleur de ${city} avec nos recommandations d'activités, de sites et de restaurants.`,
+      unavailableTitle: 'Planification du voyage',
+      unavailableFor: (city) =>
+        `Impossible de charger des suggestions de voyage pour ${city} pour le moment`,
+      unavailable:
+        'Impossible de charger des suggestions de voyage pour le moment',
+    },
+    moneySavingTips: {
+      fallback: {
+        transport:
+          'Prenez les transports en commun ou marchez plutôt que de prendre le taxi, et cherchez les passes à la journée ou sur plusieurs jours.',
+        attractions:
+          'Achetez vos billets en ligne à l’avance et renseignez-vous sur les jours de gratuité et les billets combinés.',
+        food: 'Prenez votre repas principal le midi, quand les formules sont moins chères, et évitez les restaurants à côté des grands sites.',
+        lodging:
+          'Comparez les prix entre sites de réservation et envisagez de loger un peu en dehors du centre, près des transports.',
+        passes:
+          'Vérifiez si un city pass couvre les sites que vous prévoyez de visiter avant d’acheter des billets à l’unité.',
+      },
+    },
+    transfers: {
+      unavailable: (from, to) =>
+        `Comparez le train, le bus et l’avion de ${from} à ${to}.`,
+    },
+    packingList: {
+      categories: {
+        clothing: 'Vêtements',
+        toiletries: 'Toilette',
+        electronics: 'Électronique',
+        documents: 'Documents',
+      },
+      items: {
+        tops: 'T-shirts et hauts',
+        underwear: 'Sous-vêtements',
+        socks: 'Chaussettes',
+        trousers: 'Pantalons',
+        shorts: 'Shorts',
+        sleepwear: 'Pyjama',
+        sweater: 'Pull ou polaire',
+        'warm-jacket': 'Manteau chaud',
+        'thermal-layers': 'Sous-vêtements thermiques',
+        'winter-accessories': 'Bonnet, gants et écharpe',
+        'rain-jacket': 'Veste de pluie',
+        umbrella: 'Parapluie',
+        'waterproof-shoes': 'Chaussures imperméables',
+        'walking-shoes': 'Chaussures de marche confortables',
+        'hiking-boots': 'Chaussures de randonnée',
+        swimwear: 'Maillot de bain',
+        'sun-hat': 'Chapeau de soleil',
+        sunglasses: 'Lunettes de soleil',
+        'smart-outfit': 'Tenue habillée',
+        'toiletry-kit': 'Brosse à dents, dentifrice et trousse de toilette',
+        medications: 'Médicaments personnels',
+        sunscreen: 'Crème solaire',
+        'first-aid-kit': 'Trousse de premiers secours',
+        'phone-charger': 'Chargeur de téléphone',
+        'power-adapter': 'Adaptateur de prise',
+        'power-bank': 'Batterie externe',
+        laptop: 'Ordinateur portable et chargeur',
+        headlamp: 'Lampe frontale',
+        passport: 'Passeport ou carte d’identité',
+        'travel-insurance': 'Coordonnées de l’assurance voyage',
+        bookings: 'Billets et confirmations de réservation',
+        'business-cards': 'Cartes de visite',
+      },
+      tripTypes: {
+        business: 'voyage d’affaires',
+        beach: 'séjour à la plage',
+        hiking: 'voyage de randonnée',
+        ski: 'séjour au ski',
+        family: 'voyage en famille',
+        romantic: 'séjour romantique',
+      },
+      reasons: {
+        length: (days) => `voyage de ${days} jours`,
+        rain: (days) => `${days} jour(s) de pluie`,
+        snow: (days) => `${days} jour(s) de neige`,
+        cold: (days) => `${days} jour(s) froids`,
+        cool: (days) => `${days} jour(s) frais`,
+        hot: (days) => `${days} jour(s) de chaleur`,
+        sun: (days) => `${days} jour(s) ensoleillés`,
+      },
+    },
+  },
+  de: {
+    conditions: {
+      sunny: 'Strahlender Sonnenschein',
+      clear: 'Klarer Himmel',
+      'partly-cloudy': 'Teilweise bewölkt',
+      cloudy: 'Bewölkt',
+      overcast: 'Bedeckt',
+      rainy: 'Regnerisch',
+      rain: 'Regen',
+      stormy: 'Stürmisch',
+      snow: 'Schnee',
+      fog: 'Neblig',
+      windy: 'Windig',
+    },
+    defaultCondition: 'Angenehmes Wetter',
+    weather: {
+      rangeForecast: ({ icon, city, condition, min, max }) =>
+        `${icon} Vorhersage für ${city}: ${condition}, ${min}–${max}°C`,
+      rangeSummary: ({ city, min, max, rainyDays }) =>
+        `In ${city} werden Temperaturen zwischen ${min}°C und ${max}°C erwartet, mit ${rainyDays} Tag(en) mit wahrscheinlichem Regen.`,
+      forecast: ({ icon, city, condition, temperature }) =>
+        `${icon} Vorhersage für ${city}: ${condition}, Temperatur ${temperature}°C`,
+      summary: ({ city, condition, temperature }) =>
+        `Das Wetter in ${city} wird voraussichtlich ${condition} bei einer Temperatur von ${temperature}°C.`,
+      unknownCondition: 'Unbekannt',
+      unavailable: 'Die Wettervorhersage kann derzeit nicht geladen werden',
+    },
+    tripPlan: {
+      title: (city) => `Reise nach ${city}`,
+      description: (city) =>
+        `Entdecken Sie das Beste von ${city} mit unserer ausgewählten Reiseroute.`,
+      activities: (city) =>
+        `Erkunden Sie ${city}, besuchen Sie die Sehenswürdigkeiten und probieren Sie die lokale Küche.`,
+      summary: (city) =>
+        `Entdecken Sie das Beste von ${city} mit unseren Empfehlungen für Aktivitäten, Sehenswürdigkeiten und Restaurants.`,
+      unavailableTitle: 'Reiseplanung',
+      unavailableFor: (city) =>
+        `Reisevorschläge für ${city} können derzeit nicht geladen werden`,
+      unavailable: 'Reisevorschläge können derzeit nicht geladen werden',
+    },
+    moneySavingTips: {
+      fallback: {
+        transport:
+          'Nutzen Sie öffentliche Verkehrsmittel oder gehen Sie zu Fuß statt Taxi zu fahren, und achten Sie auf Tages- oder Mehrtagestickets.',
+        attractions:
+          'Kaufen Sie Eintrittskarten vorab online und informieren Sie sich über Tage mit freiem Eintritt und Kombitickets.',
+        food: 'Essen Sie mittags die Hauptmahlzeit, wenn Mittagsmenüs günstiger sind, und meiden Sie Restaurants direkt an großen Sehenswürdigkeiten.',
+        lodging:
+          'Vergleichen Sie Preise auf mehreren Buchungsseiten und übernachten Sie eventuell etwas außerhalb des Zentrums mit guter Anbindung.',
+        passes:
+          'Prüfen Sie, ob ein City-Pass die geplanten Sehenswürdigkeiten abdeckt, bevor Sie Einzeltickets kaufen.',
+      },
+    },
+    transfers: {
+      unavailable: (from, to) =>
+        `Prüfen Sie Zug-, Bus- und Flugverbindungen von ${from} nach ${to}.`,
+    },
+    packingList: {
+      categories: {
+        clothing: 'Kleidung',
+        toiletries: 'Körperpflege',
+        electronics: 'Elektronik',
+        documents: 'Dokumente',
+      },
+      items: {
+        tops: 'T-Shirts und Oberteile',
+        underwear: 'Unterwäsche',
+        socks: 'Socken',
+        trousers: 'Hosen',
+        shorts: 'Kurze Hosen',
+        sleepwear: 'Schlafkleidung',
+        sweater: 'Pullover oder Fleece',
+        'warm-jacket': 'Warme Jacke',
+        'thermal-layers': 'Thermowäsche',
+        'winter-accessories': 'Mütze, Handschuhe und Schal',
+        'rain-jacket': 'Regenjacke',
+        umbrella: 'Regenschirm',
+        'waterproof-shoes': 'Wasserdichte Schuhe',
+        'walking-shoes': 'Bequeme Laufschuhe',
+        'hiking-boots': 'Wanderschuhe',
+        swimwear: 'Badekleidung',
+        'sun-hat': 'Sonnenhut',
+        sunglasses: 'Sonnenbrille',
+        'smart-outfit': 'Elegantes Outfit',
+        'toiletry-kit': 'Zahnbürste, Zahnpasta und Kulturbeutel',
+        medications: 'Persönliche Medikamente',
+        sunscreen: 'Sonnencreme',
+        'first-aid-kit': 'Erste-Hilfe-Set',
+        'phone-charger': 'Handy-Ladegerät',
+        'power-adapter': 'Reisestecker-Adapter',
+        'power-bank': 'Powerbank',
+        laptop: 'Laptop und Ladegerät',
+        headlamp: 'Stirnlampe',
+        passport: 'Reisepass oder Ausweis',
+        'travel-insurance': 'Daten der Reiseversicherung',
+        bookings: 'Tickets und Buchungsbestätigungen',
+        'business-cards': 'Visitenkarten',
+      },
+      tripTypes: {
+        business: 'Geschäftsreise',
+        beach: 'Strandurlaub',
+        hiking: 'Wanderreise',
+        ski: 'Skiurlaub',
+        family: 'Familienreise',
+        romantic: 'romantische Reise',
+      },
+      reasons: {
+        length: (days) => `${days}-tägige Reise`,
+        rain: (days) => `${days} Regentag(e)`,
+        snow: (days) => `${days} Schneetag(e)`,
+        cold: (days) => `${days} kalte(r) Tag(e)`,
+        cool: (days) => `${days} kühle(r) Tag(e)`,
+        hot: (days) => `${days} heiße(r) Tag(e)`,
+        sun: (days) => `${days} Sonnentag(e)`,
+      },
+    },
+  },
+};
+
+export function getMessages(language: SupportedLanguage): Messages {
+  return MESSAGES[language];
+}
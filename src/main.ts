@@ -1,9 +1,19 @@
+import { Logger } from '@nestjs/common';
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
+import { ConfigError, loadAppConfig } from './config/config.loader';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
-  app.enableCors();
-  await app.listen(3000);
+  const config = loadAppConfig();
+  const app = await NestFactory.create(AppModule.forRoot(config));
+  // Browsers only let clients read Retry-After on a 429 when it is exposed
+  app.enableCors({ exposedHeaders: ['Retry-After'] });
+  await app.listen(config.port);
 }
-bootstrap();
+bootstrap().catch((error) => {
+  if (error instanceof ConfigError) {
+    new Logger('Bootstrap').error(error.message);
+    process.exit(1);
+  }
+  throw error;
+});
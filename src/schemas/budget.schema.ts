@@ -0,0 +1,49 @@
+import { JsonSchema } from './json-schema';
+
+export const BUDGET_TIERS = ['budget', 'mid', 'luxury'] as const;
+
+export type BudgetTier = (typeof BUDGET_TIERS)[number];
+
+export const COST_CATEGORIES = [
+  'lodging',
+  'food',
+  'transport',
+  'attractions',
+] as const;
+
+export type CostCategory = (typeof COST_CATEGORIES)[number];
+
+/** Daily figures for one city: lodging per room-night, the rest per person */
+export interface CityCostEstimateResponse {
+  city: string;
+  lodging: number;
+  food: number;
+  transport: number;
+  attractions: number;
+}
+
+export interface BudgetEstimateResponse {
+  cities: CityCostEstimateResponse[];
+}
+
+export const BUDGET_ESTIMATE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    cities: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          city: { type: 'string', minLength: 1 },
+          lodging: { type: 'number', minimum: 0 },
+          food: { type: 'number', minimum: 0 },
+          transport: { type: 'number', minimum: 0 },
+          attractions: { type: 'number', minimum: 0 },
+        },
+        required: ['city', ...COST_CATEGORIES],
+      },
+    },
+  },
+  required: ['cities'],
+};
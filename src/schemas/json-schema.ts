@@ -0,0 +1,144 @@
+/**
+ * The subset of JSON Schema we use to describe LLM responses. It is small
+ * enough to validate by hand and is understood by Ollama's `format` option
+ * and OpenAI-style `response_format: json_schema`.
+ */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: (string | number)[];
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  minimum?: number;
+  maximum?: number;
+  pattern?: string;
+}
+
+/**
+ * Validates a parsed JSON value against a schema.
+ * Returns a list of human readable problems (empty when the value is valid).
+ */
+export function validateJsonSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path = '$',
+): string[] {
+  const typeError = checkType(value, schema, path);
+  if (typeError) {
+    return [typeError];
+  }
+
+  const errors: string[] = [];
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    errors.push(`${path}: must be one of ${schema.enum.join(', ')}`);
+  }
+
+  switch (schema.type) {
+    case 'object': {
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required || []) {
+        if (record[key] === undefined || record[key] === null) {
+          errors.push(`${path}.${key}: is required`);
+        }
+      }
+      for (const [key, propertyValue] of Object.entries(record)) {
+        const propertySchema = schema.properties?.[key];
+        if (propertySchema) {
+          if (propertyValue !== undefined && propertyValue !== null) {
+            errors.push(
+              ...validateJsonSchema(
+                propertyValue,
+                propertySchema,
+                `${path}.${key}`,
+              ),
+            );
+          }
+        } else if (schema.additionalProperties === false) {
+          errors.push(`${path}.${key}: is not allowed`);
+        }
+      }
+      break;
+    }
+    case 'array': {
+      const list = value as unknown[];
+      if (schema.minItems !== undefined && list.length < schema.minItems) {
+        errors.push(`${path}: must contain at least ${schema.minItems} items`);
+      }
+      if (schema.maxItems !== undefined && list.length > schema.maxItems) {
+        errors.push(`${path}: must contain at most ${schema.maxItems} items`);
+      }
+      const itemSchema = schema.items;
+      if (itemSchema) {
+        list.forEach((item, index) =>
+          errors.push(
+            ...validateJsonSchema(item, itemSchema, `${path}[${index}]`),
+          ),
+        );
+      }
+      break;
+    }
+    case 'string': {
+      const text = value as string;
+      if (schema.minLength !== undefined && text.length < schema.minLength) {
+        errors.push(
+          `${path}: must be at least ${schema.minLength} characters long`,
+        );
+      }
+      if (schema.pattern && !new RegExp(schema.pattern).test(text)) {
+        errors.push(`${path}: must match pattern ${schema.pattern}`);
+      }
+      break;
+    }
+    case 'number':
+    case 'integer': {
+      const numeric = value as number;
+      if (schema.minimum !== undefined && numeric < schema.minimum) {
+        errors.push(`${path}: must be >= ${schema.minimum}`);
+      }
+      if (schema.maximum !== undefined && numeric > schema.maximum) {
+        errors.push(`${path}: must be <= ${schema.maximum}`);
+      }
+      break;
+    }
+  }
+
+  return errors;
+}
+
+function checkType(
+  value: unknown,
+  schema: JsonSchema,
+  path: string,
+): string | null {
+  const matches = {
+    object:
+      typeof value === 'object' && value !== null && !Array.isArray(value),
+    array: Array.isArray(value),
+    string: typeof value === 'string',
+    number: typeof value === 'number' && Number.isFinite(value),
+    integer: typeof value === 'number' && Number.isInteger(value),
+    boolean: typeof value === 'boolean',
+  }[schema.type];
+
+  return matches ? null : `${path}: expected ${schema.type}`;
+}
+
+/**
+ * Pulls the JSON document out of a model answer, tolerating markdown code
+ * fences and chatter before or after the object.
+ */
+export function extractJson(text: string): unknown {
+  const unfenced = text.replace(/```(?:json)?/gi, '').trim();
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new SyntaxError('No JSON object found in response');
+  }
+  return JSON.parse(unfenced.slice(start, end + 1));
+}
@@ -0,0 +1,59 @@
+import { JsonSchema } from './json-schema';
+
+export const TIP_CATEGORIES = [
+  'transport',
+  'attractions',
+  'food',
+  'lodging',
+  'passes',
+] as const;
+
+export type TipCategory = (typeof TIP_CATEGORIES)[number];
+
+export interface MoneySavingTipResponse {
+  category: TipCategory;
+  /** One of the trip's cities, or "all" for the whole trip */
+  city: string;
+  tip: string;
+  validFrom: string;
+  validUntil: string;
+  estimatedSavings: number;
+  currency: string;
+}
+
+export interface MoneySavingTipsResponse {
+  tips: MoneySavingTipResponse[];
+}
+
+export const MONEY_SAVING_TIPS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    tips: {
+      type: 'array',
+      minItems: 1,
+      maxItems: 15,
+      items: {
+        type: 'object',
+        properties: {
+          category: { type: 'string', enum: [...TIP_CATEGORIES] },
+          city: { type: 'string', minLength: 1 },
+          tip: { type: 'string', minLength: 1 },
+          validFrom: { type: 'string', description: 'YYYY-MM-DD' },
+          validUntil: { type: 'string', description: 'YYYY-MM-DD' },
+          estimatedSavings: { type: 'number', minimum: 0 },
+          currency: { type: 'string', description: 'ISO 4217 code, e.g. EUR' },
+        },
+        required: [
+          'category',
+          'city',
+          'tip',
+          'validFrom',
+          'validUntil',
+          'estimatedSavings',
+          'currency',
+        ],
+      },
+    },
+  },
+  required: ['tips'],
+};
@@ -0,0 +1,60 @@
+import { JsonSchema } from './json-schema';
+
+export const TRANSFER_MODES = [
+  'train',
+  'flight',
+  'bus',
+  'car',
+  'ferry',
+] as const;
+
+export type TransferMode = (typeof TRANSFER_MODES)[number];
+
+export interface TransferLegResponse {
+  from: string;
+  to: string;
+  mode: TransferMode;
+  durationHours: number;
+  bestDay: string;
+  departureTime: string;
+  reason: string;
+}
+
+export interface TransfersResponse {
+  legs: TransferLegResponse[];
+}
+
+export const TRANSFERS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    legs: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          from: { type: 'string', minLength: 1 },
+          to: { type: 'string', minLength: 1 },
+          mode: { type: 'string', enum: [...TRANSFER_MODES] },
+          durationHours: { type: 'number', minimum: 0.25, maximum: 48 },
+          bestDay: { type: 'string', description: 'YYYY-MM-DD' },
+          departureTime: {
+            type: 'string',
+            description: '24h time, e.g. 09:30',
+          },
+          reason: { type: 'string', minLength: 1 },
+        },
+        required: [
+          'from',
+          'to',
+          'mode',
+          'durationHours',
+          'bestDay',
+          'departureTime',
+          'reason',
+        ],
+      },
+    },
+  },
+  required: ['legs'],
+};
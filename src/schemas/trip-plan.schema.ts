@@ -0,0 +1,87 @@
+import { JsonSchema } from './json-schema';
+
+export const ACTIVITY_CATEGORIES = [
+  'sightseeing',
+  'museum',
+  'food',
+  'outdoors',
+  'tour',
+  'shopping',
+  'nightlife',
+  'relaxation',
+  'transport',
+  'other',
+] as const;
+
+export type ActivityCategory = (typeof ACTIVITY_CATEGORIES)[number];
+
+export type ActivitySetting = 'indoor' | 'outdoor';
+
+export interface ItineraryItemResponse {
+  startTime: string;
+  title: string;
+  category: ActivityCategory;
+  durationHours: number;
+  setting: ActivitySetting;
+  neighbourhood: string;
+}
+
+export interface ItineraryDayResponse {
+  date: string;
+  items: ItineraryItemResponse[];
+}
+
+export interface TripPlanResponse {
+  title: string;
+  description: string;
+  activities: string[];
+  summary: string;
+  days: ItineraryDayResponse[];
+}
+
+export const ITINERARY_ITEM_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    startTime: { type: 'string', description: '24h time, e.g. 09:30' },
+    title: { type: 'string', minLength: 1 },
+    category: { type: 'string', enum: [...ACTIVITY_CATEGORIES] },
+    durationHours: { type: 'number', minimum: 0.25, maximum: 12 },
+    setting: { type: 'string', enum: ['indoor', 'outdoor'] },
+    neighbourhood: { type: 'string' },
+  },
+  required: [
+    'startTime',
+    'title',
+    'category',
+    'durationHours',
+    'setting',
+    'neighbourhood',
+  ],
+};
+
+export const TRIP_PLAN_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', minLength: 1 },
+    description: { type: 'string', minLength: 1 },
+    activities: {
+      type: 'array',
+      minItems: 1,
+      items: { type: 'string', minLength: 1 },
+    },
+    summary: { type: 'string', minLength: 1 },
+    days: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          date: { type: 'string', description: 'YYYY-MM-DD' },
+          items: { type: 'array', items: ITINERARY_ITEM_SCHEMA },
+        },
+        required: ['date', 'items'],
+      },
+    },
+  },
+  required: ['title', 'description', 'activities', 'summary', 'days'],
+};
@@ -0,0 +1,87 @@
+import { JsonSchema } from './json-schema';
+
+export const WEATHER_CONDITIONS = [
+  'sunny',
+  'partly-cloudy',
+  'cloudy',
+  'rainy',
+  'stormy',
+  'snow',
+] as const;
+
+export type WeatherCondition = (typeof WEATHER_CONDITIONS)[number];
+
+export interface DailyWeatherResponse {
+  date: string;
+  minTemperature: number;
+  maxTemperature: number;
+  condition: WeatherCondition;
+  rainProbability: number;
+}
+
+export interface WeatherResponse {
+  temperature: number;
+  condition: WeatherCondition;
+  conditionDescription: string;
+  forecast: string;
+  summary: string;
+  daily: DailyWeatherResponse[];
+}
+
+export const DAILY_WEATHER_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    date: { type: 'string', description: 'YYYY-MM-DD' },
+    minTemperature: { type: 'integer', minimum: -60, maximum: 60 },
+    maxTemperature: { type: 'integer', minimum: -60, maximum: 60 },
+    condition: { type: 'string', enum: [...WEATHER_CONDITIONS] },
+    rainProbability: { type: 'integer', minimum: 0, maximum: 100 },
+  },
+  required: [
+    'date',
+    'minTemperature',
+    'maxTemperature',
+    'condition',
+    'rainProbability',
+  ],
+};
+
+export const WEATHER_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    temperature: { type: 'integer', minimum: -60, maximum: 60 },
+    condition: { type: 'string', enum: [...WEATHER_CONDITIONS] },
+    conditionDescription: { type: 'string', minLength: 1 },
+    forecast: { type: 'string', minLength: 1 },
+    summary: { type: 'string', minLength: 1 },
+    daily: { type: 'array', minItems: 1, items: DAILY_WEATHER_SCHEMA },
+  },
+  required: [
+    'temperature',
+    'condition',
+    'conditionDescription',
+    'forecast',
+    'summary',
+    'daily',
+  ],
+};
+
+/**
+ * Used when the numbers come from a forecast or climatology source and the
+ * model only writes the prose around them.
+ */
+export interface WeatherNarrativeResponse {
+  conditionDescription: string;
+  forecast: string;
+  summary: string;
+}
+
+export const WEATHER_NARRATIVE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    conditionDescription: { type: 'string', minLength: 1 },
+    forecast: { type: 'string', minLength: 1 },
+    summary: { type: 'string', minLength: 1 },
+  },
+  required: ['conditionDescription', 'forecast', 'summary'],
+};
@@ -0,0 +1,9 @@
+import { ApiKeyStore, MemoryApiKeyStore } from './api-key-store';
+import { FileApiKeyStore } from './file-api-key-store';
+import { AuthConfig } from '../config/app-config';
+
+export function createApiKeyStore(config: AuthConfig): ApiKeyStore {
+  return config.store === 'file'
+    ? new FileApiKeyStore(config.filePath)
+    : new MemoryApiKeyStore();
+}
@@ -0,0 +1,50 @@
+/** Limits of one API key; requests that generate count against both kinds */
+export interface ApiKeyQuotas {
+  requestsPerMinute: number;
+  requestsPerDay: number;
+  generationsPerMinute: number;
+  generationsPerDay: number;
+}
+
+export interface ApiKeyRecord {
+  id: string;
+  /** Who the key was issued to, e.g. "mobile app" */
+  name: string;
+  /** First characters of the key, enough to recognize it in a list */
+  prefix: string;
+  /** SHA-256 of the key; the key itself is only shown when issued */
+  hash: string;
+  quotas: ApiKeyQuotas;
+  createdAt: string;
+  revokedAt: string | null;
+}
+
+export type ApiKeyStoreType = 'memory' | 'file';
+
+export abstract class ApiKeyStore {
+  abstract readonly type: ApiKeyStoreType;
+
+  abstract list(): Promise<ApiKeyRecord[]>;
+
+  abstract get(id: string): Promise<ApiKeyRecord | undefined>;
+
+  abstract save(record: ApiKeyRecord): Promise<void>;
+}
+
+export class MemoryApiKeyStore extends ApiKeyStore {
+  readonly type = 'memory';
+  private readonly store = new Map<string, ApiKeyRecord>();
+
+  list(): Promise<ApiKeyRecord[]> {
+    return Promise.resolve([...this.store.values()]);
+  }
+
+  get(id: string): Promise<ApiKeyRecord | undefined> {
+    return Promise.resolve(this.store.get(id));
+  }
+
+  save(record: ApiKeyRecord): Promise<void> {
+    this.store.set(record.id, record);
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,96 @@
+import { ApiKeyQuotaError, ApiKeyService } from './api-key.service';
+import { MemoryApiKeyStore } from './api-key-store';
+
+describe('ApiKeyService', () => {
+  let service: ApiKeyService;
+
+  beforeEach(() => {
+    service = new ApiKeyService(new MemoryApiKeyStore(), {
+      requestsPerMinute: 3,
+      requestsPerDay: 100,
+      generationsPerMinute: 1,
+      generationsPerDay: 10,
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should authenticate an issued key until it is revoked', async () => {
+    const { key, apiKey } = await service.issue('mobile app', {
+      requestsPerDay: undefined,
+      generationsPerDay: 50,
+    });
+
+    expect(key.startsWith(apiKey.prefix)).toBe(true);
+    expect(apiKey).not.toHaveProperty('hash');
+    expect(apiKey.quotas).toEqual({
+      requestsPerMinute: 3,
+      requestsPerDay: 100,
+      generationsPerMinute: 1,
+      generationsPerDay: 50,
+    });
+    await expect(service.authenticate(key)).resolves.toMatchObject({
+      id: apiKey.id,
+    });
+    await expect(service.authenticate(`${key}x`)).resolves.toBeUndefined();
+
+    const revoked = await service.revoke(apiKey.id);
+
+    expect(revoked.revokedAt).not.toBeNull();
+    await expect(service.authenticate(key)).resolves.toBeUndefined();
+    await expect(service.revoke('missing')).resolves.toBeUndefined();
+  });
+
+  it('should count usage and refuse requests over a quota until the window ends', async () => {
+    jest.useFakeTimers({ now: new Date('2026-10-19T10:00:15.000Z') });
+    const { key, apiKey } = await service.issue('web');
+    const record = await service.authenticate(key);
+
+    service.consume(record, 1);
+    expect(() => service.consume(record, 1)).toThrow(
+      expect.objectContaining({
+        quota: 'generationsPerMinute',
+        retryAfterSeconds: 45,
+      }) as ApiKeyQuotaError,
+    );
+    service.consume(record, 0);
+    service.consume(record, 0);
+    expect(() => service.consume(record, 0)).toThrow(ApiKeyQuotaError);
+
+    expect((await service.get(apiKey.id)).usage).toMatchObject({
+      minute: { requests: 3, generations: 1 },
+      day: { requests: 3, generations: 1 },
+      total: { requests: 3, generations: 1 },
+      lastUsedAt: '2026-10-19T10:00:15.000Z',
+    });
+
+    jest.setSystemTime(new Date('2026-10-19T10:01:00.000Z'));
+    service.consume(record, 1);
+
+    expect((await service.get(apiKey.id)).usage).toMatchObject({
+      minute: { requests: 1, generations: 1 },
+      day: { requests: 4, generations: 2 },
+    });
+  });
+
+  it('should let a request heavier than a quota run alone in an unused window', async () => {
+    jest.useFakeTimers({ now: new Date('2026-10-19T10:00:15.000Z') });
+    const record = await service.authenticate((await service.issue('web')).key);
+
+    service.consume(record, 3);
+    expect(() => service.consume(record, 1)).toThrow(
+      expect.objectContaining({
+        quota: 'generationsPerMinute',
+      }) as ApiKeyQuotaError,
+    );
+
+    jest.setSystemTime(new Date('2026-10-19T10:01:00.000Z'));
+    service.consume(record, 0);
+    expect((await service.get(record.id)).usage.day).toEqual({
+      requests: 2,
+      generations: 3,
+    });
+  });
+});
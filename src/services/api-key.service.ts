@@ -0,0 +1,245 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import {
+  type ApiKeyQuotas,
+  type ApiKeyRecord,
+  ApiKeyStore,
+} from './api-key-store';
+
+const KEY_PREFIX = 'tpk_';
+/** Characters of a key kept in clear to tell keys apart */
+const VISIBLE_KEY_LENGTH = KEY_PREFIX.length + 6;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export type ApiKeyQuota = keyof ApiKeyQuotas;
+
+export interface UsageCounts {
+  requests: number;
+  generations: number;
+}
+
+/** Counted in memory, so a restart starts every window and total over */
+export interface ApiKeyUsage {
+  /** The current calendar minute */
+  minute: UsageCounts;
+  /** The current UTC day */
+  day: UsageCounts;
+  /** Since the app started */
+  total: UsageCounts;
+  lastUsedAt: string | null;
+}
+
+/** An API key as shown to admins: no hash, with its usage */
+export interface ApiKey extends Omit<ApiKeyRecord, 'hash'> {
+  usage: ApiKeyUsage;
+}
+
+export interface IssuedApiKey {
+  /** The key itself; it cannot be retrieved again */
+  key: string;
+  apiKey: ApiKey;
+}
+
+/** The request would go over one of the key's quotas; nothing was counted */
+export class ApiKeyQuotaError extends Error {
+  constructor(
+    readonly quota: ApiKeyQuota,
+    readonly limit: number,
+    readonly retryAfterSeconds: number,
+  ) {
+    super(`Quota ${quota} of ${limit} reached`);
+    this.name = 'ApiKeyQuotaError';
+  }
+}
+
+interface UsageWindow extends UsageCounts {
+  /** Epoch ms the window started at */
+  start: number;
+}
+
+type UsagePeriod = 'minute' | 'day';
+
+const PERIOD_MS: Record<UsagePeriod, number> = {
+  minute: MINUTE_MS,
+  day: DAY_MS,
+};
+
+/** What each quota limits */
+const QUOTA_COUNTERS: {
+  quota: ApiKeyQuota;
+  counter: keyof UsageCounts;
+  period: UsagePeriod;
+}[] = [
+  { quota: 'requestsPerMinute', counter: 'requests', period: 'minute' },
+  { quota: 'requestsPerDay', counter: 'requests', period: 'day' },
+  { quota: 'generationsPerMinute', counter: 'generations', period: 'minute' },
+  { quota: 'generationsPerDay', counter: 'generations', period: 'day' },
+];
+
+interface UsageEntry extends Record<UsagePeriod, UsageWindow> {
+  total: UsageCounts;
+  lastUsedAt: string | null;
+}
+
+/**
+ * Issues and revokes API keys and counts what each one uses against its
+ * quotas, in fixed windows of one calendar minute and one UTC day.
+ */
+@Injectable()
+export class ApiKeyService {
+  private readonly logger = new Logger(ApiKeyService.name);
+  private readonly usage = new Map<string, UsageEntry>();
+
+  constructor(
+    private readonly store: ApiKeyStore,
+    private readonly defaultQuotas: ApiKeyQuotas,
+  ) {}
+
+  /** Quotas left out use the configured defaults */
+  async issue(
+    name: string,
+    quotas: Partial<ApiKeyQuotas> = {},
+  ): Promise<IssuedApiKey> {
+    const overrides = Object.entries(quotas).filter(
+      ([, limit]) => limit !== undefined,
+    );
+    const key = KEY_PREFIX + randomBytes(24).toString('base64url');
+    const record: ApiKeyRecord = {
+      id: randomUUID(),
+      name,
+      prefix: key.slice(0, VISIBLE_KEY_LENGTH),
+      hash: hashKey(key),
+      quotas: { ...this.defaultQuotas, ...Object.fromEntries(overrides) },
+      createdAt: new Date().toISOString(),
+      revokedAt: null,
+    };
+    await this.store.save(record);
+    this.logger.log(`Issued API key ${record.id} (${name})`);
+    return { key, apiKey: this.toApiKey(record) };
+  }
+
+  async list(): Promise<ApiKey[]> {
+    const records = await this.store.list();
+    return records
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map((record) => this.toApiKey(record));
+  }
+
+  async get(id: string): Promise<ApiKey | undefined> {
+    const record = await this.store.get(id);
+    return record && this.toApiKey(record);
+  }
+
+  /** Resolves to undefined for an unknown key; revoking twice keeps the first date */
+  async revoke(id: string): Promise<ApiKey | undefined> {
+    const record = await this.store.get(id);
+    if (!record) {
+      return undefined;
+    }
+    if (!record.revokedAt) {
+      record.revokedAt = new Date().toISOString();
+      await this.store.save(record);
+      this.logger.log(`Revoked API key ${id} (${record.name})`);
+    }
+    return this.toApiKey(record);
+  }
+
+  /** The key's record, or undefined when it is unknown or revoked */
+  async authenticate(key: string): Promise<ApiKeyRecord | undefined> {
+    const hash = hashKey(key);
+    const records = await this.store.list();
+    return records.find((record) => record.hash === hash && !record.revokedAt);
+  }
+
+  /**
+   * Counts one request and `generations` generations. Throws an
+   * {@link ApiKeyQuotaError} for the quota that frees up last when any
+   * would be exceeded. A request heavier than a whole quota can still run
+   * alone in a window that is unused so far.
+   */
+  consume(record: ApiKeyRecord, generations: number): void {
+    const now = Date.now();
+    const entry = this.getUsage(record.id, now);
+    const { quotas } = record;
+    const counts: UsageCounts = { requests: 1, generations };
+
+    const exceeded = QUOTA_COUNTERS.filter(({ quota, counter, period }) => {
+      const used = entry[period][counter];
+      const limit = quotas[quota];
+      return (
+        counts[counter] > 0 &&
+        used + counts[counter] > limit &&
+        (used > 0 || limit === 0)
+      );
+    })
+      .map(({ quota, period }) => {
+        const retryAfterMs = entry[period].start + PERIOD_MS[period] - now;
+        return new ApiKeyQuotaError(
+          quota,
+          quotas[quota],
+          Math.max(1, Math.ceil(retryAfterMs / 1000)),
+        );
+      })
+      .sort((a, b) => b.retryAfterSeconds - a.retryAfterSeconds);
+    if (exceeded.length > 0) {
+      throw exceeded[0];
+    }
+
+    for (const usage of [entry.minute, entry.day, entry.total]) {
+      usage.requests += counts.requests;
+      usage.generations += counts.generations;
+    }
+    entry.lastUsedAt = new Date(now).toISOString();
+  }
+
+  private toApiKey(record: ApiKeyRecord): ApiKey {
+    const { id, name, prefix, quotas, createdAt, revokedAt } = record;
+    const { minute, day, total, lastUsedAt } = this.getUsage(
+      record.id,
+      Date.now(),
+    );
+    return {
+      id,
+      name,
+      prefix,
+      quotas: { ...quotas },
+      createdAt,
+      revokedAt,
+      usage: {
+        minute: { requests: minute.requests, generations: minute.generations },
+        day: { requests: day.requests, generations: day.generations },
+        total: { ...total },
+        lastUsedAt,
+      },
+    };
+  }
+
+  /** The key's counters, with windows that have ended started over */
+  private getUsage(id: string, now: number): UsageEntry {
+    const minuteStart = now - (now % MINUTE_MS);
+    const dayStart = now - (now % DAY_MS);
+    let entry = this.usage.get(id);
+    if (!entry) {
+      entry = {
+        minute: { start: minuteStart, requests: 0, generations: 0 },
+        day: { start: dayStart, requests: 0, generations: 0 },
+        total: { requests: 0, generations: 0 },
+        lastUsedAt: null,
+      };
+      this.usage.set(id, entry);
+    }
+    if (entry.minute.start !== minuteStart) {
+      entry.minute = { start: minuteStart, requests: 0, generations: 0 };
+    }
+    if (entry.day.start !== dayStart) {
+      entry.day = { start: dayStart, requests: 0, generations: 0 };
+    }
+    return entry;
+  }
+}
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
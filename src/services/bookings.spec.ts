@@ -0,0 +1,128 @@
+import { BookingInput, isFreeOfBookings, planBookings } from './bookings';
+
+describe('bookings', () => {
+  const flight: BookingInput = {
+    type: 'flight',
+    title: 'AF1234 to Rome',
+    startsAt: '2026-06-04T10:00:00+02:00',
+    endsAt: '2026-06-04T12:15:00+02:00',
+  };
+
+  it('should keep the time around a flight free', () => {
+    const { checks, slots, summary } = planBookings(
+      [flight],
+      '2026-06-01',
+      '2026-06-04',
+    );
+
+    expect(checks).toEqual([
+      {
+        bookingId: 'booking-1',
+        type: 'flight',
+        title: 'AF1234 to Rome',
+        status: 'scheduled',
+        warnings: [],
+      },
+    ]);
+    expect(slots[0]).toMatchObject({
+      date: '2026-06-04',
+      startTime: '10:00',
+      durationHours: 2.25,
+      category: 'transport',
+    });
+    expect(summary).toEqual([
+      '- 2026-06-04 08:00-13:15: flight "AF1234 to Rome"',
+    ]);
+    expect(isFreeOfBookings('2026-06-04', '06:00', 2, slots)).toBe(true);
+    expect(isFreeOfBookings('2026-06-04', '07:00', 1.5, slots)).toBe(false);
+    expect(isFreeOfBookings('2026-06-04', '13:15', 1, slots)).toBe(true);
+    expect(isFreeOfBookings('2026-06-03', '10:00', 3, slots)).toBe(true);
+  });
+
+  it('should flag bookings outside the trip dates', () => {
+    const { checks, slots, summary } = planBookings(
+      [
+        { ...flight, id: 'return' },
+        {
+          type: 'hotel',
+          title: 'Hotel Lutetia',
+          startsAt: '2026-05-30T15:00',
+          endsAt: '2026-06-02T11:00',
+        },
+      ],
+      '2026-06-01',
+      '2026-06-03',
+    );
+
+    expect(checks[0]).toMatchObject({
+      bookingId: 'return',
+      status: 'outside-trip',
+    });
+    expect(checks[1]).toMatchObject({
+      bookingId: 'booking-2',
+      status: 'scheduled',
+      warnings: ['Starts before the trip (2026-06-01)'],
+    });
+    expect(slots.map((slot) => slot.title)).toEqual([
+      'Check out: Hotel Lutetia',
+    ]);
+    expect(summary).toHaveLength(1);
+  });
+
+  it('should warn about overlapping and untimed bookings', () => {
+    const { checks, slots } = planBookings(
+      [
+        {
+          type: 'tour',
+          title: 'Vatican tour',
+          startsAt: '2026-06-05T09:00',
+          endsAt: '2026-06-05T12:00',
+        },
+        {
+          type: 'restaurant',
+          title: 'Roscioli',
+          startsAt: '2026-06-05T11:30',
+        },
+        { type: 'other', title: 'Cooking class', startsAt: '2026-06-06' },
+      ],
+      '2026-06-04',
+      '2026-06-08',
+    );
+
+    expect(checks[0].warnings).toEqual(['Overlaps with "Roscioli"']);
+    expect(checks[1].warnings).toEqual(['Overlaps with "Vatican tour"']);
+    expect(checks[2].warnings).toEqual([
+      'No time given, so other plans cannot be checked against it',
+    ]);
+    expect(slots).toHaveLength(2);
+  });
+
+  it('should leave out bookings whose dates cannot be read', () => {
+    const { checks, slots, summary } = planBookings(
+      [
+        { type: 'tour', title: 'Colosseum', startsAt: '20260605T1000' },
+        {
+          type: 'tour',
+          title: 'Vatican tour',
+          startsAt: '2026-06-05T09:00',
+          endsAt: '2026-06',
+        },
+      ],
+      '2026-06-04',
+      '2026-06-08',
+    );
+
+    expect(checks[0]).toMatchObject({
+      status: 'invalid-date',
+      warnings: [
+        'Cannot read the start "20260605T1000", so it is left out of the plan',
+      ],
+    });
+    expect(checks[1]).toMatchObject({
+      status: 'scheduled',
+      warnings: ['Cannot read the end "2026-06", so it is treated as unknown'],
+    });
+    expect(slots.map((slot) => slot.title)).toEqual(['Vatican tour']);
+    expect(summary).toHaveLength(1);
+  });
+});
@@ -0,0 +1,391 @@
+import type {
+  ActivityCategory,
+  ActivitySetting,
+} from '../schemas/trip-plan.schema';
+
+export const BOOKING_TYPES = [
+  'flight',
+  'hotel',
+  'tour',
+  'restaurant',
+  'other',
+] as const;
+
+export type BookingType = (typeof BOOKING_TYPES)[number];
+
+/**
+ * Something the travelers already booked. Times are wall-clock times at
+ * the destination; a date without a time cannot be checked for conflicts.
+ */
+export interface BookingInput {
+  type: BookingType;
+  title: string;
+  /** City the booking takes place in, e.g. the departure city of a flight */
+  city?: string;
+  /** `YYYY-MM-DD` or `YYYY-MM-DDTHH:mm`: departure, check-in, reservation time... */
+  startsAt: string;
+  /** Arrival, check-out or end of a tour, when known */
+  endsAt?: string;
+  reference?: string;
+}
+
+export interface Booking extends BookingInput {
+  id: string;
+}
+
+export type BookingStatus = 'scheduled' | 'outside-trip' | 'invalid-date';
+
+export interface BookingCheck {
+  bookingId: string;
+  type: BookingType;
+  title: string;
+  status: BookingStatus;
+  /** Why the booking needs attention, e.g. it overlaps another one */
+  warnings: string[];
+}
+
+/** A timed booking placed on one day of the itinerary */
+export interface BookedSlot {
+  bookingId: string;
+  date: string;
+  startTime: string;
+  durationHours: number;
+  title: string;
+  category: ActivityCategory;
+  setting: ActivitySetting;
+  /** Wall-clock minutes (since the epoch) kept free of anything else */
+  busyFrom: number;
+  busyUntil: number;
+}
+
+export interface BookingPlan {
+  checks: BookingCheck[];
+  slots: BookedSlot[];
+  /** Bookings inside the trip, one line each, for the prompt */
+  summary: string[];
+}
+
+interface BookingRules {
+  category: ActivityCategory;
+  setting: ActivitySetting;
+  /** Assumed length when the booking has no end time */
+  defaultHours: number;
+  /** Time to get there and back, e.g. airport security */
+  bufferBeforeHours: number;
+  bufferAfterHours: number;
+}
+
+const BOOKING_RULES: Record<BookingType, BookingRules> = {
+  flight: {
+    category: 'transport',
+    setting: 'indoor',
+    defaultHours: 3,
+    bufferBeforeHours: 2,
+    bufferAfterHours: 1,
+  },
+  hotel: {
+    category: 'other',
+    setting: 'indoor',
+    defaultHours: 0.5,
+    bufferBeforeHours: 0,
+    bufferAfterHours: 0,
+  },
+  tour: {
+    category: 'tour',
+    setting: 'outdoor',
+    defaultHours: 3,
+    bufferBeforeHours: 0.5,
+    bufferAfterHours: 0,
+  },
+  restaurant: {
+    category: 'food',
+    setting: 'indoor',
+    defaultHours: 1.5,
+    bufferBeforeHours: 0.5,
+    bufferAfterHours: 0,
+  },
+  other: {
+    category: 'other',
+    setting: 'indoor',
+    defaultHours: 1,
+    bufferBeforeHours: 0,
+    bufferAfterHours: 0,
+  },
+};
+
+const MOMENT = /^(\d{4}-\d{2}-\d{2})(?:T(\d{2}):(\d{2}))?/;
+const MINUTES_PER_DAY = 24 * 60;
+
+interface Moment {
+  date: string;
+  /** null for a date without a time */
+  minutes: number | null;
+}
+
+/** Reads the wall-clock date and time as written, ignoring any offset */
+function parseMoment(value: string): Moment | null {
+  const match = MOMENT.exec(value);
+  if (!match) {
+    return null;
+  }
+  const [, date, hours, minutes] = match;
+  const dayStart = Date.parse(`${date}T00:00:00Z`) / 60000;
+  return {
+    date,
+    minutes:
+      hours === undefined
+        ? null
+        : dayStart + Number(hours) * 60 + Number(minutes),
+  };
+}
+
+function toClock(minutes: number): string {
+  const inDay =
+    ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hours = String(Math.floor(inDay / 60)).padStart(2, '0');
+  return `${hours}:${String(inDay % 60).padStart(2, '0')}`;
+}
+
+function toDate(minutes: number): string {
+  return new Date(minutes * 60000).toISOString().slice(0, 10);
+}
+
+/** Wall-clock minutes of a `HH:MM` time on a `YYYY-MM-DD` date */
+export function toWallClock(date: string, time: string): number {
+  return parseMoment(`${date}T${time}`)?.minutes ?? NaN;
+}
+
+function createSlot(
+  id: string,
+  booking: BookingInput,
+  title: string,
+  start: number,
+  end: number,
+): BookedSlot {
+  const rules = BOOKING_RULES[booking.type];
+  return {
+    bookingId: id,
+    date: toDate(start),
+    startTime: toClock(start),
+    durationHours: Math.round(((end - start) / 60) * 4) / 4,
+    title,
+    category: rules.category,
+    setting: rules.setting,
+    busyFrom: start - rules.bufferBeforeHours * 60,
+    busyUntil: end + rules.bufferAfterHours * 60,
+  };
+}
+
+/**
+ * Hotels get a short slot at check-in and check-out, anything else one
+ * slot from start to end. Untimed moments produce no slot.
+ */
+function toSlots(
+  id: string,
+  booking: BookingInput,
+  start: Moment,
+  end: Moment | null,
+): BookedSlot[] {
+  const rules = BOOKING_RULES[booking.type];
+  const slotLength = rules.defaultHours * 60;
+
+  if (booking.type === 'hotel') {
+    const moments: [Moment | null, string][] = [
+      [start, `Check in: ${booking.title}`],
+      [end, `Check out: ${booking.title}`],
+    ];
+    return moments
+      .filter(([moment]) => moment?.minutes != null)
+      .map(([moment, title]) =>
+        createSlot(
+          id,
+          booking,
+          title,
+          moment.minutes,
+          moment.minutes + slotLength,
+        ),
+      );
+  }
+
+  if (start.minutes === null) {
+    return [];
+  }
+  const endMinutes =
+    end?.minutes != null && end.minutes > start.minutes
+      ? end.minutes
+      : start.minutes + slotLength;
+  return [createSlot(id, booking, booking.title, start.minutes, endMinutes)];
+}
+
+/**
+ * Checks bookings against the trip's dates and against each other, and
+ * turns the timed ones inside the trip into itinerary slots. Bookings
+ * without an id are numbered `booking-1`, `booking-2`...
+ */
+export function planBookings(
+  bookings: (BookingInput & { id?: string })[],
+  startDate: string,
+  endDate: string,
+): BookingPlan {
+  const tripStart = startDate.slice(0, 10);
+  const tripEnd = endDate.slice(0, 10);
+  const checks: BookingCheck[] = [];
+  const slots: BookedSlot[] = [];
+  const summary: string[] = [];
+
+  bookings.forEach((booking, index) => {
+    const id = booking.id ?? `booking-${index + 1}`;
+    const start = parseMoment(booking.startsAt);
+    const end = booking.endsAt ? parseMoment(booking.endsAt) : null;
+    const check: BookingCheck = {
+      bookingId: id,
+      type: booking.type,
+      title: booking.title,
+      status: 'scheduled',
+      warnings: [],
+    };
+    checks.push(check);
+
+    if (!start) {
+      check.status = 'invalid-date';
+      check.warnings.push(
+        `Cannot read the start "${booking.startsAt}", so it is left out of the plan`,
+      );
+      return;
+    }
+    if (booking.endsAt && !end) {
+      check.warnings.push(
+        `Cannot read the end "${booking.endsAt}", so it is treated as unknown`,
+      );
+    }
+    const firstDay = start.date;
+    const lastDay = end?.date ?? firstDay;
+
+    if (lastDay < tripStart || firstDay > tripEnd) {
+      check.status = 'outside-trip';
+      check.warnings.push(
+        `Falls outside the trip dates (${tripStart} to ${tripEnd})`,
+      );
+      return;
+    }
+    if (firstDay < tripStart) {
+      check.warnings.push(`Starts before the trip (${tripStart})`);
+    }
+    if (lastDay > tripEnd) {
+      check.warnings.push(`Ends after the trip (${tripEnd})`);
+    }
+
+    const bookingSlots = toSlots(id, booking, start, end).filter(
+      (slot) => slot.date >= tripStart && slot.date <= tripEnd,
+    );
+    if (start.minutes === null && booking.type !== 'hotel') {
+      check.warnings.push(
+        'No time given, so other plans cannot be checked against it',
+      );
+    }
+    slots.push(...bookingSlots);
+    summary.push(describeBooking(booking, firstDay, bookingSlots));
+  });
+
+  addOverlapWarnings(checks, slots);
+  return { checks, slots, summary };
+}
+
+function describeBooking(
+  booking: BookingInput,
+  firstDay: string,
+  slots: BookedSlot[],
+): string {
+  if (slots.length === 0) {
+    return `- ${firstDay}, time not set: ${booking.type} "${booking.title}"`;
+  }
+  return slots
+    .map((slot) => {
+      const nextDay = toDate(slot.busyUntil) > slot.date ? ' (next day)' : '';
+      return `- ${slot.date} ${toClock(slot.busyFrom)}-${toClock(slot.busyUntil)}${nextDay}: ${booking.type} "${slot.title}"`;
+    })
+    .join('\n');
+}
+
+function addOverlapWarnings(checks: BookingCheck[], slots: BookedSlot[]): void {
+  slots.forEach((slot, index) => {
+    slots
+      .slice(index + 1)
+      .filter(
+        (other) =>
+          other.bookingId !== slot.bookingId &&
+          other.busyFrom < slot.busyUntil &&
+          slot.busyFrom < other.busyUntil,
+      )
+      .forEach((other) => {
+        warn(checks, slot.bookingId, `Overlaps with "${other.title}"`);
+        warn(checks, other.bookingId, `Overlaps with "${slot.title}"`);
+      });
+  });
+}
+
+function warn(checks: BookingCheck[], bookingId: string, warning: string) {
+  const check = checks.find((candidate) => candidate.bookingId === bookingId);
+  if (!check.warnings.includes(warning)) {
+    check.warnings.push(warning);
+  }
+}
+
+/** Whether an activity at this time leaves every booked slot untouched */
+export function isFreeOfBookings(
+  date: string,
+  startTime: string,
+  durationHours: number,
+  slots: BookedSlot[],
+): boolean {
+  const start = toWallClock(date, startTime);
+  const end = start + durationHours * 60;
+  return slots.every((slot) => end <= slot.busyFrom || start >= slot.busyUntil);
+}
+
+/** One city of a multi-city trip and the days spent there */
+export interface Stay {
+  name: string;
+  startDate: string;
+  endDate: string;
+}
+
+/**
+ * The bookings a stay's plan is built around: the ones naming its city,
+ * otherwise the ones starting during its dates. A booking before or after
+ * the whole trip goes to the first or last stay, whose plan then flags it
+ * as outside the trip.
+ */
+export function bookingsForStay<T extends BookingInput>(
+  bookings: T[],
+  stays: Stay[],
+  stay: Stay,
+): T[] {
+  const tripStart = stays.map((candidate) => candidate.startDate).sort()[0];
+  const tripEnd = stays
+    .map((candidate) => candidate.endDate)
+    .sort()
+    .reverse()[0];
+  const findStay = (name: string) =>
+    stays.find(
+      (candidate) => candidate.name.toLowerCase() === name.toLowerCase(),
+    );
+
+  return bookings.filter((booking) => {
+    const named = booking.city && findStay(booking.city);
+    if (named) {
+      return named === stay;
+    }
+    const day = booking.startsAt.slice(0, 10);
+    if (day < tripStart) {
+      return stay === stays[0];
+    }
+    if (day > tripEnd) {
+      return stay === stays[stays.length - 1];
+    }
+    const during = stays.find(
+      (candidate) => day >= candidate.startDate && day <= candidate.endDate,
+    );
+    return during === stay;
+  });
+}
@@ -0,0 +1,153 @@
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BudgetService } from './budget.service';
+import { StructuredGenerationService } from './structured-generation.service';
+import { ResponseCacheService } from './response-cache.service';
+import { PromptRegistryService } from './prompt-registry.service';
+import {
+  ExchangeRateService,
+  ExchangeRateTableError,
+} from './exchange-rate.service';
+
+const writeRates = (table: unknown): string => {
+  const filePath = join(mkdtempSync(join(tmpdir(), 'rates-')), 'rates.json');
+  writeFileSync(filePath, JSON.stringify(table));
+  return filePath;
+};
+
+describe('BudgetService', () => {
+  let generate: jest.Mock;
+  let render: jest.Mock;
+  let service: BudgetService;
+
+  beforeEach(() => {
+    generate = jest.fn();
+    render = jest.fn(() => 'prompt');
+    service = new BudgetService(
+      {
+        generate,
+        createMeta: () => ({ build: (source: string) => ({ source }) }),
+      } as unknown as StructuredGenerationService,
+      {
+        getOrCompute: (_lookup: unknown, compute: () => Promise<unknown>) =>
+          compute(),
+      } as unknown as ResponseCacheService,
+      {
+        select: () => ({ feature: 'budget', version: 'v1', id: 'budget-v1' }),
+        render,
+      } as unknown as PromptRegistryService,
+      new ExchangeRateService(
+        writeRates({
+          base: 'EUR',
+          updatedAt: '2026-10-01',
+          rates: { EUR: 1, USD: 1.1 },
+        }),
+      ),
+    );
+  });
+
+  it('should check the model against the baselines and add up the stays', async () => {
+    generate.mockResolvedValueOnce({
+      cities: [
+        {
+          city: 'paris',
+          lodging: 200,
+          food: 500,
+          transport: 10,
+          attractions: 30,
+        },
+        {
+          city: 'Atlantis',
+          lodging: 80,
+          food: 20,
+          transport: 5,
+          attractions: 10,
+        },
+      ],
+    });
+
+    const budget = await service.getBudget({
+      cities: ['Paris', 'Atlantis'],
+      startDate: '2026-05-01',
+      endDate: '2026-05-05',
+      tier: 'mid',
+      travelers: 3,
+      currency: 'USD',
+    });
+
+    expect(render).toHaveBeenCalledWith(
+      expect.anything(),
+      'estimate',
+      expect.objectContaining({ tier: 'mid', currency: 'EUR', duration: 5 }),
+    );
+    const [paris, atlantis] = budget.cities;
+    expect(paris).toMatchObject({ nights: 2, days: 2 });
+    expect(paris.costs).toEqual([
+      { category: 'lodging', daily: 220, total: 880, source: 'model' },
+      {
+        category: 'food',
+        daily: 61,
+        total: 363,
+        source: 'baseline',
+        modelDaily: 550,
+      },
+      { category: 'transport', daily: 11, total: 66, source: 'model' },
+      { category: 'attractions', daily: 33, total: 198, source: 'model' },
+    ]);
+    expect(atlantis).toMatchObject({ nights: 2, days: 3 });
+    expect(atlantis.costs.map((cost) => cost.source)).toEqual([
+      'unchecked',
+      'unchecked',
+      'unchecked',
+      'unchecked',
+    ]);
+    expect(budget.total).toBe(paris.total + atlantis.total);
+    expect(budget.perTraveler).toBe(Math.round(budget.total / 3));
+    expect(budget.exchangeRate).toEqual({
+      base: 'EUR',
+      rate: 1.1,
+      updatedAt: '2026-10-01',
+    });
+    expect(budget.warnings).toEqual([
+      'No baseline for Atlantis; its figures are unchecked model estimates',
+    ]);
+    expect(budget.meta).toEqual({ source: 'ai' });
+  });
+
+  it('should fall back to the tier baselines when the model fails', async () => {
+    generate.mockRejectedValueOnce(new Error('model down'));
+
+    const budget = await service.getBudget({
+      cities: ['Rome', 'Atlantis'],
+      startDate: '2026-05-01',
+      endDate: '2026-05-03',
+      tier: 'luxury',
+      travelers: 1,
+    });
+
+    expect(budget.currency).toBe('EUR');
+    expect(budget.meta).toEqual({ source: 'fallback' });
+    expect(budget.cities[0].costs).toEqual([
+      { category: 'lodging', daily: 450, total: 450, source: 'baseline' },
+      { category: 'food', daily: 113, total: 113, source: 'baseline' },
+      { category: 'transport', daily: 24, total: 24, source: 'baseline' },
+      { category: 'attractions', daily: 60, total: 60, source: 'baseline' },
+    ]);
+    expect(budget.cities[1]).toMatchObject({ costs: [], total: 0 });
+    expect(budget.warnings).toEqual(['No cost data for Atlantis']);
+  });
+
+  it('should refuse a rate table without its base currency', () => {
+    expect(
+      () =>
+        new ExchangeRateService(
+          writeRates({
+            base: 'EUR',
+            updatedAt: '2026-10-01',
+            rates: { USD: 1 },
+          }),
+        ),
+    ).toThrow(ExchangeRateTableError);
+  });
+});
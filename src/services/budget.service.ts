@@ -0,0 +1,298 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { StructuredGenerationService } from './structured-generation.service';
+import { CacheOptions, ResponseCacheService } from './response-cache.service';
+import {
+  PromptOptions,
+  PromptRegistryService,
+  PromptSelection,
+} from './prompt-registry.service';
+import { ResponseMeta, ResponseMetaBuilder } from './response-meta';
+import { ExchangeRateService } from './exchange-rate.service';
+import { splitStays } from './multi-city.service';
+import {
+  BUDGET_ESTIMATE_SCHEMA,
+  BudgetEstimateResponse,
+  BudgetTier,
+  COST_CATEGORIES,
+  CostCategory,
+} from '../schemas/budget.schema';
+import { COST_BASELINES, DailyCosts } from '../data/cost-baselines';
+import { CITY_ALIASES } from '../data/climatology';
+import { countDays } from '../utils/date.utils';
+
+/** How the baselines, which are mid-range, scale for each tier */
+const TIER_FACTORS: Record<BudgetTier, DailyCosts> = {
+  budget: [0.45, 0.5, 0.7, 0.5],
+  mid: [1, 1, 1, 1],
+  luxury: [3, 2.5, 3, 2],
+};
+
+/** A model figure this far from the baseline, either way, is not trusted */
+const MAX_DEVIATION = 2;
+
+/** Travelers sharing one room */
+const PER_ROOM = 2;
+
+export interface BudgetInput extends CacheOptions, PromptOptions {
+  cities: string[];
+  startDate: string;
+  endDate: string;
+  tier: BudgetTier;
+  travelers: number;
+  /** ISO 4217 code the amounts are given in; defaults to the rate table's base */
+  currency?: string;
+}
+
+/**
+ * Where a daily figure comes from: the model's estimate when it is close to
+ * the baseline, the baseline when it is not, or the model's own figure when
+ * there is no baseline to check it against.
+ */
+export type CostSource = 'model' | 'baseline' | 'unchecked';
+
+export interface BudgetCost {
+  category: CostCategory;
+  /** Per room-night for lodging, per person-day for the rest */
+  daily: number;
+  total: number;
+  source: CostSource;
+  /** What the model suggested, when the baseline replaced it */
+  modelDaily?: number;
+}
+
+export interface CityBudget {
+  city: string;
+  nights: number;
+  days: number;
+  costs: BudgetCost[];
+  total: number;
+}
+
+export interface Budget {
+  tier: BudgetTier;
+  travelers: number;
+  currency: string;
+  startDate: string;
+  endDate: string;
+  cities: CityBudget[];
+  total: number;
+  perTraveler: number;
+  exchangeRate: {
+    base: string;
+    rate: number;
+    updatedAt: string;
+  };
+  /** Cities whose figures could not be checked or estimated at all */
+  warnings: string[];
+  meta: ResponseMeta;
+}
+
+/** The model's daily figures in the rate table's base currency, as cached */
+interface BudgetEstimate {
+  cities: { city: string; costs: Partial<Record<CostCategory, number>> }[];
+  meta: ResponseMeta;
+}
+
+/**
+ * Estimates what a trip costs per city. The model suggests daily figures
+ * for the season and tier; each one is checked against a bundled baseline,
+ * then multiplied out over the nights, days and travelers and converted to
+ * the requested currency.
+ */
+@Injectable()
+export class BudgetService {
+  private readonly logger = new Logger(BudgetService.name);
+
+  constructor(
+    private readonly structuredGeneration: StructuredGenerationService,
+    private readonly responseCache: ResponseCacheService,
+    private readonly promptRegistry: PromptRegistryService,
+    private readonly exchangeRates: ExchangeRateService,
+  ) {}
+
+  async getBudget(input: BudgetInput): Promise<Budget> {
+    const { base, updatedAt } = this.exchangeRates.getTable();
+    const currency = input.currency ?? base;
+    const rate = this.exchangeRates.getRate(base, currency);
+    const estimate = await this.getEstimate(input, base);
+    const warnings: string[] = [];
+
+    const stays = splitStays(input.cities, input.startDate, input.endDate);
+    const cities = stays.map((stay, index) => {
+      const nights = countDays(stay.startDate, stay.endDate) - 1;
+      // The last city also pays for the day the travelers leave
+      const days = index === stays.length - 1 ? nights + 1 : nights;
+      const baseline = this.findBaseline(stay.name, input.tier);
+      const suggested = estimate.cities[index].costs;
+
+      if (!baseline && Object.keys(suggested).length === 0) {
+        warnings.push(`No cost data for ${stay.name}`);
+      } else if (!baseline) {
+        warnings.push(
+          `No baseline for ${stay.name}; its figures are unchecked model estimates`,
+        );
+      }
+
+      const costs = COST_CATEGORIES.map((category, position) =>
+        this.checkCost(category, suggested[category], baseline?.[position]),
+      )
+        .filter((cost) => cost !== undefined)
+        .map(({ category, daily, source, modelDaily }): BudgetCost => {
+          const units =
+            category === 'lodging'
+              ? nights * Math.ceil(input.travelers / PER_ROOM)
+              : days * input.travelers;
+          return {
+            category,
+            daily: Math.round(daily * rate),
+            total: Math.round(daily * rate * units),
+            source,
+            ...(modelDaily !== undefined && {
+              modelDaily: Math.round(modelDaily * rate),
+            }),
+          };
+        });
+
+      return {
+        city: stay.name,
+        nights,
+        days,
+        costs,
+        total: costs.reduce((sum, cost) => sum + cost.total, 0),
+      };
+    });
+
+    const total = cities.reduce((sum, city) => sum + city.total, 0);
+    return {
+      tier: input.tier,
+      travelers: input.travelers,
+      currency,
+      startDate: input.startDate,
+      endDate: input.endDate,
+      cities,
+      total,
+      perTraveler: Math.round(total / input.travelers),
+      exchangeRate: { base, rate, updatedAt },
+      warnings,
+      meta: estimate.meta,
+    };
+  }
+
+  private async getEstimate(
+    input: BudgetInput,
+    currency: string,
+  ): Promise<BudgetEstimate> {
+    const prompt = this.promptRegistry.select('budget', input.promptVersion);
+    const meta = this.structuredGeneration.createMeta(prompt.id, 'budget');
+
+    try {
+      return await this.responseCache.getOrCompute(
+        {
+          namespace: 'budget',
+          inputs: {
+            cities: input.cities,
+            startDate: input.startDate,
+            endDate: input.endDate,
+            tier: input.tier,
+            currency,
+          },
+          promptVersion: prompt.id,
+          mode: input.cache,
+        },
+        () => this.generateEstimate(input, currency, prompt, meta),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Error estimating costs for ${input.cities.join(', ')}:`,
+        error instanceof Error ? error.message : error,
+      );
+      return {
+        cities: input.cities.map((city) => ({ city, costs: {} })),
+        meta: meta.build('fallback'),
+      };
+    }
+  }
+
+  private async generateEstimate(
+    input: BudgetInput,
+    currency: string,
+    prompt: PromptSelection,
+    meta: ResponseMetaBuilder,
+  ): Promise<BudgetEstimate> {
+    const estimatePrompt = this.promptRegistry.render(prompt, 'estimate', {
+      cities: input.cities.join(', '),
+      startDate: input.startDate,
+      endDate: input.endDate,
+      duration: countDays(input.startDate, input.endDate),
+      tier: input.tier,
+      currency,
+    });
+
+    const response =
+      await this.structuredGeneration.generate<BudgetEstimateResponse>(
+        estimatePrompt,
+        BUDGET_ESTIMATE_SCHEMA,
+        { feature: 'budget', meta },
+      );
+
+    const cities = input.cities.map((city, index) => {
+      const suggested =
+        response.cities.find(
+          (item) => item.city.toLowerCase() === city.toLowerCase(),
+        ) ?? response.cities[index];
+      const costs: Partial<Record<CostCategory, number>> = {};
+      COST_CATEGORIES.forEach((category) => {
+        const amount = suggested?.[category];
+        if (typeof amount === 'number' && Number.isFinite(amount)) {
+          costs[category] = amount;
+        }
+      });
+      return { city, costs };
+    });
+
+    return { cities, meta: meta.build('ai') };
+  }
+
+  private checkCost(
+    category: CostCategory,
+    suggested: number | undefined,
+    baseline: number | undefined,
+  ):
+    | {
+        category: CostCategory;
+        daily: number;
+        source: CostSource;
+        modelDaily?: number;
+      }
+    | undefined {
+    if (baseline === undefined) {
+      return suggested === undefined
+        ? undefined
+        : { category, daily: suggested, source: 'unchecked' };
+    }
+    if (suggested === undefined) {
+      return { category, daily: baseline, source: 'baseline' };
+    }
+    if (
+      suggested < baseline / MAX_DEVIATION ||
+      suggested > baseline * MAX_DEVIATION
+    ) {
+      return {
+        category,
+        daily: baseline,
+        source: 'baseline',
+        modelDaily: suggested,
+      };
+    }
+    return { category, daily: suggested, source: 'model' };
+  }
+
+  private findBaseline(city: string, tier: BudgetTier): DailyCosts | undefined {
+    // "Paris, France" -> "paris"
+    const name = city.split(',')[0].trim().toLowerCase();
+    const baseline = COST_BASELINES[CITY_ALIASES[name] || name];
+    return baseline?.map(
+      (amount, position) => amount * TIER_FACTORS[tier][position],
+    ) as DailyCosts | undefined;
+  }
+}
@@ -0,0 +1,9 @@
+import { CacheStore, MemoryCacheStore } from './cache-store';
+import { FileCacheStore } from './file-cache-store';
+import { ResponseCacheConfig } from '../config/app-config';
+
+export function createCacheStore(config: ResponseCacheConfig): CacheStore {
+  return config.store === 'file'
+    ? new FileCacheStore(config.filePath)
+    : new MemoryCacheStore();
+}
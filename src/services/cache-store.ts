@@ -0,0 +1,52 @@
+export interface CacheEntry<T = unknown> {
+  namespace: string;
+  /** Normalized city names the entry belongs to, used for invalidation */
+  cities: string[];
+  value: T;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export type CacheStoreType = 'memory' | 'file';
+
+export abstract class CacheStore {
+  abstract readonly type: CacheStoreType;
+
+  abstract get(key: string): Promise<CacheEntry | undefined>;
+
+  abstract set(key: string, entry: CacheEntry): Promise<void>;
+
+  abstract delete(keys: string[]): Promise<void>;
+
+  abstract entries(): Promise<[string, CacheEntry][]>;
+}
+
+export class MemoryCacheStore extends CacheStore {
+  readonly type = 'memory';
+  private readonly store = new Map<string, CacheEntry>();
+
+  get(key: string): Promise<CacheEntry | undefined> {
+    return Promise.resolve(this.store.get(key));
+  }
+
+  /** Drops expired entries first, so keys never read again do not pile up */
+  set(key: string, entry: CacheEntry): Promise<void> {
+    const now = Date.now();
+    for (const [storedKey, { expiresAt }] of this.store) {
+      if (expiresAt <= now) {
+        this.store.delete(storedKey);
+      }
+    }
+    this.store.set(key, entry);
+    return Promise.resolve();
+  }
+
+  delete(keys: string[]): Promise<void> {
+    keys.forEach((key) => this.store.delete(key));
+    return Promise.resolve();
+  }
+
+  entries(): Promise<[string, CacheEntry][]> {
+    return Promise.resolve([...this.store.entries()]);
+  }
+}
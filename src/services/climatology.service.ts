@@ -0,0 +1,61 @@
+import { Injectable } from '@nestjs/common';
+import { DailyWeatherRecord } from './weather-data-provider';
+import { CITY_ALIASES, CLIMATOLOGY, MonthlyClimate } from '../data/climatology';
+import { WeatherCondition } from '../schemas/weather.schema';
+
+/**
+ * Serves long-term monthly averages from the bundled climatology table for
+ * dates a forecast cannot reach.
+ */
+@Injectable()
+export class ClimatologyService {
+  hasCity(city: string): boolean {
+    return this.findCity(city) !== undefined;
+  }
+
+  getDailyWeather(city: string, dates: string[]): DailyWeatherRecord[] {
+    const months = this.findCity(city);
+    if (!months) {
+      return [];
+    }
+
+    return dates.map((date) => {
+      const [minTemperature, maxTemperature, rainProbability] =
+        months[new Date(date).getUTCMonth()];
+
+      return {
+        date,
+        minTemperature,
+        maxTemperature,
+        condition: this.toCondition(maxTemperature, rainProbability),
+        rainProbability,
+        source: 'climatology',
+      };
+    });
+  }
+
+  private findCity(city: string): MonthlyClimate[] | undefined {
+    // "Paris, France" -> "paris"
+    const name = city.split(',')[0].trim().toLowerCase();
+    return CLIMATOLOGY[CITY_ALIASES[name] || name];
+  }
+
+  private toCondition(
+    maxTemperature: number,
+    rainProbability: number,
+  ): WeatherCondition {
+    if (maxTemperature <= 2 && rainProbability >= 35) {
+      return 'snow';
+    }
+    if (rainProbability >= 50) {
+      return 'rainy';
+    }
+    if (rainProbability >= 35) {
+      return 'cloudy';
+    }
+    if (rainProbability >= 15) {
+      return 'partly-cloudy';
+    }
+    return 'sunny';
+  }
+}
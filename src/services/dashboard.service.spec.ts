@@ -0,0 +1,167 @@
+import { DashboardService } from './dashboard.service';
+import { WeatherService } from './weather.service';
+import { RecommendationService } from './recommendation.service';
+import { LlmQueue } from './llm-queue';
+
+describe('DashboardService', () => {
+  let inFlight: number;
+  let maxInFlight: number;
+  let queue: LlmQueue;
+
+  /** Resolves with `value` after `ms`, counting how many run at once */
+  const slow = <T>(value: T, ms: number) =>
+    jest.fn(async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      inFlight--;
+      return value;
+    });
+
+  const createService = (
+    services: {
+      getWeatherData: jest.Mock;
+      getTripPlan: jest.Mock;
+      getMoneySavingTips: jest.Mock;
+    },
+    concurrency: number,
+  ) =>
+    new DashboardService(
+      {
+        getWeatherData: services.getWeatherData,
+      } as unknown as WeatherService,
+      {
+        getTripPlan: services.getTripPlan,
+        getMoneySavingTips: services.getMoneySavingTips,
+      } as unknown as RecommendationService,
+      queue,
+      { concurrency, sectionTimeoutMs: 50 },
+    );
+
+  const input = {
+    city: 'Rome',
+    startDate: '2026-06-01',
+    endDate: '2026-06-03',
+    trip: 'food tour',
+    locale: 'es',
+  };
+
+  beforeEach(() => {
+    inFlight = 0;
+    maxInFlight = 0;
+    queue = new LlmQueue(2);
+  });
+
+  it('should run the sections within the concurrency limit', async () => {
+    const services = {
+      getWeatherData: slow({ meta: { source: 'ai' } }, 10),
+      getTripPlan: slow({ meta: { source: 'cache' } }, 10),
+      getMoneySavingTips: slow({ meta: { source: 'fallback' } }, 10),
+    };
+
+    const dashboard = await createService(services, 2).getDashboard(input);
+
+    expect(maxInFlight).toBe(2);
+    expect(dashboard.weather.status).toBe('ok');
+    expect(dashboard.tripPlan.status).toBe('ok');
+    expect(dashboard.moneySavingTips).toMatchObject({
+      status: 'fallback',
+      data: { meta: { source: 'fallback' } },
+    });
+    expect(services.getMoneySavingTips).toHaveBeenCalledWith(
+      ['Rome'],
+      '2026-06-01',
+      '2026-06-03',
+      'food tour',
+      { cache: undefined, locale: 'es' },
+    );
+  });
+
+  it('should report a slow or failing section without failing the others', async () => {
+    const services = {
+      getWeatherData: slow({ meta: { source: 'ai' } }, 200),
+      getTripPlan: jest.fn().mockRejectedValue(new Error('model down')),
+      getMoneySavingTips: slow({ meta: { source: 'ai' } }, 5),
+    };
+
+    const dashboard = await createService(services, 1).getDashboard(input);
+
+    expect(dashboard.weather).toMatchObject({
+      status: 'timeout',
+      data: null,
+      error: 'Timed out after 50 ms',
+    });
+    expect(dashboard.tripPlan).toMatchObject({
+      status: 'error',
+      data: null,
+      error: 'model down',
+    });
+    expect(dashboard.moneySavingTips).toMatchObject({
+      status: 'ok',
+      data: { meta: { source: 'ai' } },
+    });
+  });
+
+  it('should abort the LLM calls of a section that timed out', async () => {
+    let signal: AbortSignal | undefined;
+    const services = {
+      getWeatherData: jest.fn(() => {
+        signal = queue.getContext()?.signal;
+        return new Promise(() => undefined);
+      }),
+      getTripPlan: slow({ meta: { source: 'ai' } }, 5),
+      getMoneySavingTips: slow({ meta: { source: 'ai' } }, 5),
+    };
+
+    const dashboard = await createService(services, 3).getDashboard(input);
+
+    expect(dashboard.weather.status).toBe('timeout');
+    expect(signal?.aborted).toBe(true);
+    expect(dashboard.tripPlan.status).toBe('ok');
+  });
+
+  it('should plan a weather-aware trip around the weather section', async () => {
+    const weather = { summary: 'sunny', meta: { source: 'ai' } };
+    const services = {
+      getWeatherData: slow(weather, 5),
+      getTripPlan: slow({ meta: { source: 'ai' } }, 5),
+      getMoneySavingTips: slow({ meta: { source: 'ai' } }, 5),
+    };
+
+    await createService(services, 3).getDashboard({
+      ...input,
+      weatherAware: true,
+    });
+
+    expect(services.getWeatherData).toHaveBeenCalledTimes(1);
+    expect(services.getTripPlan).toHaveBeenCalledWith(
+      'Rome',
+      '2026-06-01',
+      '2026-06-03',
+      'food tour',
+      { cache: undefined, locale: 'es', weatherAware: true, weather },
+    );
+  });
+
+  it('should plan a weather-aware trip without a forecast when the weather falls back', async () => {
+    const services = {
+      getWeatherData: slow({ meta: { source: 'fallback' } }, 5),
+      getTripPlan: slow({ meta: { source: 'ai' } }, 5),
+      getMoneySavingTips: slow({ meta: { source: 'ai' } }, 5),
+    };
+
+    const dashboard = await createService(services, 3).getDashboard({
+      ...input,
+      weatherAware: true,
+    });
+
+    expect(dashboard.weather.status).toBe('fallback');
+    expect(services.getTripPlan).toHaveBeenCalledWith(
+      'Rome',
+      '2026-06-01',
+      '2026-06-03',
+      'food tour',
+      { cache: undefined, locale: 'es', weatherAware: true, weather: null },
+    );
+  });
+});
@@ -0,0 +1,172 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { WeatherData, WeatherService } from './weather.service';
+import {
+  MoneySavingTips,
+  RecommendationService,
+  TripPlanData,
+} from './recommendation.service';
+import { CacheOptions } from './response-cache.service';
+import { ResponseMeta } from './response-meta';
+import { LlmCallContext, LlmQueue } from './llm-queue';
+import { LocaleOptions } from '../i18n/locale';
+import {
+  TimeoutError,
+  createLimiter,
+  withTimeout,
+} from '../utils/concurrency.utils';
+
+export interface DashboardInput extends CacheOptions, LocaleOptions {
+  city: string;
+  startDate: string;
+  endDate: string;
+  trip: string;
+  weatherAware?: boolean;
+}
+
+export interface DashboardOptions {
+  /** Sections generated at the same time */
+  concurrency: number;
+  sectionTimeoutMs: number;
+}
+
+/**
+ * `fallback` sections still carry the placeholder data the endpoint itself
+ * would have returned; `timeout` and `error` sections carry none.
+ */
+export type DashboardSectionStatus = 'ok' | 'fallback' | 'timeout' | 'error';
+
+export interface DashboardSection<T> {
+  status: DashboardSectionStatus;
+  data: T | null;
+  /** Time spent generating, not waiting for a free slot */
+  durationMs: number;
+  error?: string;
+}
+
+export interface Dashboard {
+  city: string;
+  startDate: string;
+  endDate: string;
+  trip: string;
+  weather: DashboardSection<WeatherData>;
+  tripPlan: DashboardSection<TripPlanData>;
+  moneySavingTips: DashboardSection<MoneySavingTips>;
+}
+
+/**
+ * Everything the trip page shows, in one call. The sections are generated
+ * with bounded concurrency so they do not all compete for the model at
+ * once, and each one has its own timeout: a slow or failed section is
+ * reported as such, and its LLM calls aborted, while the others come back.
+ * A weather-aware trip plan waits for the weather section and plans around
+ * its forecast instead of generating one again, or without a forecast when
+ * that section did not come back `ok`.
+ */
+@Injectable()
+export class DashboardService {
+  private readonly logger = new Logger(DashboardService.name);
+
+  constructor(
+    private readonly weatherService: WeatherService,
+    private readonly recommendationService: RecommendationService,
+    private readonly llmQueue: LlmQueue,
+    private readonly options: DashboardOptions,
+  ) {}
+
+  async getDashboard(input: DashboardInput): Promise<Dashboard> {
+    const { city, startDate, endDate, trip, cache, locale } = input;
+
+    const limit = createLimiter(this.options.concurrency);
+
+    const weatherSection = limit(() =>
+      this.runSection('weather', () =>
+        this.weatherService.getWeatherData(city, startDate, endDate, trip, {
+          cache,
+          locale,
+        }),
+      ),
+    );
+    const planTripPlan = (weather?: WeatherData | null) =>
+      limit(() =>
+        this.runSection('tripPlan', () =>
+          this.recommendationService.getTripPlan(
+            city,
+            startDate,
+            endDate,
+            trip,
+            { cache, locale, weatherAware: input.weatherAware, weather },
+          ),
+        ),
+      );
+
+    const [weather, tripPlan, moneySavingTips] = await Promise.all([
+      weatherSection,
+      input.weatherAware
+        ? weatherSection.then((section) =>
+            // A fallback forecast is placeholder weather, not something to plan around
+            planTripPlan(section.status === 'ok' ? section.data : null),
+          )
+        : planTripPlan(),
+      limit(() =>
+        this.runSection('moneySavingTips', () =>
+          this.recommendationService.getMoneySavingTips(
+            [city],
+            startDate,
+            endDate,
+            trip,
+            { cache, locale },
+          ),
+        ),
+      ),
+    ]);
+
+    return {
+      city,
+      startDate,
+      endDate,
+      trip,
+      weather,
+      tripPlan,
+      moneySavingTips,
+    };
+  }
+
+  private async runSection<T extends { meta: ResponseMeta }>(
+    name: string,
+    generate: () => Promise<T>,
+  ): Promise<DashboardSection<T>> {
+    const startedAt = Date.now();
+    const durationMs = () => Date.now() - startedAt;
+    const controller = new AbortController();
+    const outer = this.llmQueue.getContext();
+    const context: LlmCallContext = {
+      priority: outer?.priority ?? 'interactive',
+      signal: outer?.signal
+        ? AbortSignal.any([outer.signal, controller.signal])
+        : controller.signal,
+    };
+    try {
+      const data = await withTimeout(
+        this.llmQueue.run(context, generate),
+        this.options.sectionTimeoutMs,
+      );
+      return {
+        status: data.meta.source === 'fallback' ? 'fallback' : 'ok',
+        data,
+        durationMs: durationMs(),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (error instanceof TimeoutError) {
+        controller.abort(error);
+      }
+      this.logger.warn(`Dashboard section ${name} failed: ${message}`);
+      return {
+        status: error instanceof TimeoutError ? 'timeout' : 'error',
+        data: null,
+        durationMs: durationMs(),
+        error: message,
+      };
+    }
+  }
+}
@@ -0,0 +1,102 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { readFileSync } from 'fs';
+
+const CURRENCY = /^[A-Z]{3}$/;
+
+export interface ExchangeRateTable {
+  /** Currency every rate is quoted against, e.g. `EUR` */
+  base: string;
+  /** When the rates were last updated, e.g. `2026-10-01` */
+  updatedAt: string;
+  /** Units of each currency per one unit of the base currency */
+  rates: Record<string, number>;
+}
+
+export class ExchangeRateTableError extends Error {
+  constructor(readonly problems: string[]) {
+    super(
+      `Invalid exchange rate table:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`,
+    );
+    this.name = 'ExchangeRateTableError';
+  }
+}
+
+/**
+ * Converts amounts using a bundled table of exchange rates. The table is a
+ * plain JSON file so it can be updated without a release.
+ */
+@Injectable()
+export class ExchangeRateService {
+  private readonly logger = new Logger(ExchangeRateService.name);
+  private table: ExchangeRateTable;
+
+  constructor(private readonly filePath: string) {
+    this.table = this.load();
+  }
+
+  /** Re-reads the table; the current one stays active if the file is invalid */
+  reload(): ExchangeRateTable {
+    this.table = this.load();
+    this.logger.log(`Reloaded exchange rates from ${this.filePath}`);
+    return this.table;
+  }
+
+  getTable(): ExchangeRateTable {
+    return this.table;
+  }
+
+  hasCurrency(currency: string): boolean {
+    return currency in this.table.rates;
+  }
+
+  /** Units of `to` per one unit of `from` */
+  getRate(from: string, to: string): number {
+    const { rates } = this.table;
+    if (!(from in rates) || !(to in rates)) {
+      throw new Error(`No exchange rate from ${from} to ${to}`);
+    }
+    return rates[to] / rates[from];
+  }
+
+  convert(amount: number, from: string, to: string): number {
+    return amount * this.getRate(from, to);
+  }
+
+  private load(): ExchangeRateTable {
+    let table: ExchangeRateTable;
+    try {
+      table = JSON.parse(
+        readFileSync(this.filePath, 'utf8'),
+      ) as ExchangeRateTable;
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new ExchangeRateTableError([`${this.filePath}: ${reason}`]);
+    }
+
+    const problems: string[] = [];
+    const rates = table.rates ?? {};
+    if (typeof table.base !== 'string' || rates[table.base] !== 1) {
+      problems.push(`base currency "${table.base}" must have a rate of 1`);
+    }
+    if (typeof table.updatedAt !== 'string') {
+      problems.push('updatedAt must be a date, e.g. 2026-10-01');
+    }
+    Object.entries(rates)
+      .filter(
+        ([currency, rate]) =>
+          !CURRENCY.test(currency) || typeof rate !== 'number' || !(rate > 0),
+      )
+      .forEach(([currency]) =>
+        problems.push(
+          `${currency}: must be an ISO 4217 code with a positive rate`,
+        ),
+      );
+
+    if (problems.length > 0) {
+      throw new ExchangeRateTableError(
+        problems.map((problem) => `${this.filePath}: ${problem}`),
+      );
+    }
+    return table;
+  }
+}
@@ -0,0 +1,137 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  LlmChatMessage,
+  LlmGenerateOptions,
+  LlmGeneration,
+  LlmHealth,
+  LlmModel,
+  LlmProvider,
+  LlmPullProgress,
+  LlmStreamChunk,
+  LlmUsage,
+} from './llm-provider';
+import { JsonSchema } from '../schemas/json-schema';
+
+const FAKE_MODEL = 'fake-llm';
+
+/**
+ * Deterministic in-process provider for local development and tests.
+ * It never touches the network and always returns the same output for
+ * the same prompt: a sample document built from the requested schema, or
+ * a fixed acknowledgement for free-text prompts.
+ */
+@Injectable()
+export class FakeLlmService extends LlmProvider {
+  readonly type = 'fake';
+  private readonly logger = new Logger(FakeLlmService.name);
+  private model = FAKE_MODEL;
+  private readonly installedModels = new Set([FAKE_MODEL]);
+
+  generate(
+    prompt: string,
+    options: LlmGenerateOptions = {},
+  ): Promise<LlmGeneration> {
+    this.logger.debug(`Generating fake response for prompt: ${prompt}`);
+    const text = this.respond(options);
+    return Promise.resolve({
+      text,
+      model: options.model || this.model,
+      usage: this.countTokens(prompt, text),
+    });
+  }
+
+  chat(
+    messages: LlmChatMessage[],
+    options: LlmGenerateOptions = {},
+  ): Promise<LlmGeneration> {
+    return this.generate(
+      messages.map((message) => message.content).join('\n'),
+      options,
+    );
+  }
+
+  async *generateStream(
+    prompt: string,
+    options: LlmGenerateOptions = {},
+  ): AsyncGenerator<LlmStreamChunk> {
+    const text = this.respond(options);
+    // Emit word by word so clients exercise the same path as a real stream
+    for (const token of text.split(/(?<=\s)/)) {
+      yield await Promise.resolve({ text: token });
+    }
+    yield { text: '', usage: this.countTokens(prompt, text) };
+  }
+
+  listModels(): Promise<LlmModel[]> {
+    return Promise.resolve([...this.installedModels].map((name) => ({ name })));
+  }
+
+  /** Pretends to download the model in a few steps, then installs it */
+  async *pullModel(name: string): AsyncGenerator<LlmPullProgress> {
+    yield await Promise.resolve({ status: 'pulling manifest' });
+    for (const completed of [0, 50, 100]) {
+      yield { status: `pulling ${name}`, total: 100, completed };
+    }
+    this.installedModels.add(name);
+    yield { status: 'success' };
+  }
+
+  checkHealth(): Promise<LlmHealth> {
+    return Promise.resolve({ reachable: true, version: 'fake' });
+  }
+
+  switchModel(newModel: string): Promise<boolean> {
+    this.model = newModel;
+    this.installedModels.add(newModel);
+    return Promise.resolve(true);
+  }
+
+  getCurrentModel(): string {
+    return this.model;
+  }
+
+  /** Whitespace-separated words stand in for tokens */
+  private countTokens(prompt: string, text: string): LlmUsage {
+    const count = (value: string) => value.split(/\s+/).filter(Boolean).length;
+    return { promptEvalCount: count(prompt), evalCount: count(text) };
+  }
+
+  private respond(options: LlmGenerateOptions): string {
+    if (!options.format) {
+      return 'OK';
+    }
+    return JSON.stringify(this.buildSample(options.format, 'value'), null, 2);
+  }
+
+  private buildSample(schema: JsonSchema, key: string): unknown {
+    if (schema.enum) {
+      return schema.enum[0];
+    }
+
+    switch (schema.type) {
+      case 'object':
+        return Object.fromEntries(
+          Object.entries(schema.properties || {}).map(
+            ([propertyKey, propertySchema]) => [
+              propertyKey,
+              this.buildSample(propertySchema, propertyKey),
+            ],
+          ),
+        );
+      case 'array':
+        return Array.from({ length: Math.max(schema.minItems ?? 1, 1) }, () =>
+          this.buildSample(schema.items || { type: 'string' }, key),
+        );
+      case 'number':
+      case 'integer':
+        return schema.minimum !== undefined && schema.maximum !== undefined
+          ? Math.round((schema.minimum + schema.maximum) / 2)
+          : (schema.minimum ?? schema.maximum ?? 20);
+      case 'boolean':
+        return false;
+      case 'string':
+      default:
+        return `Sample ${key}`;
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { Logger } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { ApiKeyRecord, ApiKeyStore } from './api-key-store';
+
+/**
+ * Keeps API keys in a single JSON file, read once and rewritten atomically
+ * on every change like the file trip store. Only key hashes are written.
+ */
+export class FileApiKeyStore extends ApiKeyStore {
+  readonly type = 'file';
+  private readonly logger = new Logger(FileApiKeyStore.name);
+  private store?: Map<string, ApiKeyRecord>;
+  private loading?: Promise<Map<string, ApiKeyRecord>>;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  async list(): Promise<ApiKeyRecord[]> {
+    return [...(await this.load()).values()];
+  }
+
+  async get(id: string): Promise<ApiKeyRecord | undefined> {
+    return (await this.load()).get(id);
+  }
+
+  async save(record: ApiKeyRecord): Promise<void> {
+    (await this.load()).set(record.id, record);
+    await this.persist();
+  }
+
+  /** One read shared by every caller; after a failed read the next call retries */
+  private load(): Promise<Map<string, ApiKeyRecord>> {
+    this.loading ??= this.read().catch((error: unknown) => {
+      this.loading = undefined;
+      throw error;
+    });
+    return this.loading;
+  }
+
+  private async read(): Promise<Map<string, ApiKeyRecord>> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf8');
+      this.store = new Map(
+        Object.entries(JSON.parse(content) as Record<string, ApiKeyRecord>),
+      );
+      this.logger.log(
+        `Loaded ${this.store.size} API keys from ${this.filePath}`,
+      );
+    } catch (error) {
+      const { code, message } = error as NodeJS.ErrnoException;
+      if (code !== 'ENOENT') {
+        // Starting empty would overwrite the file on the next save
+        throw new Error(
+          `Could not read API keys file ${this.filePath}: ${message}`,
+        );
+      }
+      this.store = new Map();
+    }
+    return this.store;
+  }
+
+  private persist(): Promise<void> {
+    // Serialize writes so a slow write never overwrites a newer one
+    this.writeQueue = this.writeQueue.then(async () => {
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.mkdir(dirname(this.filePath), { recursive: true });
+      await fs.writeFile(
+        tempPath,
+        JSON.stringify(Object.fromEntries(this.store ?? new Map())),
+        { encoding: 'utf8', mode: 0o600 },
+      );
+      await fs.rename(tempPath, this.filePath);
+    });
+    // Keep the queue usable after a failed write, but report the failure
+    const write = this.writeQueue;
+    this.writeQueue = write.catch((error: Error) =>
+      this.logger.error(
+        `Could not write API keys file ${this.filePath}:`,
+        error.message,
+      ),
+    );
+    return write;
+  }
+}
@@ -0,0 +1,100 @@
+import { Logger } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { CacheEntry, CacheStore } from './cache-store';
+
+/**
+ * Keeps cache entries in a single JSON file so they survive restarts.
+ * The file is read once, then every change rewrites it atomically without
+ * the entries that have expired.
+ */
+export class FileCacheStore extends CacheStore {
+  readonly type = 'file';
+  private readonly logger = new Logger(FileCacheStore.name);
+  private store?: Map<string, CacheEntry>;
+  private loading?: Promise<Map<string, CacheEntry>>;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    return (await this.load()).get(key);
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    (await this.load()).set(key, entry);
+    await this.persist();
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    const store = await this.load();
+    keys.forEach((key) => store.delete(key));
+    await this.persist();
+  }
+
+  async entries(): Promise<[string, CacheEntry][]> {
+    return [...(await this.load()).entries()];
+  }
+
+  /** Reads the file only once, even when the first calls come together */
+  private load(): Promise<Map<string, CacheEntry>> {
+    this.loading ??= this.read();
+    return this.loading;
+  }
+
+  private async read(): Promise<Map<string, CacheEntry>> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf8');
+      const now = Date.now();
+      const entries = Object.entries(
+        JSON.parse(content) as Record<string, CacheEntry>,
+      ).filter(([, entry]) => entry.expiresAt > now);
+      this.store = new Map(entries);
+      this.logger.log(
+        `Loaded ${this.store.size} cache entries from ${this.filePath}`,
+      );
+    } catch (error) {
+      const { code, message } = error as NodeJS.ErrnoException;
+      if (code !== 'ENOENT') {
+        this.logger.error(
+          `Could not read cache file ${this.filePath}:`,
+          message,
+        );
+      }
+      this.store = new Map();
+    }
+    return this.store;
+  }
+
+  private persist(): Promise<void> {
+    // Serialize writes so a slow write never overwrites a newer one
+    this.writeQueue = this.writeQueue.then(async () => {
+      const store = this.store ?? new Map<string, CacheEntry>();
+      // Entries never read again would otherwise be rewritten until a restart
+      const now = Date.now();
+      for (const [key, { expiresAt }] of store) {
+        if (expiresAt <= now) {
+          store.delete(key);
+        }
+      }
+      const tempPath = `${this.filePath}.tmp`;
+      try {
+        await fs.mkdir(dirname(this.filePath), { recursive: true });
+        await fs.writeFile(
+          tempPath,
+          JSON.stringify(Object.fromEntries(store)),
+          'utf8',
+        );
+        await fs.rename(tempPath, this.filePath);
+      } catch (error) {
+        this.logger.error(
+          `Could not write cache file ${this.filePath}:`,
+          (error as Error).message,
+        );
+      }
+    });
+    return this.writeQueue;
+  }
+}
@@ -0,0 +1,96 @@
+import { Logger } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { Trip, TripStore } from './trip-store';
+
+/**
+ * Keeps trips in a single JSON file. The file is read once, then every
+ * change rewrites it atomically, like the file cache store.
+ */
+export class FileTripStore extends TripStore {
+  readonly type = 'file';
+  private readonly logger = new Logger(FileTripStore.name);
+  private store?: Map<string, Trip>;
+  private loading?: Promise<Map<string, Trip>>;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  async list(): Promise<Trip[]> {
+    return [...(await this.load()).values()];
+  }
+
+  async get(id: string): Promise<Trip | undefined> {
+    return (await this.load()).get(id);
+  }
+
+  async save(trip: Trip): Promise<void> {
+    (await this.load()).set(trip.id, trip);
+    await this.persist();
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const deleted = (await this.load()).delete(id);
+    if (deleted) {
+      await this.persist();
+    }
+    return deleted;
+  }
+
+  /**
+   * Reads the file only once, even when the first calls come together. A
+   * failed read is tried again on the next call.
+   */
+  private load(): Promise<Map<string, Trip>> {
+    this.loading ??= this.read().catch((error: unknown) => {
+      this.loading = undefined;
+      throw error;
+    });
+    return this.loading;
+  }
+
+  private async read(): Promise<Map<string, Trip>> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf8');
+      this.store = new Map(
+        Object.entries(JSON.parse(content) as Record<string, Trip>),
+      );
+      this.logger.log(`Loaded ${this.store.size} trips from ${this.filePath}`);
+    } catch (error) {
+      const { code, message } = error as NodeJS.ErrnoException;
+      if (code !== 'ENOENT') {
+        // Starting empty would overwrite the file on the next save
+        throw new Error(
+          `Could not read trips file ${this.filePath}: ${message}`,
+        );
+      }
+      this.store = new Map();
+    }
+    return this.store;
+  }
+
+  private persist(): Promise<void> {
+    // Serialize writes so a slow write never overwrites a newer one
+    this.writeQueue = this.writeQueue.then(async () => {
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.mkdir(dirname(this.filePath), { recursive: true });
+      await fs.writeFile(
+        tempPath,
+        JSON.stringify(Object.fromEntries(this.store ?? new Map())),
+        'utf8',
+      );
+      await fs.rename(tempPath, this.filePath);
+    });
+    // Keep the queue usable after a failed write, but report the failure
+    const write = this.writeQueue;
+    this.writeQueue = write.catch((error: Error) =>
+      this.logger.error(
+        `Could not write trips file ${this.filePath}:`,
+        error.message,
+      ),
+    );
+    return write;
+  }
+}
@@ -0,0 +1,74 @@
+import { FakeLlmService } from './fake-llm.service';
+import { HealthService } from './health.service';
+import { LlmStartupMode } from './llm-provider';
+import { ModelPullService } from './model-pull.service';
+import { ModelSelectionService } from './model-selection.service';
+import { StructuredGenerationService } from './structured-generation.service';
+
+describe('HealthService', () => {
+  let llmProvider: FakeLlmService;
+  let modelPull: ModelPullService;
+
+  const createService = (
+    startupMode: LlmStartupMode,
+    featureModels = {},
+  ): HealthService => {
+    const modelSelection = new ModelSelectionService(
+      llmProvider,
+      featureModels,
+    );
+    return new HealthService(
+      llmProvider,
+      modelSelection,
+      new StructuredGenerationService(llmProvider, modelSelection),
+      modelPull,
+      startupMode,
+    );
+  };
+
+  beforeEach(() => {
+    llmProvider = new FakeLlmService();
+    modelPull = new ModelPullService(llmProvider);
+  });
+
+  it('should be ready when every configured model is installed', async () => {
+    const readiness = await createService('warn').checkReadiness();
+
+    expect(readiness).toMatchObject({
+      ready: true,
+      provider: 'fake',
+      lastSuccessfulGenerationAt: null,
+    });
+    expect(readiness.models.every((model) => model.installed)).toBe(true);
+  });
+
+  it('should not be ready when a feature model is missing', async () => {
+    const readiness = await createService('warn', {
+      weather: 'missing',
+    }).checkReadiness();
+
+    expect(readiness.ready).toBe(false);
+    expect(readiness.models).toContainEqual({
+      name: 'missing',
+      installed: false,
+    });
+  });
+
+  it('should stop startup in fail-fast mode', async () => {
+    await expect(
+      createService('fail-fast', {
+        weather: 'missing',
+      }).onApplicationBootstrap(),
+    ).rejects.toThrow('missing');
+  });
+
+  it('should pull missing models in auto-pull mode', async () => {
+    const startPull = jest.spyOn(modelPull, 'startPull');
+
+    await createService('auto-pull', {
+      weather: 'missing',
+    }).onApplicationBootstrap();
+
+    expect(startPull).toHaveBeenCalledWith('missing');
+  });
+});
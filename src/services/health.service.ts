@@ -0,0 +1,107 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import {
+  LlmHealth,
+  LlmModel,
+  LlmProvider,
+  LlmProviderType,
+  type LlmStartupMode,
+} from './llm-provider';
+import { ModelSelectionService } from './model-selection.service';
+import { ModelPullService } from './model-pull.service';
+import { StructuredGenerationService } from './structured-generation.service';
+
+export interface ModelReadiness {
+  name: string;
+  installed: boolean;
+}
+
+export interface Readiness {
+  ready: boolean;
+  provider: LlmProviderType;
+  llm: LlmHealth;
+  /** Every model a feature is configured to use */
+  models: ModelReadiness[];
+  lastSuccessfulGenerationAt: string | null;
+}
+
+/**
+ * Reports whether the LLM runtime can serve requests and applies the
+ * configured startup mode once the application has booted.
+ */
+@Injectable()
+export class HealthService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(HealthService.name);
+
+  constructor(
+    private readonly llmProvider: LlmProvider,
+    private readonly modelSelection: ModelSelectionService,
+    private readonly structuredGeneration: StructuredGenerationService,
+    private readonly modelPull: ModelPullService,
+    private readonly startupMode: LlmStartupMode,
+  ) {}
+
+  async onApplicationBootstrap(): Promise<void> {
+    const readiness = await this.checkReadiness();
+    if (readiness.ready) {
+      this.logger.log(
+        `✅ ${readiness.provider} ready with ${readiness.models.map((model) => model.name).join(', ')}`,
+      );
+      return;
+    }
+
+    const problem = this.describe(readiness);
+    if (this.startupMode === 'fail-fast') {
+      throw new Error(`LLM provider not ready: ${problem}`);
+    }
+
+    this.logger.warn(`LLM provider not ready: ${problem}`);
+    if (this.startupMode === 'auto-pull' && readiness.llm.reachable) {
+      readiness.models
+        .filter((model) => !model.installed)
+        .forEach((model) => {
+          this.logger.log(`📥 Pulling missing model ${model.name}`);
+          this.modelPull.startPull(model.name);
+        });
+    }
+  }
+
+  async checkReadiness(): Promise<Readiness> {
+    const llm = await this.llmProvider.checkHealth();
+    const installed = llm.reachable ? await this.llmProvider.listModels() : [];
+    const names = new Set(
+      this.modelSelection.getFeatureModels().map(({ model }) => model),
+    );
+    const models = [...names].map((name) => ({
+      name,
+      installed: this.isInstalled(installed, name),
+    }));
+    const lastSuccess = this.structuredGeneration.getLastSuccessfulGeneration();
+
+    return {
+      ready: llm.reachable && models.every((model) => model.installed),
+      provider: this.llmProvider.type,
+      llm,
+      models,
+      lastSuccessfulGenerationAt: lastSuccess
+        ? lastSuccess.toISOString()
+        : null,
+    };
+  }
+
+  private isInstalled(installed: LlmModel[], name: string): boolean {
+    // Ollama lists "llama3" as "llama3:latest"
+    return installed.some(
+      (model) => model.name === name || model.name === `${name}:latest`,
+    );
+  }
+
+  private describe(readiness: Readiness): string {
+    if (!readiness.llm.reachable) {
+      return `${readiness.provider} is not reachable (${readiness.llm.error})`;
+    }
+    const missing = readiness.models
+      .filter((model) => !model.installed)
+      .map((model) => model.name);
+    return `model(s) not installed: ${missing.join(', ')}`;
+  }
+}
@@ -0,0 +1,91 @@
+import { lastValueFrom, toArray } from 'rxjs';
+import { JobService } from './job.service';
+import { LlmQueue } from './llm-queue';
+
+describe('JobService', () => {
+  let queue: LlmQueue;
+  let service: JobService;
+
+  /** Stands in for a generation making one model call */
+  const generate = (value: string) => async () => {
+    const release = await queue.acquire();
+    release();
+    return value;
+  };
+
+  beforeEach(() => {
+    queue = new LlmQueue(1);
+    service = new JobService(queue, { timeoutMs: 1000, retentionSeconds: 60 });
+  });
+
+  it('should report the job until it succeeds with the result', async () => {
+    const job = service.create('weather', generate('sunny'), {
+      priority: 'prefetch',
+    });
+    const updates = await lastValueFrom(service.watch(job.id).pipe(toArray()));
+
+    expect(updates.map((update) => update.status)).toEqual([
+      'running',
+      'succeeded',
+    ]);
+    expect(service.get(job.id)).toMatchObject({
+      type: 'weather',
+      priority: 'prefetch',
+      status: 'succeeded',
+      result: 'sunny',
+      timeoutMs: 1000,
+    });
+  });
+
+  it('should time out a job still waiting for the model', async () => {
+    const release = await queue.acquire();
+
+    const job = service.create('trip-plan', generate('plan'), {
+      timeoutMs: 20,
+    });
+    await lastValueFrom(service.watch(job.id));
+    release();
+
+    expect(service.get(job.id)).toMatchObject({
+      status: 'timed-out',
+      error: 'Timed out after 20 ms',
+    });
+    expect(service.get(job.id).result).toBeUndefined();
+    expect(queue.getStats()).toMatchObject({ running: 0 });
+  });
+
+  it('should keep a cancelled job cancelled when its generation falls back', async () => {
+    let aborted: AbortSignal | undefined;
+    const job = service.create('money-saving-tips', async () => {
+      aborted = queue.getContext()?.signal;
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      return 'fallback tips';
+    });
+
+    expect(service.cancel(job.id)).toMatchObject({ status: 'cancelled' });
+    expect(aborted?.aborted).toBe(true);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(service.get(job.id)).toMatchObject({
+      status: 'cancelled',
+      error: 'Cancelled by the client',
+    });
+    expect(service.get(job.id).result).toBeUndefined();
+    expect(service.cancel('missing')).toBeUndefined();
+  });
+
+  it('should only show a job to the API key that created it', () => {
+    const job = service.create('weather', generate('sunny'), {
+      apiKeyId: 'key-1',
+    });
+
+    expect(service.get(job.id, 'key-1')).toMatchObject({ apiKeyId: 'key-1' });
+    expect(service.get(job.id, 'key-2')).toBeUndefined();
+    expect(service.get(job.id)).toBeUndefined();
+    expect(service.watch(job.id, 'key-2')).toBeUndefined();
+    expect(service.cancel(job.id, 'key-2')).toBeUndefined();
+    expect(service.cancel(job.id, 'key-1')).toMatchObject({
+      status: 'cancelled',
+    });
+  });
+});
@@ -0,0 +1,208 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { Observable, ReplaySubject } from 'rxjs';
+import { LlmPriority, LlmQueue } from './llm-queue';
+
+export type JobType = 'weather' | 'trip-plan' | 'money-saving-tips';
+
+/**
+ * A job stays `queued` until its first model call gets a slot, so one
+ * answered from the cache goes straight to `succeeded`.
+ */
+export type JobStatus =
+  | 'queued'
+  | 'running'
+  | 'succeeded'
+  | 'failed'
+  | 'cancelled'
+  | 'timed-out';
+
+export interface Job<T = unknown> {
+  id: string;
+  type: JobType;
+  priority: LlmPriority;
+  /** The API key that created the job; only requests with it can see it */
+  apiKeyId: string | null;
+  status: JobStatus;
+  /** Time limit from creation, waiting in the queue included */
+  timeoutMs: number;
+  /** Set once the job has succeeded */
+  result?: T;
+  error?: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface JobOptions {
+  priority?: LlmPriority;
+  timeoutMs?: number;
+  /** Null for jobs created with the admin key or without auth */
+  apiKeyId?: string | null;
+}
+
+export interface JobServiceOptions {
+  /** Used for jobs created without their own limit */
+  timeoutMs: number;
+  retentionSeconds: number;
+}
+
+interface JobEntry {
+  job: Job;
+  updates: ReplaySubject<Job>;
+  controller: AbortController;
+}
+
+/**
+ * Runs generations in the background and keeps their status and result so
+ * clients can poll them or follow them as a stream. Their model calls go
+ * through the {@link LlmQueue} with the job's priority, and cancelling or
+ * timing out a job aborts them, whether still waiting or already running.
+ */
+@Injectable()
+export class JobService {
+  private readonly logger = new Logger(JobService.name);
+  private readonly jobs = new Map<string, JobEntry>();
+
+  constructor(
+    private readonly queue: LlmQueue,
+    private readonly options: JobServiceOptions,
+  ) {}
+
+  create<T>(
+    type: JobType,
+    generate: () => Promise<T>,
+    options: JobOptions = {},
+  ): Job<T> {
+    this.prune();
+
+    const entry: JobEntry = {
+      job: {
+        id: randomUUID(),
+        type,
+        priority: options.priority ?? 'interactive',
+        apiKeyId: options.apiKeyId ?? null,
+        status: 'queued',
+        timeoutMs: options.timeoutMs ?? this.options.timeoutMs,
+        createdAt: new Date().toISOString(),
+      },
+      updates: new ReplaySubject<Job>(1),
+      controller: new AbortController(),
+    };
+    this.jobs.set(entry.job.id, entry);
+    entry.updates.next({ ...entry.job });
+
+    void this.run(entry, generate);
+    return entry.job as Job<T>;
+  }
+
+  /**
+   * Jobs created with another API key are reported as unknown, so their
+   * ids cannot be probed.
+   */
+  get(id: string, apiKeyId: string | null = null): Job | undefined {
+    this.prune();
+    return this.find(id, apiKeyId)?.job;
+  }
+
+  /** Emits the current state, then every update until the job finishes */
+  watch(
+    id: string,
+    apiKeyId: string | null = null,
+  ): Observable<Job> | undefined {
+    return this.find(id, apiKeyId)?.updates.asObservable();
+  }
+
+  /**
+   * Stops a job that has not finished yet. Returns undefined for an
+   * unknown job; a finished one is returned as it was.
+   */
+  cancel(id: string, apiKeyId: string | null = null): Job | undefined {
+    const entry = this.find(id, apiKeyId);
+    if (!entry) {
+      return undefined;
+    }
+    this.finish(entry, 'cancelled', 'Cancelled by the client');
+    return entry.job;
+  }
+
+  private find(id: string, apiKeyId: string | null): JobEntry | undefined {
+    const entry = this.jobs.get(id);
+    return entry?.job.apiKeyId === apiKeyId ? entry : undefined;
+  }
+
+  private async run<T>(
+    entry: JobEntry,
+    generate: () => Promise<T>,
+  ): Promise<void> {
+    const { job, controller } = entry;
+    const timer = setTimeout(
+      () =>
+        this.finish(entry, 'timed-out', `Timed out after ${job.timeoutMs} ms`),
+      job.timeoutMs,
+    );
+    this.logger.log(`Queued ${job.type} job ${job.id} (${job.priority})`);
+
+    try {
+      const result = await this.queue.run(
+        {
+          priority: job.priority,
+          signal: controller.signal,
+          onStart: () => this.markRunning(entry),
+        },
+        generate,
+      );
+      // An aborted generation usually resolves with fallback data; the job
+      // has already been finished as cancelled or timed out by then
+      if (!job.finishedAt) {
+        job.result = result;
+        this.finish(entry, 'succeeded');
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.finish(entry, 'failed', message);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private markRunning(entry: JobEntry): void {
+    const { job } = entry;
+    if (job.status !== 'queued') {
+      return;
+    }
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    entry.updates.next({ ...job });
+  }
+
+  /** Moves an unfinished job to its final status, aborting its model calls */
+  private finish(entry: JobEntry, status: JobStatus, error?: string): void {
+    const { job } = entry;
+    if (job.finishedAt) {
+      return;
+    }
+    job.status = status;
+    job.finishedAt = new Date().toISOString();
+
+    if (status === 'succeeded') {
+      this.logger.log(`✅ ${job.type} job ${job.id} succeeded`);
+    } else {
+      job.error = error;
+      this.logger.warn(`${job.type} job ${job.id} ${status}: ${error}`);
+      entry.controller.abort(new Error(error));
+    }
+    entry.updates.next({ ...job });
+    entry.updates.complete();
+  }
+
+  /** Drops jobs that finished more than the retention period ago */
+  private prune(): void {
+    const cutoff = Date.now() - this.options.retentionSeconds * 1000;
+    for (const [id, { job }] of this.jobs) {
+      if (job.finishedAt && Date.parse(job.finishedAt) < cutoff) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
@@ -0,0 +1,24 @@
+import { FakeLlmService } from './fake-llm.service';
+import { LlmProvider } from './llm-provider';
+import { OllamaService } from './ollama.service';
+import { OpenAiCompatibleService } from './openai-compatible.service';
+import { LlmProviderConfig } from '../config/app-config';
+
+export function createLlmProvider(config: LlmProviderConfig): LlmProvider {
+  switch (config.provider) {
+    case 'openai':
+      return new OpenAiCompatibleService({
+        model: config.model,
+        baseUrl: config.baseUrl,
+        apiKey: config.apiKey,
+      });
+    case 'fake':
+      return new FakeLlmService();
+    case 'ollama':
+    default:
+      return new OllamaService({
+        ollamaModel: config.model,
+        ollamaUrl: config.baseUrl,
+      });
+  }
+}
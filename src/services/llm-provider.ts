@@ -0,0 +1,127 @@
+import { JsonSchema } from '../schemas/json-schema';
+
+export interface LlmGenerateOptions {
+  /** Use this model instead of the provider's current one for this call */
+  model?: string;
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  /** Constrain the output to JSON matching this schema */
+  format?: JsonSchema;
+}
+
+/** Token counts as reported by the runtime, when it reports them */
+export interface LlmUsage {
+  /** Tokens in the prompt (Ollama `prompt_eval_count`) */
+  promptEvalCount?: number;
+  /** Tokens generated (Ollama `eval_count`) */
+  evalCount?: number;
+}
+
+export interface LlmGeneration {
+  text: string;
+  model: string;
+  usage?: LlmUsage;
+}
+
+export type LlmChatRole = 'system' | 'user' | 'assistant';
+
+/** One turn of a conversation (Ollama `/api/chat`, OpenAI chat messages) */
+export interface LlmChatMessage {
+  role: LlmChatRole;
+  content: string;
+}
+
+export interface LlmStreamChunk {
+  text: string;
+  /** Only set on the last chunk */
+  usage?: LlmUsage;
+}
+
+export interface LlmModel {
+  name: string;
+  size?: number;
+  modifiedAt?: string;
+}
+
+export interface LlmHealth {
+  reachable: boolean;
+  version?: string;
+  error?: string;
+}
+
+/** One status update of a model download */
+export interface LlmPullProgress {
+  status: string;
+  digest?: string;
+  /** Bytes of the layer being downloaded */
+  total?: number;
+  completed?: number;
+}
+
+export type LlmProviderType = 'ollama' | 'openai' | 'fake';
+
+/**
+ * What to do at boot when the runtime is unreachable or the model missing:
+ * refuse to start, log a warning, or download the missing model.
+ */
+export type LlmStartupMode = 'fail-fast' | 'warn' | 'auto-pull';
+
+/**
+ * Common surface for every LLM runtime the backend can talk to.
+ * Services depend on this class (it doubles as the Nest injection token)
+ * and the concrete implementation is chosen in AppModule.
+ */
+export abstract class LlmProvider {
+  abstract readonly type: LlmProviderType;
+
+  abstract generate(
+    prompt: string,
+    options?: LlmGenerateOptions,
+  ): Promise<LlmGeneration>;
+
+  /**
+   * Answers the last message of a conversation, with the earlier messages
+   * as context.
+   */
+  abstract chat(
+    messages: LlmChatMessage[],
+    options?: LlmGenerateOptions,
+  ): Promise<LlmGeneration>;
+
+  /**
+   * Yields the generated text chunk by chunk as the runtime produces it.
+   */
+  abstract generateStream(
+    prompt: string,
+    options?: LlmGenerateOptions,
+  ): AsyncIterable<LlmStreamChunk>;
+
+  abstract listModels(): Promise<LlmModel[]>;
+
+  abstract checkHealth(): Promise<LlmHealth>;
+
+  /**
+   * Downloads a model, yielding the runtime's status updates. Runtimes
+   * that cannot download models throw.
+   */
+  abstract pullModel(
+    name: string,
+    signal?: AbortSignal,
+  ): AsyncIterable<LlmPullProgress>;
+
+  abstract switchModel(newModel: string): Promise<boolean>;
+
+  abstract getCurrentModel(): string;
+}
+
+export const DEFAULT_GENERATE_OPTIONS: Required<
+  Omit<LlmGenerateOptions, 'model' | 'signal' | 'format'>
+> = {
+  temperature: 0.7,
+  topP: 0.9,
+  maxTokens: 800,
+  timeoutMs: 120000,
+};
@@ -0,0 +1,72 @@
+import { LlmQueue } from './llm-queue';
+
+describe('LlmQueue', () => {
+  /** Lets pending promise callbacks run */
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  it('should hold calls beyond the limit and serve interactive ones first', async () => {
+    const queue = new LlmQueue(1);
+    const order: string[] = [];
+    const acquire = (name: string, priority: 'interactive' | 'prefetch') =>
+      queue.run({ priority }, async () => {
+        const release = await queue.acquire();
+        order.push(name);
+        return release;
+      });
+
+    const first = await acquire('first', 'interactive');
+    const prefetch = acquire('prefetch', 'prefetch');
+    const interactive = acquire('interactive', 'interactive');
+    await flush();
+
+    expect(order).toEqual(['first']);
+    expect(queue.getStats()).toEqual({
+      maxConcurrency: 1,
+      running: 1,
+      waiting: { interactive: 1, prefetch: 1 },
+    });
+
+    first();
+    (await interactive)();
+    (await prefetch)();
+
+    expect(order).toEqual(['first', 'interactive', 'prefetch']);
+    expect(queue.getStats().running).toBe(0);
+  });
+
+  it('should drop a waiting call when its signal aborts', async () => {
+    const queue = new LlmQueue(1);
+    const controller = new AbortController();
+    const onStart = jest.fn();
+    const release = await queue.acquire();
+
+    const waiting = queue.run(
+      { priority: 'prefetch', signal: controller.signal, onStart },
+      () => queue.acquire(),
+    );
+    controller.abort(new Error('cancelled'));
+
+    await expect(waiting).rejects.toThrow('cancelled');
+    expect(onStart).not.toHaveBeenCalled();
+    expect(queue.getStats().waiting.prefetch).toBe(0);
+
+    release();
+    release();
+    expect(queue.getStats().running).toBe(0);
+  });
+
+  it('should drop a waiting call when its own signal aborts', async () => {
+    const queue = new LlmQueue(1);
+    const controller = new AbortController();
+    const release = await queue.acquire();
+
+    const waiting = queue.acquire(controller.signal);
+    expect(queue.getStats().waiting.interactive).toBe(1);
+    controller.abort(new Error('client disconnected'));
+
+    await expect(waiting).rejects.toThrow('client disconnected');
+    expect(queue.getStats().waiting.interactive).toBe(0);
+    release();
+    expect(queue.getStats().running).toBe(0);
+  });
+});
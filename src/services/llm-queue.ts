@@ -0,0 +1,135 @@
+import { Logger } from '@nestjs/common';
+import { AsyncLocalStorage } from 'async_hooks';
+
+/** Interactive calls are served before any prefetch call waiting with them */
+export const LLM_PRIORITIES = ['interactive', 'prefetch'] as const;
+
+export type LlmPriority = (typeof LLM_PRIORITIES)[number];
+
+/** Applies to every LLM call made while it is active, see {@link LlmQueue.run} */
+export interface LlmCallContext {
+  priority: LlmPriority;
+  /** Aborts the calls, whether still waiting or already running */
+  signal?: AbortSignal;
+  /** Called each time one of the calls gets a slot */
+  onStart?: () => void;
+}
+
+export interface LlmQueueStats {
+  maxConcurrency: number;
+  running: number;
+  waiting: Record<LlmPriority, number>;
+}
+
+function abortReason(signal: AbortSignal): Error {
+  return signal.reason instanceof Error
+    ? signal.reason
+    : new Error(String(signal.reason));
+}
+
+/**
+ * Limits how many generations run against the LLM runtime at once. Calls
+ * beyond the limit wait in line, interactive ones first, instead of piling
+ * up on the runtime until they time out.
+ *
+ * Callers do not pass a priority with each call: code run through
+ * {@link run} carries its context down to every call it makes, and
+ * anything else is interactive.
+ */
+export class LlmQueue {
+  private readonly logger = new Logger(LlmQueue.name);
+  private readonly context = new AsyncLocalStorage<LlmCallContext>();
+  /** Calls waiting for a slot, per priority; calling one starts it */
+  private readonly waiting: Record<LlmPriority, (() => void)[]> = {
+    interactive: [],
+    prefetch: [],
+  };
+  private running = 0;
+
+  constructor(private readonly maxConcurrency: number) {}
+
+  run<T>(context: LlmCallContext, fn: () => Promise<T>): Promise<T> {
+    return this.context.run(context, fn);
+  }
+
+  /** The context of the code currently running, if any */
+  getContext(): LlmCallContext | undefined {
+    return this.context.getStore();
+  }
+
+  /**
+   * Resolves with a function that frees the slot once one is available.
+   * Rejects, leaving the line, if the context's signal or the call's own
+   * `callSignal` aborts while waiting.
+   */
+  acquire(callSignal?: AbortSignal): Promise<() => void> {
+    const {
+      priority = 'interactive',
+      signal: contextSignal,
+      onStart,
+    } = this.getContext() ?? {};
+    const signals = [contextSignal, callSignal].filter(
+      (candidate) => !!candidate,
+    );
+    const signal = signals.length > 1 ? AbortSignal.any(signals) : signals[0];
+    if (signal?.aborted) {
+      return Promise.reject(abortReason(signal));
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        const queue = this.waiting[priority];
+        queue.splice(queue.indexOf(waiter), 1);
+        reject(abortReason(signal));
+      };
+      const waiter = () => {
+        signal?.removeEventListener('abort', onAbort);
+        this.running++;
+        onStart?.();
+        resolve(this.releaser());
+      };
+
+      if (this.running < this.maxConcurrency && this.isIdle()) {
+        waiter();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.waiting[priority].push(waiter);
+      this.logger.debug(
+        `Waiting for a free slot (${priority}, ${this.waiting[priority].length} in line)`,
+      );
+    });
+  }
+
+  getStats(): LlmQueueStats {
+    return {
+      maxConcurrency: this.maxConcurrency,
+      running: this.running,
+      waiting: {
+        interactive: this.waiting.interactive.length,
+        prefetch: this.waiting.prefetch.length,
+      },
+    };
+  }
+
+  private isIdle(): boolean {
+    return LLM_PRIORITIES.every(
+      (priority) => this.waiting[priority].length === 0,
+    );
+  }
+
+  private releaser(): () => void {
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      this.running--;
+      const next = LLM_PRIORITIES.map(
+        (priority) => this.waiting[priority],
+      ).find((queue) => queue.length > 0);
+      next?.shift()?.();
+    };
+  }
+}
@@ -0,0 +1,51 @@
+import { lastValueFrom, toArray } from 'rxjs';
+import { FakeLlmService } from './fake-llm.service';
+import { ModelPullService } from './model-pull.service';
+
+describe('ModelPullService', () => {
+  let llmProvider: FakeLlmService;
+  let service: ModelPullService;
+
+  beforeEach(() => {
+    llmProvider = new FakeLlmService();
+    service = new ModelPullService(llmProvider);
+  });
+
+  it('should report progress until the model is installed', async () => {
+    const pull = service.startPull('tiny');
+    const updates = await lastValueFrom(
+      service.watchPull(pull.id).pipe(toArray()),
+    );
+
+    expect(updates.map((update) => update.percent)).toContain(50);
+    expect(updates[updates.length - 1]).toMatchObject({
+      model: 'tiny',
+      status: 'completed',
+      percent: 100,
+    });
+    await expect(llmProvider.listModels()).resolves.toContainEqual({
+      name: 'tiny',
+    });
+  });
+
+  it('should reuse a pull that is still running', () => {
+    const first = service.startPull('tiny');
+
+    expect(service.startPull('tiny').id).toBe(first.id);
+    expect(service.startPull('other').id).not.toBe(first.id);
+  });
+
+  it('should mark the pull as failed when the runtime cannot pull', async () => {
+    jest.spyOn(llmProvider, 'pullModel').mockImplementation(() => {
+      throw new Error('not supported');
+    });
+
+    const pull = service.startPull('tiny');
+    await lastValueFrom(service.watchPull(pull.id));
+
+    expect(service.getPull(pull.id)).toMatchObject({
+      status: 'failed',
+      error: 'not supported',
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { Observable, ReplaySubject } from 'rxjs';
+import { LlmProvider, LlmPullProgress } from './llm-provider';
+
+export type ModelPullStatus = 'pulling' | 'completed' | 'failed';
+
+export interface ModelPull {
+  id: string;
+  model: string;
+  status: ModelPullStatus;
+  /** Latest status line reported by the runtime */
+  progress: LlmPullProgress | null;
+  /** Download progress of the current layer, 0-100 */
+  percent: number | null;
+  error?: string;
+  startedAt: string;
+  finishedAt?: string;
+}
+
+interface PullEntry {
+  pull: ModelPull;
+  updates: ReplaySubject<ModelPull>;
+}
+
+/**
+ * Runs model downloads in the background and keeps their latest status so
+ * clients can poll it or follow it as a stream.
+ */
+@Injectable()
+export class ModelPullService {
+  private readonly logger = new Logger(ModelPullService.name);
+  private readonly pulls = new Map<string, PullEntry>();
+
+  constructor(private readonly llmProvider: LlmProvider) {}
+
+  /** Starts a download, or returns the one already running for this model */
+  startPull(model: string): ModelPull {
+    const running = [...this.pulls.values()].find(
+      (entry) => entry.pull.model === model && entry.pull.status === 'pulling',
+    );
+    if (running) {
+      return running.pull;
+    }
+
+    const entry: PullEntry = {
+      pull: {
+        id: randomUUID(),
+        model,
+        status: 'pulling',
+        progress: null,
+        percent: null,
+        startedAt: new Date().toISOString(),
+      },
+      updates: new ReplaySubject<ModelPull>(1),
+    };
+    this.pulls.set(entry.pull.id, entry);
+    entry.updates.next({ ...entry.pull });
+
+    void this.run(entry);
+    return entry.pull;
+  }
+
+  getPull(id: string): ModelPull | undefined {
+    return this.pulls.get(id)?.pull;
+  }
+
+  listPulls(): ModelPull[] {
+    return [...this.pulls.values()].map((entry) => entry.pull);
+  }
+
+  /** Emits the current state, then every update until the pull finishes */
+  watchPull(id: string): Observable<ModelPull> | undefined {
+    return this.pulls.get(id)?.updates.asObservable();
+  }
+
+  private async run(entry: PullEntry): Promise<void> {
+    const { pull, updates } = entry;
+    this.logger.log(`Pulling model ${pull.model}`);
+
+    try {
+      for await (const progress of this.llmProvider.pullModel(pull.model)) {
+        pull.progress = progress;
+        pull.percent =
+          progress.total && progress.completed !== undefined
+            ? Math.round((progress.completed / progress.total) * 100)
+            : pull.percent;
+        updates.next({ ...pull });
+      }
+      pull.status = 'completed';
+      this.logger.log(`✅ Model ${pull.model} pulled`);
+    } catch (error) {
+      pull.status = 'failed';
+      pull.error = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to pull model ${pull.model}:`, pull.error);
+    }
+
+    pull.finishedAt = new Date().toISOString();
+    updates.next({ ...pull });
+    updates.complete();
+  }
+}
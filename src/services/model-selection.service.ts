@@ -0,0 +1,86 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { LlmProvider } from './llm-provider';
+
+export const LLM_FEATURES = [
+  'weather',
+  'trip-plan',
+  'money-saving-tips',
+  'budget',
+] as const;
+
+/** Endpoint family that can run on its own model */
+export type LlmFeature = (typeof LLM_FEATURES)[number];
+
+export type FeatureModels = Partial<Record<LlmFeature, string>>;
+
+export interface FeatureModel {
+  feature: LlmFeature;
+  model: string;
+  /** False when the feature follows the provider's current model */
+  overridden: boolean;
+}
+
+export function isLlmFeature(value: string): value is LlmFeature {
+  return (LLM_FEATURES as readonly string[]).includes(value);
+}
+
+/**
+ * Decides which model each feature generates with: its own override when
+ * one is set, the provider's current model otherwise.
+ */
+@Injectable()
+export class ModelSelectionService {
+  private readonly logger = new Logger(ModelSelectionService.name);
+  private readonly overrides = new Map<LlmFeature, string>();
+
+  constructor(
+    private readonly llmProvider: LlmProvider,
+    featureModels: FeatureModels = {},
+  ) {
+    Object.entries(featureModels).forEach(([feature, model]) => {
+      if (model) {
+        this.overrides.set(feature as LlmFeature, model);
+      }
+    });
+  }
+
+  getModel(feature?: LlmFeature): string {
+    return (
+      (feature && this.overrides.get(feature)) ||
+      this.llmProvider.getCurrentModel()
+    );
+  }
+
+  getFeatureModels(): FeatureModel[] {
+    return LLM_FEATURES.map((feature) => ({
+      feature,
+      model: this.getModel(feature),
+      overridden: this.overrides.has(feature),
+    }));
+  }
+
+  /**
+   * Pins a feature to an installed model, or back to the current model
+   * when `model` is null. Resolves to false if the model is not installed.
+   */
+  async setFeatureModel(
+    feature: LlmFeature,
+    model: string | null,
+  ): Promise<boolean> {
+    if (model === null) {
+      this.overrides.delete(feature);
+      this.logger.log(`${feature} now follows the current model`);
+      return true;
+    }
+
+    const models = await this.llmProvider.listModels();
+    if (!models.some((installed) => installed.name === model)) {
+      this.logger.error(`Model "${model}" not found for ${feature}`);
+      return false;
+    }
+
+    this.overrides.set(feature, model);
+    this.logger.log(`${feature} now uses model: ${model}`);
+    return true;
+  }
+}
@@ -0,0 +1,170 @@
+import { MultiCityService, splitStays } from './multi-city.service';
+import {
+  RecommendationService,
+  TripPlanData,
+  TripPlanOptions,
+} from './recommendation.service';
+import { StructuredGenerationService } from './structured-generation.service';
+import { ResponseCacheService } from './response-cache.service';
+import { PromptRegistryService } from './prompt-registry.service';
+import { TransferLegResponse } from '../schemas/transfer.schema';
+
+const leg = (
+  from: string,
+  to: string,
+  bestDay: string,
+  mode: TransferLegResponse['mode'] = 'train',
+): TransferLegResponse => ({
+  from,
+  to,
+  mode,
+  durationHours: 1.6,
+  bestDay,
+  departureTime: '10:00',
+  reason: 'Fast and cheap',
+});
+
+describe('MultiCityService', () => {
+  let generate: jest.Mock;
+  let getTripPlan: jest.Mock<
+    Promise<TripPlanData>,
+    [string, string, string, string, TripPlanOptions]
+  >;
+  let render: jest.Mock;
+  let service: MultiCityService;
+
+  beforeEach(() => {
+    generate = jest.fn();
+    getTripPlan = jest.fn<
+      Promise<TripPlanData>,
+      [string, string, string, string, TripPlanOptions]
+    >((city) => Promise.resolve({ title: city } as TripPlanData));
+    render = jest.fn(() => 'prompt');
+    service = new MultiCityService(
+      { getTripPlan } as unknown as RecommendationService,
+      {
+        generate,
+        createMeta: () => ({ build: (source: string) => ({ source }) }),
+      } as unknown as StructuredGenerationService,
+      {
+        getOrCompute: (_lookup: unknown, compute: () => Promise<unknown>) =>
+          compute(),
+      } as unknown as ResponseCacheService,
+      {
+        select: () => ({ feature: 'trip-plan', version: 'v5', id: 'v5' }),
+        render,
+      } as unknown as PromptRegistryService,
+    );
+  });
+
+  const plannedStays = () =>
+    getTripPlan.mock.calls.map(([city, startDate, endDate]) => [
+      city,
+      startDate,
+      endDate,
+    ]);
+  const bookingsFor = (stay: number) =>
+    getTripPlan.mock.calls[stay][4].bookings;
+
+  it('should split the nights evenly, extra ones first', () => {
+    expect(
+      splitStays(['Rome', 'Florence', 'Venice'], '2026-06-01', '2026-06-08'),
+    ).toEqual([
+      { name: 'Rome', startDate: '2026-06-01', endDate: '2026-06-04' },
+      { name: 'Florence', startDate: '2026-06-04', endDate: '2026-06-06' },
+      { name: 'Venice', startDate: '2026-06-06', endDate: '2026-06-08' },
+    ]);
+  });
+
+  it('should move changeovers to the best day and block out the transfers', async () => {
+    generate.mockResolvedValueOnce({
+      legs: [
+        leg('rome', 'florence', '2026-06-05'),
+        leg('Florence', 'Venice', '2026-06-20'),
+      ],
+    });
+
+    const plan = await service.getPlan({
+      trip: 'art lovers',
+      startDate: '2026-06-01',
+      endDate: '2026-06-08',
+      cities: [{ name: 'Rome' }, { name: 'Florence' }, { name: 'Venice' }],
+    });
+
+    expect(render).toHaveBeenCalledWith(
+      expect.anything(),
+      'transfers',
+      expect.objectContaining({
+        legs: '- Rome to Florence, between 2026-06-03 and 2026-06-05\n- Florence to Venice, between 2026-06-05 and 2026-06-07',
+      }),
+    );
+    expect(plan.transfers.legs).toMatchObject([
+      {
+        from: 'Rome',
+        to: 'Florence',
+        bestDay: '2026-06-05',
+        durationHours: 1.5,
+      },
+      { from: 'Florence', to: 'Venice', bestDay: '2026-06-07' },
+    ]);
+    expect(plannedStays()).toEqual([
+      ['Rome', '2026-06-01', '2026-06-05'],
+      ['Florence', '2026-06-05', '2026-06-07'],
+      ['Venice', '2026-06-07', '2026-06-08'],
+    ]);
+    expect(plan.stays.map((stay) => stay.nights)).toEqual([4, 2, 1]);
+    expect(bookingsFor(1)).toMatchObject([
+      {
+        id: 'transfer-1',
+        type: 'other',
+        title: 'Rome → Florence',
+        startsAt: '2026-06-05T10:00',
+        endsAt: '2026-06-05T11:30',
+      },
+      { id: 'transfer-2', startsAt: '2026-06-07T10:00' },
+    ]);
+  });
+
+  it('should keep given dates and use a booked flight for the move', async () => {
+    generate.mockRejectedValueOnce(new Error('model down'));
+
+    const plan = await service.getPlan({
+      trip: 'honeymoon',
+      locale: 'he',
+      cities: [
+        { name: 'Athens', startDate: '2026-09-01', endDate: '2026-09-04' },
+        { name: 'Santorini', startDate: '2026-09-04', endDate: '2026-09-08' },
+        { name: 'Mykonos', startDate: '2026-09-09', endDate: '2026-09-12' },
+      ],
+      bookings: [
+        { type: 'flight', title: 'A3 356', startsAt: '2026-09-04T07:15' },
+      ],
+    });
+
+    expect(plannedStays()).toEqual([
+      ['Athens', '2026-09-01', '2026-09-04'],
+      ['Santorini', '2026-09-04', '2026-09-08'],
+      ['Mykonos', '2026-09-09', '2026-09-12'],
+    ]);
+    expect(plan.transfers.meta).toEqual({ source: 'fallback' });
+    expect(plan.transfers.language.locale).toBe('he');
+    expect(plan.transfers.legs).toMatchObject([
+      {
+        mode: 'flight',
+        bestDay: '2026-09-04',
+        departureTime: '07:15',
+        bookingId: 'booking-1',
+      },
+      { mode: null, durationHours: null, bestDay: '2026-09-08' },
+    ]);
+    expect(bookingsFor(0)).toEqual([
+      {
+        id: 'booking-1',
+        type: 'flight',
+        title: 'A3 356',
+        startsAt: '2026-09-04T07:15',
+      },
+    ]);
+    expect(bookingsFor(2)).toBeUndefined();
+  });
+});
@@ -0,0 +1,493 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  RecommendationService,
+  TripPlanData,
+  TripPlanOptions,
+} from './recommendation.service';
+import { StructuredGenerationService } from './structured-generation.service';
+import { CacheOptions, ResponseCacheService } from './response-cache.service';
+import {
+  PromptOptions,
+  PromptRegistryService,
+  PromptSelection,
+} from './prompt-registry.service';
+import { ResponseMeta, ResponseMetaBuilder } from './response-meta';
+import {
+  Booking,
+  BookingInput,
+  Stay,
+  bookingsForStay,
+  planBookings,
+} from './bookings';
+import {
+  TRANSFERS_SCHEMA,
+  TransferLegResponse,
+  TransferMode,
+  TransfersResponse,
+} from '../schemas/transfer.schema';
+import { addDays, countDays } from '../utils/date.utils';
+import {
+  LanguageInfo,
+  Locale,
+  LocaleOptions,
+  describeLanguage,
+  resolveLocale,
+} from '../i18n/locale';
+import { getMessages } from '../i18n/messages';
+
+/** How far a transfer may move the changeover day of an evenly split trip */
+const FLEXIBLE_DAYS = 1;
+
+const TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface MultiCityStayInput {
+  name: string;
+  /** Both or neither; without them the trip's dates are split evenly */
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface MultiCityPlanInput
+  extends CacheOptions,
+    PromptOptions,
+    LocaleOptions {
+  trip: string;
+  /** The whole trip; needed unless every city has its own dates */
+  startDate?: string;
+  endDate?: string;
+  cities: MultiCityStayInput[];
+  weatherAware?: boolean;
+  bookings?: BookingInput[];
+}
+
+export interface TransferLeg {
+  from: string;
+  to: string;
+  /** null when the model could not suggest one */
+  mode: TransferMode | null;
+  durationHours: number | null;
+  bestDay: string;
+  departureTime: string | null;
+  reason: string;
+  /** Set when one of the travelers' bookings already covers this move */
+  bookingId?: string;
+}
+
+export interface TransferPlan {
+  legs: TransferLeg[];
+  language: LanguageInfo;
+  meta: ResponseMeta;
+}
+
+export interface MultiCityStay {
+  city: string;
+  startDate: string;
+  endDate: string;
+  nights: number;
+  plan: TripPlanData;
+}
+
+export interface MultiCityPlan {
+  trip: string;
+  startDate: string;
+  endDate: string;
+  stays: MultiCityStay[];
+  transfers: TransferPlan;
+}
+
+/** The days a move between two stays may happen on */
+interface LegWindow {
+  from: Stay;
+  to: Stay;
+  earliest: string;
+  latest: string;
+}
+
+/**
+ * Splits a trip's nights as evenly as possible across the cities, in order,
+ * giving any extra nights to the first ones. Each stay ends on the day the
+ * next one starts.
+ */
+export function splitStays(
+  cities: string[],
+  startDate: string,
+  endDate: string,
+): Stay[] {
+  const nights = countDays(startDate, endDate) - 1;
+  const perCity = Math.floor(nights / cities.length);
+  const extra = nights % cities.length;
+  let day = startDate.slice(0, 10);
+
+  return cities.map((name, index) => {
+    const stayStart = day;
+    day = addDays(day, perCity + (index < extra ? 1 : 0));
+    return { name, startDate: stayStart, endDate: day };
+  });
+}
+
+/**
+ * Plans a trip through several cities: one plan per stay plus the transfer
+ * legs between them. The transfers are suggested first, since on an evenly
+ * split trip their best day can move a changeover by a day.
+ */
+@Injectable()
+export class MultiCityService {
+  private readonly logger = new Logger(MultiCityService.name);
+
+  constructor(
+    private readonly recommendationService: RecommendationService,
+    private readonly structuredGeneration: StructuredGenerationService,
+    private readonly responseCache: ResponseCacheService,
+    private readonly promptRegistry: PromptRegistryService,
+  ) {}
+
+  async getPlan(input: MultiCityPlanInput): Promise<MultiCityPlan> {
+    const explicit = input.cities.every((city) => city.startDate);
+    const stays: Stay[] = explicit
+      ? input.cities.map((city) => ({
+          name: city.name,
+          startDate: city.startDate.slice(0, 10),
+          endDate: city.endDate.slice(0, 10),
+        }))
+      : splitStays(
+          input.cities.map((city) => city.name),
+          input.startDate,
+          input.endDate,
+        );
+    const bookings: Booking[] = (input.bookings ?? []).map(
+      (booking, index) => ({ id: `booking-${index + 1}`, ...booking }),
+    );
+
+    const windows = this.toWindows(stays, explicit);
+    const transfers = await this.getTransfers(input, windows, bookings);
+    const planned = explicit ? stays : this.moveChangeovers(stays, transfers);
+    const transferBookings = this.toTransferBookings(transfers.legs);
+
+    // One stay at a time, so a long trip does not flood the model
+    const results: MultiCityStay[] = [];
+    for (const stay of planned) {
+      const plan = await this.recommendationService.getTripPlan(
+        stay.name,
+        stay.startDate,
+        stay.endDate,
+        input.trip,
+        this.toPlanOptions(input, [
+          ...bookingsForStay(bookings, planned, stay),
+          ...transferBookings.filter(
+            (booking) =>
+              booking.startsAt.slice(0, 10) >= stay.startDate &&
+              booking.startsAt.slice(0, 10) <= stay.endDate,
+          ),
+        ]),
+      );
+      results.push({
+        city: stay.name,
+        startDate: stay.startDate,
+        endDate: stay.endDate,
+        nights: countDays(stay.startDate, stay.endDate) - 1,
+        plan,
+      });
+    }
+
+    return {
+      trip: input.trip,
+      startDate: planned[0].startDate,
+      endDate: planned[planned.length - 1].endDate,
+      stays: results,
+      transfers,
+    };
+  }
+
+  /**
+   * Given stays keep their changeover days, or the gap between them. An
+   * even split may move each changeover a day either way, as long as
+   * every stay keeps a night.
+   */
+  private toWindows(stays: Stay[], explicit: boolean): LegWindow[] {
+    return stays.slice(1).map((to, index) => {
+      const from = stays[index];
+      if (explicit) {
+        return { from, to, earliest: from.endDate, latest: to.startDate };
+      }
+      const earliest = addDays(from.endDate, -FLEXIBLE_DAYS);
+      const latest = addDays(from.endDate, FLEXIBLE_DAYS);
+      const firstNight = addDays(from.startDate, 1);
+      const lastNight = addDays(to.endDate, -1);
+      return {
+        from,
+        to,
+        earliest: earliest < firstNight ? firstNight : earliest,
+        latest: latest > lastNight ? lastNight : latest,
+      };
+    });
+  }
+
+  private async getTransfers(
+    input: MultiCityPlanInput,
+    windows: LegWindow[],
+    bookings: Booking[],
+  ): Promise<TransferPlan> {
+    const prompt = this.promptRegistry.select('trip-plan', input.promptVersion);
+    const locale = resolveLocale(input.locale);
+    const meta = this.structuredGeneration.createMeta(prompt.id, 'trip-plan');
+    const stays = [windows[0].from, ...windows.map((window) => window.to)];
+
+    let transfers: TransferPlan;
+    try {
+      transfers = await this.responseCache.getOrCompute(
+        {
+          namespace: 'trip-plan',
+          inputs: {
+            kind: 'transfers',
+            cities: stays.map((stay) => stay.name),
+            windows: windows.map(({ earliest, latest }) => ({
+              earliest,
+              latest,
+            })),
+            stays,
+            trip: input.trip,
+            locale: locale.tag,
+            // Serialized so the booking times are not cut to dates
+            ...(bookings.length > 0 && { bookings: JSON.stringify(bookings) }),
+          },
+          promptVersion: prompt.id,
+          mode: input.cache,
+        },
+        () =>
+          this.generateTransfers(
+            input.trip,
+            windows,
+            bookings,
+            prompt,
+            locale,
+            meta,
+          ),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Error suggesting transfers for ${stays.map((stay) => stay.name).join(', ')}:`,
+        error instanceof Error ? error.message : error,
+      );
+      transfers = this.getFallbackTransfers(
+        windows,
+        locale,
+        meta.build('fallback'),
+      );
+    }
+
+    // The travelers' own bookings win over whatever the model suggested
+    return {
+      ...transfers,
+      legs: transfers.legs.map((leg, index) =>
+        this.applyBooking(leg, windows[index], bookings),
+      ),
+    };
+  }
+
+  private async generateTransfers(
+    trip: string,
+    windows: LegWindow[],
+    bookings: Booking[],
+    prompt: PromptSelection,
+    locale: Locale,
+    meta: ResponseMetaBuilder,
+  ): Promise<TransferPlan> {
+    const stays = [windows[0].from, ...windows.map((window) => window.to)];
+    const { summary } = planBookings(
+      bookings,
+      stays[0].startDate,
+      stays[stays.length - 1].endDate,
+    );
+    const transfersPrompt = this.promptRegistry.render(prompt, 'transfers', {
+      trip,
+      stays: stays
+        .map(
+          (stay) =>
+            `- ${stay.name}: ${stay.startDate} to ${stay.endDate} (${countDays(stay.startDate, stay.endDate) - 1} nights)`,
+        )
+        .join('\n'),
+      legs: windows
+        .map(({ from, to, earliest, latest }) =>
+          earliest === latest
+            ? `- ${from.name} to ${to.name}, on ${earliest}`
+            : `- ${from.name} to ${to.name}, between ${earliest} and ${latest}`,
+        )
+        .join('\n'),
+      bookings: summary.length > 0 ? summary.join('\n') : 'none',
+      language: locale.languageName,
+    });
+
+    const response =
+      await this.structuredGeneration.generate<TransfersResponse>(
+        transfersPrompt,
+        TRANSFERS_SCHEMA,
+        { feature: 'trip-plan', meta },
+      );
+    const messages = getMessages(locale.language);
+    const legs = windows.map((window, index) => {
+      const suggested =
+        response.legs.find(
+          (leg) =>
+            this.sameCity(leg.from, window.from.name) &&
+            this.sameCity(leg.to, window.to.name),
+        ) ?? response.legs[index];
+      return suggested
+        ? this.toTransferLeg(suggested, window)
+        : this.getFallbackLeg(window, messages.transfers.unavailable);
+    });
+
+    return {
+      legs,
+      language: describeLanguage(locale, ...legs.map((leg) => leg.reason)),
+      meta: meta.build('ai'),
+    };
+  }
+
+  private toTransferLeg(
+    response: TransferLegResponse,
+    window: LegWindow,
+  ): TransferLeg {
+    const day = response.bestDay.trim().slice(0, 10);
+    const time = response.departureTime.trim();
+    return {
+      from: window.from.name,
+      to: window.to.name,
+      mode: response.mode,
+      durationHours: Math.round(response.durationHours * 4) / 4,
+      bestDay: DATE.test(day) ? this.clamp(day, window) : window.from.endDate,
+      departureTime: TIME.test(time) ? time : null,
+      reason: response.reason.trim(),
+    };
+  }
+
+  /**
+   * A flight the travelers booked within the leg's window, leaving from
+   * the city they are in or from anywhere unnamed, replaces the suggestion.
+   */
+  private applyBooking(
+    leg: TransferLeg,
+    window: LegWindow,
+    bookings: Booking[],
+  ): TransferLeg {
+    const booking = bookings.find((candidate) => {
+      const day = candidate.startsAt.slice(0, 10);
+      return (
+        candidate.type === 'flight' &&
+        (!candidate.city || this.sameCity(candidate.city, leg.from)) &&
+        day >= window.earliest &&
+        day <= window.latest
+      );
+    });
+    if (!booking) {
+      return leg;
+    }
+
+    const time = booking.startsAt.slice(11, 16);
+    return {
+      ...leg,
+      mode: 'flight',
+      bestDay: booking.startsAt.slice(0, 10),
+      departureTime: TIME.test(time) ? time : null,
+      bookingId: booking.id,
+    };
+  }
+
+  /** Re-cuts the stays at each leg's best day, keeping a night in each */
+  private moveChangeovers(stays: Stay[], transfers: TransferPlan): Stay[] {
+    const planned = stays.map((stay) => ({ ...stay }));
+    transfers.legs.forEach((leg, index) => {
+      const from = planned[index];
+      const to = planned[index + 1];
+      const day =
+        leg.bestDay > from.startDate && leg.bestDay < to.endDate
+          ? leg.bestDay
+          : from.endDate;
+      from.endDate = day;
+      to.startDate = day;
+    });
+    return planned;
+  }
+
+  /** Legs the travelers did not book themselves are blocked out in both plans */
+  private toTransferBookings(legs: TransferLeg[]): Booking[] {
+    return legs
+      .map((leg, index) => ({ leg, id: `transfer-${index + 1}` }))
+      .filter(({ leg }) => !leg.bookingId)
+      .map(({ leg, id }) => {
+        const startsAt = leg.departureTime
+          ? `${leg.bestDay}T${leg.departureTime}`
+          : leg.bestDay;
+        const endsAt =
+          leg.departureTime && leg.durationHours
+            ? new Date(
+                Date.parse(`${startsAt}:00Z`) + leg.durationHours * 3600000,
+              )
+                .toISOString()
+                .slice(0, 16)
+            : undefined;
+        return {
+          id,
+          type: leg.mode === 'flight' ? 'flight' : 'other',
+          title: `${leg.from} → ${leg.to}`,
+          startsAt,
+          ...(endsAt && { endsAt }),
+        };
+      });
+  }
+
+  private toPlanOptions(
+    input: MultiCityPlanInput,
+    bookings: Booking[],
+  ): TripPlanOptions {
+    return {
+      weatherAware: input.weatherAware,
+      promptVersion: input.promptVersion,
+      locale: input.locale,
+      cache: input.cache,
+      ...(bookings.length > 0 && { bookings }),
+    };
+  }
+
+  private getFallbackTransfers(
+    windows: LegWindow[],
+    locale: Locale,
+    meta: ResponseMeta,
+  ): TransferPlan {
+    const messages = getMessages(locale.language);
+    const legs = windows.map((window) =>
+      this.getFallbackLeg(window, messages.transfers.unavailable),
+    );
+    return {
+      legs,
+      language: describeLanguage(locale, ...legs.map((leg) => leg.reason)),
+      meta,
+    };
+  }
+
+  private getFallbackLeg(
+    window: LegWindow,
+    unavailable: (from: string, to: string) => string,
+  ): TransferLeg {
+    return {
+      from: window.from.name,
+      to: window.to.name,
+      mode: null,
+      durationHours: null,
+      bestDay: window.from.endDate,
+      departureTime: null,
+      reason: unavailable(window.from.name, window.to.name),
+    };
+  }
+
+  private clamp(day: string, window: LegWindow): string {
+    if (day < window.earliest) {
+      return window.earliest;
+    }
+    return day > window.latest ? window.latest : day;
+  }
+
+  private sameCity(a: string, b: string): boolean {
+    return a.trim().toLowerCase() === b.trim().toLowerCase();
+  }
+}
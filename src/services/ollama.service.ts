@@ -1,107 +1,282 @@
 import { Injectable, Logger } from '@nestjs/common';
 import axios from 'axios';
+import { Readable } from 'stream';
+import {
+  DEFAULT_GENERATE_OPTIONS,
+  LlmChatMessage,
+  LlmGenerateOptions,
+  LlmGeneration,
+  LlmHealth,
+  LlmModel,
+  LlmProvider,
+  LlmPullProgress,
+  LlmStreamChunk,
+} from './llm-provider';
+import { readLines } from '../utils/stream.utils';
 
 export interface OllamaOptions {
   ollamaModel?: string;
   ollamaUrl?: string;
 }
 
+interface OllamaUsage {
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+interface OllamaGenerateResponse extends OllamaUsage {
+  response: string;
+}
+
+interface OllamaChatResponse extends OllamaUsage {
+  message: { content: string };
+}
+
+interface OllamaStreamChunk extends OllamaUsage {
+  response?: string;
+  done?: boolean;
+  error?: string;
+}
+
+interface OllamaPullChunk {
+  status: string;
+  digest?: string;
+  total?: number;
+  completed?: number;
+  error?: string;
+}
+
+interface OllamaVersionResponse {
+  version?: string;
+}
+
+interface OllamaTagsResponse {
+  models?: { name: string; size?: number; modified_at?: string }[];
+}
+
 @Injectable()
-export class OllamaService {
+export class OllamaService extends LlmProvider {
+  readonly type = 'ollama';
   private readonly logger = new Logger(OllamaService.name);
   private ollamaModel: string;
   private ollamaUrl: string;
 
   constructor(options: OllamaOptions = {}) {
+    super();
     this.ollamaModel = options.ollamaModel || 'llama3.2:3b';
     this.ollamaUrl = options.ollamaUrl || 'http://localhost:11434';
-    
-    // Check connection on initialization
-    this.checkOllamaConnection();
   }
 
-  async checkOllamaConnection(): Promise<boolean> {
-    try {
-      const response = await axios.get(`${this.ollamaUrl}/api/version`);
-      this.logger.log(`✅ Ollama connected! Version: ${response.data.version}`);
-      await this.ensureModelExists();
-      return true;
-    } catch (error) {
-      this.logger.error('❌ Ollama not running! Please start Ollama first.');
-      this.logger.error('Run in your terminal: `ollama serve`');
-      this.logger.error(`Then download the model: \`ollama pull ${this.ollamaModel}\``);
-      return false;
+  async *pullModel(
+    name: string,
+    signal?: AbortSignal,
+  ): AsyncGenerator<LlmPullProgress> {
+    const response = await axios.post<Readable>(
+      `${this.ollamaUrl}/api/pull`,
+      {
+        model: name,
+        stream: true,
+      },
+      {
+        responseType: 'stream',
+        signal,
+      },
+    );
+
+    for await (const line of readLines(response.data)) {
+      const progress = JSON.parse(line) as OllamaPullChunk;
+      if (progress.error) {
+        throw new Error(`Ollama pull error: ${progress.error}`);
+      }
+      yield {
+        status: progress.status,
+        digest: progress.digest,
+        total: progress.total,
+        completed: progress.completed,
+      };
     }
   }
 
-  async ensureModelExists(): Promise<void> {
+  async generate(
+    prompt: string,
+    options: LlmGenerateOptions = {},
+  ): Promise<LlmGeneration> {
+    const settings = { ...DEFAULT_GENERATE_OPTIONS, ...options };
     try {
-      const response = await axios.get(`${this.ollamaUrl}/api/tags`);
-      const models = response.data.models || [];
-      const hasModel = models.some(model => 
-        model.name === this.ollamaModel || 
-        model.name.startsWith(this.ollamaModel.split(':')[0])
+      this.logger.log(`Generating response for prompt: ${prompt}`);
+      const response = await axios.post<OllamaGenerateResponse>(
+        `${this.ollamaUrl}/api/generate`,
+        {
+          model: options.model || this.ollamaModel,
+          prompt: prompt,
+          stream: false,
+          format: options.format,
+          options: {
+            temperature: settings.temperature,
+            top_p: settings.topP,
+            num_predict: settings.maxTokens,
+          },
+        },
+        {
+          timeout: settings.timeoutMs,
+          signal: options.signal,
+        },
       );
 
-      if (!hasModel) {
-        this.logger.log(`📥 Model ${this.ollamaModel} not found locally. Downloading...`);
-        this.logger.log('This may take a few minutes for the first time.');
-        await this.pullModel();
-      } else {
-        this.logger.log(`✅ Model ${this.ollamaModel} ready!`);
-      }
+      return {
+        text: response.data.response.trim(),
+        model: options.model || this.ollamaModel,
+        usage: {
+          promptEvalCount: response.data.prompt_eval_count,
+          evalCount: response.data.eval_count,
+        },
+      };
     } catch (error) {
-      this.logger.error('Error checking models:', error.message);
+      const { code, message } = error as NodeJS.ErrnoException;
+      this.logger.error('Ollama API Error during generation:', message);
+      if (code === 'ECONNREFUSED') {
+        throw new Error(
+          'Ollama not running. Please start with: `ollama serve`',
+        );
+      }
+      throw error;
     }
   }
 
-  async pullModel(): Promise<void> {
+  async chat(
+    messages: LlmChatMessage[],
+    options: LlmGenerateOptions = {},
+  ): Promise<LlmGeneration> {
+    const settings = { ...DEFAULT_GENERATE_OPTIONS, ...options };
     try {
-      await axios.post(`${this.ollamaUrl}/api/pull`, {
-        name: this.ollamaModel,
-        stream: false
-      }, {
-        timeout: 600000, // 10 minutes timeout for download
-      });
-      this.logger.log(`✅ Model ${this.ollamaModel} downloaded successfully!`);
+      this.logger.log(
+        `Generating chat response after ${messages.length} messages`,
+      );
+      const response = await axios.post<OllamaChatResponse>(
+        `${this.ollamaUrl}/api/chat`,
+        {
+          model: options.model || this.ollamaModel,
+          messages,
+          stream: false,
+          format: options.format,
+          options: {
+            temperature: settings.temperature,
+            top_p: settings.topP,
+            num_predict: settings.maxTokens,
+          },
+        },
+        {
+          timeout: settings.timeoutMs,
+          signal: options.signal,
+        },
+      );
+
+      return {
+        text: response.data.message.content.trim(),
+        model: options.model || this.ollamaModel,
+        usage: {
+          promptEvalCount: response.data.prompt_eval_count,
+          evalCount: response.data.eval_count,
+        },
+      };
     } catch (error) {
-      this.logger.error(`❌ Failed to download model: ${error.message}`);
-      this.logger.error('Try running manually: `ollama pull ' + this.ollamaModel + '`');
+      const { code, message } = error as NodeJS.ErrnoException;
+      this.logger.error('Ollama API Error during chat:', message);
+      if (code === 'ECONNREFUSED') {
+        throw new Error(
+          'Ollama not running. Please start with: `ollama serve`',
+        );
+      }
+      throw error;
     }
   }
 
-  async generateResponse(prompt: string): Promise<string> {
+  async *generateStream(
+    prompt: string,
+    options: LlmGenerateOptions = {},
+  ): AsyncGenerator<LlmStreamChunk> {
+    const settings = { ...DEFAULT_GENERATE_OPTIONS, ...options };
+    let stream: Readable;
     try {
-      this.logger.log(`Generating response for prompt: ${prompt}`);
-      const response = await axios.post(`${this.ollamaUrl}/api/generate`, {
-        model: this.ollamaModel,
-        prompt: prompt,
-        stream: false,
-        options: {
-          temperature: 0.7,
-          top_p: 0.9,
-          num_predict: 800 // Max tokens for weather responses
-        }
-      }, {
-        timeout: 120000 // 60 seconds timeout for generation
-      });
-
-      return response.data.response.trim();
+      this.logger.log(`Streaming response for prompt: ${prompt}`);
+      const response = await axios.post<Readable>(
+        `${this.ollamaUrl}/api/generate`,
+        {
+          model: options.model || this.ollamaModel,
+          prompt: prompt,
+          stream: true,
+          format: options.format,
+          options: {
+            temperature: settings.temperature,
+            top_p: settings.topP,
+            num_predict: settings.maxTokens,
+          },
+        },
+        {
+          timeout: settings.timeoutMs,
+          responseType: 'stream',
+          signal: options.signal,
+        },
+      );
+      stream = response.data;
     } catch (error) {
-      this.logger.error('Ollama API Error during generation:', error.message);
-      if (error.code === 'ECONNREFUSED') {
-        throw new Error('Ollama not running. Please start with: `ollama serve`');
+      const { code, message } = error as NodeJS.ErrnoException;
+      this.logger.error('Ollama API Error during streaming:', message);
+      if (code === 'ECONNREFUSED') {
+        throw new Error(
+          'Ollama not running. Please start with: `ollama serve`',
+        );
       }
       throw error;
     }
+
+    for await (const line of readLines(stream)) {
+      const chunk = JSON.parse(line) as OllamaStreamChunk;
+      if (chunk.error) {
+        throw new Error(`Ollama streaming error: ${chunk.error}`);
+      }
+      if (chunk.done) {
+        // The final chunk carries the token counts for the whole generation
+        yield {
+          text: chunk.response || '',
+          usage: {
+            promptEvalCount: chunk.prompt_eval_count,
+            evalCount: chunk.eval_count,
+          },
+        };
+        return;
+      }
+      if (chunk.response) {
+        yield { text: chunk.response };
+      }
+    }
   }
 
-  async listModels(): Promise<any[]> {
+  async checkHealth(): Promise<LlmHealth> {
     try {
-      const response = await axios.get(`${this.ollamaUrl}/api/tags`);
-      return response.data.models || [];
+      const response = await axios.get<OllamaVersionResponse>(
+        `${this.ollamaUrl}/api/version`,
+        { timeout: 5000 },
+      );
+      return { reachable: true, version: response.data.version };
+    } catch (error) {
+      return { reachable: false, error: (error as Error).message };
+    }
+  }
+
+  async listModels(): Promise<LlmModel[]> {
+    try {
+      const response = await axios.get<OllamaTagsResponse>(
+        `${this.ollamaUrl}/api/tags`,
+      );
+      const models = response.data.models || [];
+      return models.map((model) => ({
+        name: model.name,
+        size: model.size,
+        modifiedAt: model.modified_at,
+      }));
     } catch (error) {
-      this.logger.error('Error listing models:', error.message);
+      this.logger.error('Error listing models:', (error as Error).message);
       return [];
     }
   }
@@ -109,7 +284,7 @@ export class OllamaService {
   async switchModel(newModel: string): Promise<boolean> {
     try {
       const models = await this.listModels();
-      const modelExists = models.some(model => model.name === newModel);
+      const modelExists = models.some((model) => model.name === newModel);
 
       if (!modelExists) {
         this.logger.error(`Model "${newModel}" not found locally`);
@@ -120,7 +295,7 @@ export class OllamaService {
       this.logger.log(`✅ Switched to model: ${newModel}`);
       return true;
     } catch (error) {
-      this.logger.error('Could not switch model:', error.message);
+      this.logger.error('Could not switch model:', (error as Error).message);
       return false;
     }
   }
@@ -0,0 +1,87 @@
+import {
+  OpenMeteoWeatherService,
+  WeatherHttpClient,
+} from './open-meteo-weather.service';
+import { toIsoDate } from '../utils/date.utils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('OpenMeteoWeatherService', () => {
+  const today = toIsoDate(new Date());
+  const tomorrow = toIsoDate(new Date(Date.now() + DAY_MS));
+  const farAway = toIsoDate(new Date(Date.now() + 60 * DAY_MS));
+
+  let get: jest.Mock;
+  let service: OpenMeteoWeatherService;
+
+  beforeEach(() => {
+    get = jest.fn((url: string) => {
+      if (url.endsWith('/v1/search')) {
+        return Promise.resolve({
+          results: [{ name: 'Paris', latitude: 48.85, longitude: 2.35 }],
+        });
+      }
+      return Promise.resolve({
+        daily: {
+          time: [today, tomorrow],
+          temperature_2m_min: [11.4, 9.6],
+          temperature_2m_max: [19.2, 14.5],
+          precipitation_probability_max: [10, 85],
+          weather_code: [1, 63],
+        },
+      });
+    });
+    const httpClient: WeatherHttpClient = {
+      get: get as WeatherHttpClient['get'],
+    };
+    service = new OpenMeteoWeatherService({ httpClient });
+  });
+
+  it('should map the stubbed forecast to daily records', async () => {
+    const records = await service.getDailyWeather('Paris', [today, tomorrow]);
+
+    expect(records).toEqual([
+      {
+        date: today,
+        minTemperature: 11,
+        maxTemperature: 19,
+        condition: 'sunny',
+        rainProbability: 10,
+        source: 'forecast',
+      },
+      {
+        date: tomorrow,
+        minTemperature: 10,
+        maxTemperature: 15,
+        condition: 'rainy',
+        rainProbability: 85,
+        source: 'forecast',
+      },
+    ]);
+  });
+
+  it('should only request dates inside the forecast horizon', async () => {
+    const records = await service.getDailyWeather('Paris', [today, farAway]);
+
+    expect(records.map((record) => record.date)).toEqual([today]);
+    expect(get).toHaveBeenLastCalledWith(
+      'https://api.open-meteo.com/v1/forecast',
+      expect.objectContaining({ start_date: today, end_date: today }),
+    );
+  });
+
+  it('should not call the API when every date is beyond the horizon', async () => {
+    await expect(service.getDailyWeather('Paris', [farAway])).resolves.toEqual(
+      [],
+    );
+    expect(get).not.toHaveBeenCalled();
+  });
+
+  it('should return no records when the city cannot be geocoded', async () => {
+    get.mockResolvedValueOnce({});
+
+    await expect(service.getDailyWeather('Atlantis', [today])).resolves.toEqual(
+      [],
+    );
+  });
+});
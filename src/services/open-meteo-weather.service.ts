@@ -0,0 +1,190 @@
+import { Injectable, Logger } from '@nestjs/common';
+import axios from 'axios';
+import {
+  DailyWeatherRecord,
+  WeatherDataProvider,
+} from './weather-data-provider';
+import { WeatherCondition } from '../schemas/weather.schema';
+import { toIsoDate } from '../utils/date.utils';
+
+/**
+ * Minimal HTTP surface the Open-Meteo client needs. Swap it for a stub to
+ * run without network access.
+ */
+export interface WeatherHttpClient {
+  get<T>(url: string, params: Record<string, string | number>): Promise<T>;
+}
+
+export const axiosWeatherHttpClient: WeatherHttpClient = {
+  async get<T>(url: string, params: Record<string, string | number>) {
+    const response = await axios.get<T>(url, { params, timeout: 10000 });
+    return response.data;
+  },
+};
+
+export interface OpenMeteoOptions {
+  forecastUrl?: string;
+  geocodingUrl?: string;
+  forecastDays?: number;
+  httpClient?: WeatherHttpClient;
+}
+
+interface GeocodingResponse {
+  results?: { name: string; latitude: number; longitude: number }[];
+}
+
+interface ForecastResponse {
+  daily?: {
+    time: string[];
+    temperature_2m_min: (number | null)[];
+    temperature_2m_max: (number | null)[];
+    precipitation_probability_max: (number | null)[];
+    weather_code: (number | null)[];
+  };
+}
+
+interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+@Injectable()
+export class OpenMeteoWeatherService extends WeatherDataProvider {
+  readonly type = 'open-meteo';
+  private readonly logger = new Logger(OpenMeteoWeatherService.name);
+  private readonly forecastUrl: string;
+  private readonly geocodingUrl: string;
+  private readonly forecastDays: number;
+  private readonly httpClient: WeatherHttpClient;
+  private readonly coordinates = new Map<string, Coordinates | null>();
+
+  constructor(options: OpenMeteoOptions = {}) {
+    super();
+    this.forecastUrl = options.forecastUrl || 'https://api.open-meteo.com';
+    this.geocodingUrl =
+      options.geocodingUrl || 'https://geocoding-api.open-meteo.com';
+    this.forecastDays = options.forecastDays || 16;
+    this.httpClient = options.httpClient || axiosWeatherHttpClient;
+  }
+
+  async getDailyWeather(
+    city: string,
+    dates: string[],
+  ): Promise<DailyWeatherRecord[]> {
+    const inHorizon = dates.filter((date) => this.isWithinHorizon(date));
+    if (inHorizon.length === 0) {
+      return [];
+    }
+
+    try {
+      const location = await this.geocode(city);
+      if (!location) {
+        this.logger.warn(`Could not geocode "${city}"`);
+        return [];
+      }
+
+      const response = await this.httpClient.get<ForecastResponse>(
+        `${this.forecastUrl}/v1/forecast`,
+        {
+          latitude: location.latitude,
+          longitude: location.longitude,
+          daily:
+            'temperature_2m_min,temperature_2m_max,precipitation_probability_max,weather_code',
+          timezone: 'auto',
+          start_date: inHorizon[0],
+          end_date: inHorizon[inHorizon.length - 1],
+        },
+      );
+
+      return this.toRecords(response, inHorizon);
+    } catch (error) {
+      this.logger.error(
+        `Error fetching forecast for ${city}:`,
+        (error as Error).message,
+      );
+      return [];
+    }
+  }
+
+  private isWithinHorizon(date: string): boolean {
+    const today = new Date(toIsoDate(new Date())).getTime();
+    const day = new Date(date).getTime();
+    const lastDay = today + (this.forecastDays - 1) * 24 * 60 * 60 * 1000;
+    return day >= today && day <= lastDay;
+  }
+
+  private async geocode(city: string): Promise<Coordinates | null> {
+    const key = city.trim().toLowerCase();
+    if (this.coordinates.has(key)) {
+      return this.coordinates.get(key) ?? null;
+    }
+
+    const response = await this.httpClient.get<GeocodingResponse>(
+      `${this.geocodingUrl}/v1/search`,
+      { name: city.trim(), count: 1, language: 'en', format: 'json' },
+    );
+    const result = response.results?.[0];
+    const location = result
+      ? { latitude: result.latitude, longitude: result.longitude }
+      : null;
+
+    this.coordinates.set(key, location);
+    return location;
+  }
+
+  private toRecords(
+    response: ForecastResponse,
+    dates: string[],
+  ): DailyWeatherRecord[] {
+    const daily = response.daily;
+    if (!daily) {
+      return [];
+    }
+
+    const records: DailyWeatherRecord[] = [];
+    daily.time.forEach((date, index) => {
+      const min = daily.temperature_2m_min[index];
+      const max = daily.temperature_2m_max[index];
+      const code = daily.weather_code[index];
+      if (!dates.includes(date) || min === null || max === null) {
+        return;
+      }
+
+      const condition = this.toCondition(code);
+      records.push({
+        date,
+        minTemperature: Math.round(min),
+        maxTemperature: Math.round(max),
+        condition,
+        rainProbability: Math.round(
+          daily.precipitation_probability_max[index] ??
+            (condition === 'rainy' || condition === 'stormy' ? 70 : 10),
+        ),
+        source: 'forecast',
+      });
+    });
+    return records;
+  }
+
+  /**
+   * Maps WMO weather interpretation codes to our condition values.
+   */
+  private toCondition(code: number | null): WeatherCondition {
+    if (code === null || code <= 1) {
+      return 'sunny';
+    }
+    if (code === 2) {
+      return 'partly-cloudy';
+    }
+    if (code === 3 || code === 45 || code === 48) {
+      return 'cloudy';
+    }
+    if ((code >= 71 && code <= 77) || code === 85 || code === 86) {
+      return 'snow';
+    }
+    if (code >= 95) {
+      return 'stormy';
+    }
+    return 'rainy';
+  }
+}
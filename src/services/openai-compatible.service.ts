@@ -0,0 +1,254 @@
+import { Injectable, Logger } from '@nestjs/common';
+import axios from 'axios';
+import { Readable } from 'stream';
+import {
+  DEFAULT_GENERATE_OPTIONS,
+  LlmChatMessage,
+  LlmGenerateOptions,
+  LlmGeneration,
+  LlmHealth,
+  LlmModel,
+  LlmProvider,
+  LlmPullProgress,
+  LlmStreamChunk,
+  LlmUsage,
+} from './llm-provider';
+import { readLines } from '../utils/stream.utils';
+
+export interface OpenAiCompatibleOptions {
+  model?: string;
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+interface ChatCompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices: { message: { content: string } }[];
+  usage?: ChatCompletionUsage;
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string } }[];
+  usage?: ChatCompletionUsage | null;
+}
+
+interface ModelListResponse {
+  data?: { id: string; created?: number }[];
+}
+
+/**
+ * Client for servers exposing the OpenAI `/v1/chat/completions` API
+ * (llama.cpp server, vLLM, LM Studio, ...).
+ */
+@Injectable()
+export class OpenAiCompatibleService extends LlmProvider {
+  readonly type = 'openai';
+  private readonly logger = new Logger(OpenAiCompatibleService.name);
+  private model: string;
+  private baseUrl: string;
+  private apiKey?: string;
+
+  constructor(options: OpenAiCompatibleOptions = {}) {
+    super();
+    this.model = options.model || 'llama3.2:3b';
+    this.baseUrl = (options.baseUrl || 'http://localhost:8080').replace(
+      /\/+$/,
+      '',
+    );
+    this.apiKey = options.apiKey;
+  }
+
+  generate(
+    prompt: string,
+    options: LlmGenerateOptions = {},
+  ): Promise<LlmGeneration> {
+    this.logger.log(`Generating response for prompt: ${prompt}`);
+    return this.chat([{ role: 'user', content: prompt }], options);
+  }
+
+  async chat(
+    messages: LlmChatMessage[],
+    options: LlmGenerateOptions = {},
+  ): Promise<LlmGeneration> {
+    const settings = { ...DEFAULT_GENERATE_OPTIONS, ...options };
+    try {
+      const response = await axios.post<ChatCompletionResponse>(
+        `${this.baseUrl}/v1/chat/completions`,
+        {
+          model: options.model || this.model,
+          messages,
+          stream: false,
+          temperature: settings.temperature,
+          top_p: settings.topP,
+          max_tokens: settings.maxTokens,
+          response_format: this.getResponseFormat(options),
+        },
+        {
+          timeout: settings.timeoutMs,
+          headers: this.getHeaders(),
+          signal: options.signal,
+        },
+      );
+
+      const content = response.data.choices?.[0]?.message?.content ?? '';
+      return {
+        text: content.trim(),
+        model: response.data.model || options.model || this.model,
+        usage: this.toUsage(response.data.usage),
+      };
+    } catch (error) {
+      const { code, message } = error as NodeJS.ErrnoException;
+      this.logger.error(
+        'OpenAI-compatible API error during generation:',
+        message,
+      );
+      if (code === 'ECONNREFUSED') {
+        throw new Error(`LLM server not reachable at ${this.baseUrl}`);
+      }
+      throw error;
+    }
+  }
+
+  async *generateStream(
+    prompt: string,
+    options: LlmGenerateOptions = {},
+  ): AsyncGenerator<LlmStreamChunk> {
+    const settings = { ...DEFAULT_GENERATE_OPTIONS, ...options };
+    let stream: Readable;
+    try {
+      this.logger.log(`Streaming response for prompt: ${prompt}`);
+      const response = await axios.post<Readable>(
+        `${this.baseUrl}/v1/chat/completions`,
+        {
+          model: options.model || this.model,
+          messages: [{ role: 'user', content: prompt }],
+          stream: true,
+          stream_options: { include_usage: true },
+          temperature: settings.temperature,
+          top_p: settings.topP,
+          max_tokens: settings.maxTokens,
+          response_format: this.getResponseFormat(options),
+        },
+        {
+          timeout: settings.timeoutMs,
+          headers: this.getHeaders(),
+          responseType: 'stream',
+          signal: options.signal,
+        },
+      );
+      stream = response.data;
+    } catch (error) {
+      const { code, message } = error as NodeJS.ErrnoException;
+      this.logger.error(
+        'OpenAI-compatible API error during streaming:',
+        message,
+      );
+      if (code === 'ECONNREFUSED') {
+        throw new Error(`LLM server not reachable at ${this.baseUrl}`);
+      }
+      throw error;
+    }
+
+    for await (const line of readLines(stream)) {
+      if (!line.startsWith('data:')) {
+        continue;
+      }
+      const payload = line.slice('data:'.length).trim();
+      if (payload === '[DONE]') {
+        return;
+      }
+      const chunk = JSON.parse(payload) as ChatCompletionChunk;
+      const content = chunk.choices?.[0]?.delta?.content;
+      if (content) {
+        yield { text: content };
+      }
+      // With include_usage the server sends the counts in a last, choice-less chunk
+      if (chunk.usage) {
+        yield { text: '', usage: this.toUsage(chunk.usage) };
+      }
+    }
+  }
+
+  async listModels(): Promise<LlmModel[]> {
+    try {
+      const response = await axios.get<ModelListResponse>(
+        `${this.baseUrl}/v1/models`,
+        { headers: this.getHeaders() },
+      );
+      return (response.data.data || []).map((model) => ({
+        name: model.id,
+        modifiedAt: model.created
+          ? new Date(model.created * 1000).toISOString()
+          : undefined,
+      }));
+    } catch (error) {
+      this.logger.error('Error listing models:', (error as Error).message);
+      return [];
+    }
+  }
+
+  async checkHealth(): Promise<LlmHealth> {
+    try {
+      await axios.get(`${this.baseUrl}/v1/models`, {
+        timeout: 5000,
+        headers: this.getHeaders(),
+      });
+      return { reachable: true };
+    } catch (error) {
+      return { reachable: false, error: (error as Error).message };
+    }
+  }
+
+  /** Fails on the first read, like a pull the runtime refused */
+  pullModel(name: string): AsyncIterable<LlmPullProgress> {
+    const error = new Error(
+      `Cannot pull "${name}": OpenAI-compatible servers do not support downloading models`,
+    );
+    return {
+      [Symbol.asyncIterator]: () => ({ next: () => Promise.reject(error) }),
+    };
+  }
+
+  async switchModel(newModel: string): Promise<boolean> {
+    const models = await this.listModels();
+    if (!models.some((model) => model.name === newModel)) {
+      this.logger.error(`Model "${newModel}" not served by ${this.baseUrl}`);
+      return false;
+    }
+
+    this.model = newModel;
+    this.logger.log(`✅ Switched to model: ${newModel}`);
+    return true;
+  }
+
+  getCurrentModel(): string {
+    return this.model;
+  }
+
+  private toUsage(usage?: ChatCompletionUsage): LlmUsage | undefined {
+    return usage
+      ? {
+          promptEvalCount: usage.prompt_tokens,
+          evalCount: usage.completion_tokens,
+        }
+      : undefined;
+  }
+
+  private getResponseFormat(options: LlmGenerateOptions) {
+    return options.format
+      ? {
+          type: 'json_schema',
+          json_schema: { name: 'response', schema: options.format },
+        }
+      : undefined;
+  }
+
+  private getHeaders(): Record<string, string> {
+    return this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {};
+  }
+}
@@ -0,0 +1,118 @@
+import {
+  PackingList,
+  PackingListService,
+  findTripTypes,
+} from './packing-list.service';
+import { DailyWeather, WeatherData, WeatherService } from './weather.service';
+
+const day = (
+  date: string,
+  condition: DailyWeather['condition'],
+  minTemperature: number,
+  maxTemperature: number,
+  rainProbability = 10,
+): DailyWeather => ({
+  date,
+  condition,
+  minTemperature,
+  maxTemperature,
+  rainProbability,
+  icon: '',
+  source: 'forecast',
+});
+
+const findItem = (list: PackingList, item: string) =>
+  list.categories
+    .flatMap((category) => category.items)
+    .find((entry) => entry.item === item);
+
+describe('PackingListService', () => {
+  let getWeatherDataOrNull: jest.Mock;
+  let service: PackingListService;
+
+  beforeEach(() => {
+    getWeatherDataOrNull = jest.fn();
+    service = new PackingListService({
+      getWeatherDataOrNull,
+    } as unknown as WeatherService);
+  });
+
+  it('should tie items to the days that call for them', async () => {
+    getWeatherDataOrNull.mockResolvedValueOnce({
+      daily: [
+        day('2026-11-02', 'rainy', 4, 9, 80),
+        day('2026-11-03', 'cloudy', 6, 11, 60),
+        day('2026-11-04', 'stormy', 7, 12),
+        day('2026-11-05', 'sunny', 8, 14),
+      ],
+    } as WeatherData);
+
+    const list = await service.getPackingList(
+      'London',
+      '2026-11-02',
+      '2026-11-05',
+      'business conference',
+    );
+
+    expect(list.tripTypes).toEqual(['business']);
+    expect(list.conditions).toMatchObject({ rainyDays: 3, coldDays: 1 });
+    expect(list.categories.map((category) => category.category)).toEqual([
+      'clothing',
+      'toiletries',
+      'electronics',
+      'documents',
+    ]);
+    expect(findItem(list, 'umbrella')).toEqual({
+      item: 'umbrella',
+      label: 'Umbrella',
+      quantity: 1,
+      reasons: [{ kind: 'rain', days: 3, text: '3 rainy day(s)' }],
+    });
+    expect(findItem(list, 'tops')).toMatchObject({
+      quantity: 4,
+      reasons: [{ kind: 'length', days: 4, text: '4-day trip' }],
+    });
+    expect(findItem(list, 'waterproof-shoes')).toBeDefined();
+    expect(findItem(list, 'sweater')?.reasons[0].text).toBe('4 cool day(s)');
+    expect(findItem(list, 'smart-outfit')).toMatchObject({
+      quantity: 2,
+      reasons: [{ kind: 'trip', tripType: 'business', text: 'business trip' }],
+    });
+    expect(findItem(list, 'shorts')).toBeUndefined();
+    expect(findItem(list, 'swimwear')).toBeUndefined();
+  });
+
+  it('should cap everyday clothes and skip weather items without a forecast', async () => {
+    getWeatherDataOrNull.mockResolvedValueOnce(null);
+
+    const list = await service.getPackingList(
+      'Atlantis',
+      '2026-07-01',
+      '2026-07-14',
+      'חופשה',
+      { locale: 'he' },
+    );
+
+    expect(list.conditions).toBeNull();
+    expect(findItem(list, 'socks')).toMatchObject({
+      label: 'גרביים',
+      quantity: 7,
+      reasons: [{ text: 'טיול של 14 ימים' }],
+    });
+    expect(findItem(list, 'umbrella')).toBeUndefined();
+    expect(findItem(list, 'sunscreen')).toBeUndefined();
+    expect(list.language.locale).toBe('he');
+  });
+
+  it('should find the kinds of trip in the description', () => {
+    expect(findTripTypes('Family beach holiday with the kids')).toEqual([
+      'beach',
+      'family',
+    ]);
+    expect(findTripTypes('Skiing and hiking in the Alps')).toEqual([
+      'hiking',
+      'ski',
+    ]);
+    expect(findTripTypes('Seasonal city break')).toEqual([]);
+  });
+});
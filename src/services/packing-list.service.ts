@@ -0,0 +1,337 @@
+import { Injectable } from '@nestjs/common';
+import {
+  DailyWeather,
+  WeatherOptions,
+  WeatherService,
+} from './weather.service';
+import {
+  PACKING_CATEGORIES,
+  PACKING_ITEMS,
+  PackingCategory,
+  PackingItem,
+  PackingReasonKind,
+  TRIP_TYPE_KEYWORDS,
+  TRIP_TYPES,
+  TripType,
+} from '../data/packing-items';
+import { countDays } from '../utils/date.utils';
+import { LanguageInfo, describeLanguage, resolveLocale } from '../i18n/locale';
+import { Messages, getMessages } from '../i18n/messages';
+
+/** Clothes worn once are packed for at most this many days, then washed */
+const LAUNDRY_DAYS = 7;
+
+const RAINY_PROBABILITY = 50;
+const COLD_MIN_TEMPERATURE = 5;
+const COOL_MIN_TEMPERATURE = 12;
+const HOT_MAX_TEMPERATURE = 25;
+
+export interface PackingReason {
+  kind: PackingReasonKind | 'trip';
+  /** Days of the trip that call for the item; not set for `trip` */
+  days?: number;
+  /** Set for `trip` */
+  tripType?: TripType;
+  /** e.g. "3 rainy day(s)" */
+  text: string;
+}
+
+export interface PackingListItem {
+  item: PackingItem;
+  label: string;
+  quantity: number;
+  /** Empty for the essentials every trip needs */
+  reasons: PackingReason[];
+}
+
+export interface PackingListCategory {
+  category: PackingCategory;
+  label: string;
+  items: PackingListItem[];
+}
+
+/** How many days of the stay meet each condition */
+export interface PackingConditions {
+  minTemperature: number;
+  maxTemperature: number;
+  rainyDays: number;
+  snowyDays: number;
+  coldDays: number;
+  coolDays: number;
+  hotDays: number;
+  sunnyDays: number;
+}
+
+export interface PackingList {
+  city: string;
+  startDate: string;
+  endDate: string;
+  days: number;
+  trip: string;
+  tripTypes: TripType[];
+  /** null when no weather was available; the list then has no weather items */
+  conditions: PackingConditions | null;
+  categories: PackingListCategory[];
+  language: LanguageInfo;
+}
+
+/** Items with their quantities and reasons, merged as rules add them */
+class PackingListBuilder {
+  private readonly items = new Map<
+    PackingItem,
+    { quantity: number; reasons: PackingReason[] }
+  >();
+
+  constructor(private readonly messages: Messages) {}
+
+  add(item: PackingItem, quantity = 1, reason?: PackingReason): this {
+    const entry = this.items.get(item) ?? { quantity: 0, reasons: [] };
+    entry.quantity = Math.max(entry.quantity, quantity);
+    if (
+      reason &&
+      !entry.reasons.some(
+        (existing) =>
+          existing.kind === reason.kind &&
+          existing.tripType === reason.tripType,
+      )
+    ) {
+      entry.reasons.push(reason);
+    }
+    this.items.set(item, entry);
+    return this;
+  }
+
+  forDays(kind: PackingReasonKind, days: number): PackingReason {
+    return { kind, days, text: this.messages.packingList.reasons[kind](days) };
+  }
+
+  forTrip(tripType: TripType): PackingReason {
+    return {
+      kind: 'trip',
+      tripType,
+      text: this.messages.packingList.tripTypes[tripType],
+    };
+  }
+
+  build(): PackingListCategory[] {
+    const { categories, items } = this.messages.packingList;
+    return PACKING_CATEGORIES.map((category) => ({
+      category,
+      label: categories[category],
+      items: (Object.keys(PACKING_ITEMS) as PackingItem[])
+        .filter(
+          (item) => PACKING_ITEMS[item] === category && this.items.has(item),
+        )
+        .map((item) => ({
+          item,
+          label: items[item],
+          ...this.items.get(item),
+        })),
+    })).filter((category) => category.items.length > 0);
+  }
+}
+
+/** Picks the kinds of trip a free-text description mentions */
+export function findTripTypes(trip: string): TripType[] {
+  const words = trip.toLowerCase().split(/[^\p{L}\p{N}]+/u);
+  return TRIP_TYPES.filter((tripType) =>
+    TRIP_TYPE_KEYWORDS[tripType].some((keyword) =>
+      words.some((word) => word.startsWith(keyword)),
+    ),
+  );
+}
+
+export function countConditions(daily: DailyWeather[]): PackingConditions {
+  const count = (matches: (day: DailyWeather) => boolean) =>
+    daily.filter(matches).length;
+  return {
+    minTemperature: Math.min(...daily.map((day) => day.minTemperature)),
+    maxTemperature: Math.max(...daily.map((day) => day.maxTemperature)),
+    rainyDays: count(
+      (day) =>
+        day.condition === 'rainy' ||
+        day.condition === 'stormy' ||
+        day.rainProbability >= RAINY_PROBABILITY,
+    ),
+    snowyDays: count((day) => day.condition === 'snow'),
+    coldDays: count((day) => day.minTemperature <= COLD_MIN_TEMPERATURE),
+    coolDays: count((day) => day.minTemperature <= COOL_MIN_TEMPERATURE),
+    hotDays: count((day) => day.maxTemperature >= HOT_MAX_TEMPERATURE),
+    sunnyDays: count((day) => day.condition === 'sunny'),
+  };
+}
+
+/**
+ * Builds a packing checklist from the stay's daily weather and the kind of
+ * trip. Everyday clothes scale with the length of the stay; everything else
+ * is tied to the days or the kind of trip that call for it.
+ */
+@Injectable()
+export class PackingListService {
+  constructor(private readonly weatherService: WeatherService) {}
+
+  async getPackingList(
+    city: string,
+    startDate: string,
+    endDate: string,
+    trip: string,
+    options: WeatherOptions = {},
+  ): Promise<PackingList> {
+    const locale = resolveLocale(options.locale);
+    const messages = getMessages(locale.language);
+    const weather = await this.weatherService.getWeatherDataOrNull(
+      city,
+      startDate,
+      endDate,
+      trip,
+      options,
+    );
+    const days = countDays(startDate, endDate);
+    const tripTypes = findTripTypes(trip);
+    const conditions =
+      weather && weather.daily.length > 0
+        ? countConditions(weather.daily)
+        : null;
+
+    const list = new PackingListBuilder(messages);
+    this.addEssentials(list, days, conditions);
+    if (conditions) {
+      this.addForWeather(list, conditions);
+    }
+    tripTypes.forEach((tripType) => this.addForTrip(list, tripType, days));
+
+    const categories = list.build();
+    return {
+      city,
+      startDate,
+      endDate,
+      days,
+      trip,
+      tripTypes,
+      conditions,
+      categories,
+      language: describeLanguage(
+        locale,
+        ...categories.flatMap((category) =>
+          category.items.map((item) => item.label),
+        ),
+      ),
+    };
+  }
+
+  private addEssentials(
+    list: PackingListBuilder,
+    days: number,
+    conditions: PackingConditions | null,
+  ): void {
+    const length = list.forDays('length', days);
+    const daily = Math.min(days, LAUNDRY_DAYS);
+    // Shorts take over on hot days
+    const trouserDays = Math.max(days - (conditions?.hotDays ?? 0), 1);
+
+    list
+      .add('tops', daily, length)
+      .add('underwear', daily, length)
+      .add('socks', daily, length)
+      .add('trousers', Math.min(Math.ceil(trouserDays / 3), 3), length)
+      .add('sleepwear', days > LAUNDRY_DAYS ? 2 : 1)
+      .add('walking-shoes')
+      .add('toiletry-kit')
+      .add('medications')
+      .add('phone-charger')
+      .add('power-adapter')
+      .add('passport')
+      .add('travel-insurance')
+      .add('bookings');
+  }
+
+  private addForWeather(
+    list: PackingListBuilder,
+    conditions: PackingConditions,
+  ): void {
+    const { rainyDays, snowyDays, coldDays, coolDays, hotDays, sunnyDays } =
+      conditions;
+
+    if (rainyDays > 0) {
+      const rain = list.forDays('rain', rainyDays);
+      list.add('umbrella', 1, rain).add('rain-jacket', 1, rain);
+      if (rainyDays >= 3) {
+        list.add('waterproof-shoes', 1, rain);
+      }
+    }
+    if (snowyDays > 0) {
+      const snow = list.forDays('snow', snowyDays);
+      list
+        .add('warm-jacket', 1, snow)
+        .add('winter-accessories', 1, snow)
+        .add('waterproof-shoes', 1, snow);
+    }
+    if (coldDays > 0) {
+      const cold = list.forDays('cold', coldDays);
+      list.add('warm-jacket', 1, cold).add('winter-accessories', 1, cold);
+    }
+    if (coolDays > 0) {
+      list.add(
+        'sweater',
+        Math.min(Math.ceil(coolDays / 4), 2),
+        list.forDays('cool', coolDays),
+      );
+    }
+    if (hotDays > 0) {
+      const hot = list.forDays('hot', hotDays);
+      list
+        .add('shorts', Math.min(Math.ceil(hotDays / 2), 4), hot)
+        .add('sun-hat', 1, hot)
+        .add('sunscreen', 1, hot);
+    }
+    if (sunnyDays > 0) {
+      const sun = list.forDays('sun', sunnyDays);
+      list.add('sunglasses', 1, sun).add('sunscreen', 1, sun);
+    }
+  }
+
+  private addForTrip(
+    list: PackingListBuilder,
+    tripType: TripType,
+    days: number,
+  ): void {
+    const reason = list.forTrip(tripType);
+    switch (tripType) {
+      case 'business':
+        list
+          .add('smart-outfit', Math.min(Math.ceil(days / 2), 3), reason)
+          .add('laptop', 1, reason)
+          .add('business-cards', 1, reason);
+        break;
+      case 'beach':
+        list
+          .add('swimwear', days > 3 ? 2 : 1, reason)
+          .add('sunscreen', 1, reason)
+          .add('sun-hat', 1, reason)
+          .add('sunglasses', 1, reason);
+        break;
+      case 'hiking':
+        list
+          .add('hiking-boots', 1, reason)
+          .add('rain-jacket', 1, reason)
+          .add('headlamp', 1, reason)
+          .add('first-aid-kit', 1, reason)
+          .add('power-bank', 1, reason);
+        break;
+      case 'ski':
+        list
+          .add('thermal-layers', 2, reason)
+          .add('warm-jacket', 1, reason)
+          .add('winter-accessories', 1, reason)
+          .add('sunscreen', 1, reason)
+          .add('sunglasses', 1, reason);
+        break;
+      case 'family':
+        list.add('first-aid-kit', 1, reason).add('power-bank', 1, reason);
+        break;
+      case 'romantic':
+        list.add('smart-outfit', 1, reason);
+        break;
+    }
+  }
+}
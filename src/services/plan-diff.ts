@@ -0,0 +1,100 @@
+import type { ItineraryItem, TripPlanData } from './recommendation.service';
+
+export type ItineraryChangeType = 'added' | 'removed' | 'changed';
+
+export interface ItineraryChange {
+  date: string;
+  change: ItineraryChangeType;
+  /** The item as it was; not set for added items */
+  before?: ItineraryItem;
+  /** The item as it is now; not set for removed items */
+  after?: ItineraryItem;
+  /** What differs on a changed item, e.g. `startTime` */
+  fields?: (keyof ItineraryItem)[];
+}
+
+export interface TripPlanDiff {
+  /** Free-text fields that were rewritten */
+  fields: ('title' | 'description' | 'activities' | 'summary')[];
+  /** Itinerary changes, in date order */
+  items: ItineraryChange[];
+}
+
+const TEXT_FIELDS: TripPlanDiff['fields'] = [
+  'title',
+  'description',
+  'activities',
+  'summary',
+];
+
+const ITEM_FIELDS: (keyof ItineraryItem)[] = [
+  'startTime',
+  'category',
+  'durationHours',
+  'setting',
+  'neighbourhood',
+];
+
+const itemKey = (item: ItineraryItem) => item.title.trim().toLowerCase();
+
+/**
+ * Compares two versions of a plan day by day. Items are matched by title
+ * within a day, so a replaced activity shows as one removed and one added
+ * item, and an activity moved to another day as removed on the old day and
+ * added on the new one.
+ */
+export function diffTripPlans(
+  before: TripPlanData,
+  after: TripPlanData,
+): TripPlanDiff {
+  const dates = [
+    ...new Set([...before.days, ...after.days].map((day) => day.date)),
+  ].sort();
+  const itemsOn = (plan: TripPlanData, date: string) =>
+    plan.days.find((day) => day.date === date)?.items ?? [];
+
+  return {
+    fields: TEXT_FIELDS.filter(
+      (field) => (before[field] ?? '') !== (after[field] ?? ''),
+    ),
+    items: dates.flatMap((date) =>
+      diffItems(date, itemsOn(before, date), itemsOn(after, date)),
+    ),
+  };
+}
+
+function diffItems(
+  date: string,
+  before: ItineraryItem[],
+  after: ItineraryItem[],
+): ItineraryChange[] {
+  const unmatched = [...after];
+  const changes: ItineraryChange[] = [];
+
+  before.forEach((item) => {
+    const index = unmatched.findIndex(
+      (candidate) => itemKey(candidate) === itemKey(item),
+    );
+    if (index === -1) {
+      changes.push({ date, change: 'removed', before: item });
+      return;
+    }
+
+    const [match] = unmatched.splice(index, 1);
+    const fields = ITEM_FIELDS.filter((field) => item[field] !== match[field]);
+    if (fields.length > 0) {
+      changes.push({
+        date,
+        change: 'changed',
+        before: item,
+        after: match,
+        fields,
+      });
+    }
+  });
+
+  unmatched.forEach((item) =>
+    changes.push({ date, change: 'added', after: item }),
+  );
+  return changes;
+}
@@ -0,0 +1,185 @@
+import {
+  PlanSessionBusyError,
+  PlanSessionService,
+} from './plan-session.service';
+import {
+  ItineraryItem,
+  RecommendationService,
+  TripPlanConversation,
+  TripPlanData,
+} from './recommendation.service';
+import { diffTripPlans } from './plan-diff';
+
+const item = (
+  title: string,
+  startTime: string,
+  durationHours = 2,
+): ItineraryItem => ({
+  startTime,
+  title,
+  category: 'sightseeing',
+  durationHours,
+  setting: 'outdoor',
+  neighbourhood: 'Centro',
+});
+
+const plan = (title: string, ...items: ItineraryItem[][]): TripPlanData =>
+  ({
+    title,
+    description: 'Rome',
+    activities: '1. Walk',
+    summary: 'Rome in two days',
+    days: items.map((dayItems, index) => ({
+      date: `2026-06-0${index + 4}`,
+      items: dayItems,
+    })),
+  }) as TripPlanData;
+
+const conversation = (data: TripPlanData): TripPlanConversation => ({
+  plan: data,
+  messages: [],
+  promptVersion: 'v5',
+  weather: null,
+});
+
+describe('PlanSessionService', () => {
+  const first = plan(
+    'Rome on foot',
+    [item('Colosseum', '09:00'), item('Vatican Museums', '14:00', 3)],
+    [item('Trastevere walk', '10:00', 4)],
+  );
+  let startTripPlanConversation: jest.Mock;
+  let reviseTripPlan: jest.Mock;
+  let service: PlanSessionService;
+
+  beforeEach(() => {
+    startTripPlanConversation = jest.fn(() =>
+      Promise.resolve(conversation(first)),
+    );
+    reviseTripPlan = jest.fn();
+    service = new PlanSessionService({
+      startTripPlanConversation,
+      reviseTripPlan,
+    } as unknown as RecommendationService);
+  });
+
+  const create = (apiKeyId: string | null = null) =>
+    service.create(
+      {
+        city: 'Rome',
+        startDate: '2026-06-04',
+        endDate: '2026-06-05',
+        trip: 'family',
+        bookings: [{ type: 'tour', title: 'Borghese', startsAt: '2026-06-05' }],
+      },
+      apiKeyId,
+    );
+
+  it('should revise the plan and report what changed', async () => {
+    const session = await create();
+    expect(session).toMatchObject({
+      locale: 'en',
+      promptVersion: 'v5',
+      bookings: [{ id: 'booking-1', title: 'Borghese' }],
+      revisions: [{ revision: 0, instruction: null }],
+    });
+
+    const revised = plan(
+      'Rome on foot',
+      [item('Colosseum', '09:30'), item('Food tour', '14:00', 3)],
+      [item('Trastevere walk', '10:00', 2)],
+    );
+    reviseTripPlan.mockResolvedValueOnce(conversation(revised));
+
+    const result = await service.revise(session.id, 'less walking');
+    expect(reviseTripPlan).toHaveBeenCalledWith(
+      expect.objectContaining({ plan: first }),
+      'Rome',
+      '2026-06-04',
+      '2026-06-05',
+      'less walking',
+      expect.objectContaining({ promptVersion: 'v5', locale: 'en' }),
+    );
+    expect(result?.revision).toBe(1);
+    expect(result?.diff.fields).toEqual([]);
+    expect(
+      result?.diff.items.map(({ date, change, before, after, fields }) => [
+        date,
+        change,
+        (before ?? after)?.title,
+        fields,
+      ]),
+    ).toEqual([
+      ['2026-06-04', 'changed', 'Colosseum', ['startTime']],
+      ['2026-06-04', 'removed', 'Vatican Museums', undefined],
+      ['2026-06-04', 'added', 'Food tour', undefined],
+      ['2026-06-05', 'changed', 'Trastevere walk', ['durationHours']],
+    ]);
+    expect(service.get(session.id)?.plan).toBe(revised);
+    expect(service.get(session.id)?.revisions).toHaveLength(2);
+  });
+
+  it('should keep the previous plan when a revision fails', async () => {
+    const session = await create();
+    reviseTripPlan.mockRejectedValueOnce(new Error('model down'));
+
+    await expect(service.refresh(session.id)).rejects.toThrow('model down');
+    expect(service.get(session.id)?.plan).toBe(first);
+    await expect(service.revise('unknown', 'more food')).resolves.toBe(
+      undefined,
+    );
+  });
+
+  it('should only show a session to the API key that started it', async () => {
+    const session = await create('key-1');
+
+    expect(service.get(session.id, 'key-1')).toMatchObject({
+      apiKeyId: 'key-1',
+    });
+    expect(service.get(session.id, 'key-2')).toBeUndefined();
+    expect(service.get(session.id)).toBeUndefined();
+    await expect(
+      service.revise(session.id, 'more food', 'key-2'),
+    ).resolves.toBeUndefined();
+    expect(reviseTripPlan).not.toHaveBeenCalled();
+    expect(service.delete(session.id, 'key-2')).toBe(false);
+    expect(service.delete(session.id, 'key-1')).toBe(true);
+  });
+
+  it('should reject a follow-up while one is running', async () => {
+    const session = await create();
+    let finish: (value: TripPlanConversation) => void = () => undefined;
+    reviseTripPlan.mockReturnValueOnce(
+      new Promise((resolve) => (finish = resolve)),
+    );
+
+    const running = service.revise(session.id, 'more museums');
+    await expect(service.revise(session.id, 'less')).rejects.toBeInstanceOf(
+      PlanSessionBusyError,
+    );
+    finish(conversation(plan('Rome indoors', [], [])));
+    await expect(running).resolves.toMatchObject({
+      diff: { fields: ['title'] },
+    });
+  });
+
+  it('should diff rewritten text fields and days on one side only', () => {
+    const shorter = { ...first, summary: 'Short', days: first.days.slice(1) };
+
+    expect(diffTripPlans(first, shorter)).toEqual({
+      fields: ['summary'],
+      items: [
+        {
+          date: '2026-06-04',
+          change: 'removed',
+          before: first.days[0].items[0],
+        },
+        {
+          date: '2026-06-04',
+          change: 'removed',
+          before: first.days[0].items[1],
+        },
+      ],
+    });
+  });
+});
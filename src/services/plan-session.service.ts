@@ -0,0 +1,251 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import {
+  RecommendationService,
+  TripPlanConversation,
+  TripPlanData,
+  TripPlanOptions,
+} from './recommendation.service';
+import { TripPlanDiff, diffTripPlans } from './plan-diff';
+import { Booking, BookingInput } from './bookings';
+import { resolveLocale } from '../i18n/locale';
+
+/** Sessions nobody touched for this long are dropped */
+const SESSION_IDLE_MS = 60 * 60 * 1000;
+/** The oldest sessions are dropped beyond this many */
+const MAX_SESSIONS = 100;
+
+/** Instruction behind the "refresh recommendations" action */
+const REFRESH_INSTRUCTION =
+  'Replace the suggested activities with different places and experiences of the same kind, keeping the same pace and the booked items.';
+
+export interface PlanSessionInput {
+  city: string;
+  startDate: string;
+  endDate: string;
+  trip: string;
+  weatherAware?: boolean;
+  promptVersion?: string;
+  locale?: string;
+  bookings?: BookingInput[];
+}
+
+export interface PlanRevision {
+  /** 0 for the first plan, then one more per follow-up */
+  revision: number;
+  /** What the traveler asked for; null for the first plan */
+  instruction: string | null;
+  diff: TripPlanDiff | null;
+  createdAt: string;
+}
+
+export interface PlanSession {
+  id: string;
+  /** The API key that started the session; null for the admin key or with auth off */
+  apiKeyId: string | null;
+  city: string;
+  startDate: string;
+  endDate: string;
+  trip: string;
+  locale: string;
+  weatherAware: boolean;
+  promptVersion: string;
+  bookings: Booking[];
+  /** The latest plan */
+  plan: TripPlanData;
+  revisions: PlanRevision[];
+  createdAt: string;
+  updatedAt: string;
+  expiresAt: string;
+}
+
+export interface PlanRevisionResult {
+  sessionId: string;
+  revision: number;
+  plan: TripPlanData;
+  diff: TripPlanDiff;
+}
+
+/** A follow-up arrived while the previous one was still being generated */
+export class PlanSessionBusyError extends Error {
+  constructor(readonly sessionId: string) {
+    super(`Session ${sessionId} is still revising its plan`);
+    this.name = 'PlanSessionBusyError';
+  }
+}
+
+interface SessionEntry {
+  session: PlanSession;
+  conversation: TripPlanConversation;
+  busy: boolean;
+}
+
+/**
+ * Keeps a generated plan with the conversation behind it so follow-up
+ * instructions revise it instead of starting over. Sessions live in memory
+ * and expire after an hour without use.
+ */
+@Injectable()
+export class PlanSessionService {
+  private readonly logger = new Logger(PlanSessionService.name);
+  private readonly sessions = new Map<string, SessionEntry>();
+
+  constructor(private readonly recommendationService: RecommendationService) {}
+
+  /** Generates the first plan; throws when the model cannot produce one */
+  async create(
+    input: PlanSessionInput,
+    apiKeyId: string | null = null,
+  ): Promise<PlanSession> {
+    const bookings = (input.bookings ?? []).map((booking, index) => ({
+      id: `booking-${index + 1}`,
+      ...booking,
+    }));
+    const conversation =
+      await this.recommendationService.startTripPlanConversation(
+        input.city,
+        input.startDate,
+        input.endDate,
+        input.trip,
+        {
+          weatherAware: input.weatherAware,
+          promptVersion: input.promptVersion,
+          locale: input.locale,
+          bookings,
+        },
+      );
+
+    const now = new Date();
+    const session: PlanSession = {
+      id: randomUUID(),
+      apiKeyId,
+      city: input.city,
+      startDate: input.startDate,
+      endDate: input.endDate,
+      trip: input.trip,
+      locale: resolveLocale(input.locale).tag,
+      weatherAware: !!input.weatherAware,
+      promptVersion: conversation.promptVersion,
+      bookings,
+      plan: conversation.plan,
+      revisions: [
+        {
+          revision: 0,
+          instruction: null,
+          diff: null,
+          createdAt: now.toISOString(),
+        },
+      ],
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      expiresAt: this.expiresAt(now),
+    };
+
+    this.prune(MAX_SESSIONS - 1);
+    this.sessions.set(session.id, { session, conversation, busy: false });
+    this.logger.log(`Started plan session ${session.id} for ${session.city}`);
+    return session;
+  }
+
+  /** Undefined for an unknown session or one started with another API key */
+  get(id: string, apiKeyId: string | null = null): PlanSession | undefined {
+    this.prune();
+    return this.find(id, apiKeyId)?.session;
+  }
+
+  delete(id: string, apiKeyId: string | null = null): boolean {
+    return !!this.find(id, apiKeyId) && this.sessions.delete(id);
+  }
+
+  /**
+   * Revises the latest plan following the instruction. Resolves to
+   * undefined for an unknown session; a failed revision throws and leaves
+   * the session as it was.
+   */
+  async revise(
+    id: string,
+    instruction: string,
+    apiKeyId: string | null = null,
+  ): Promise<PlanRevisionResult | undefined> {
+    const entry = this.find(id, apiKeyId);
+    if (!entry || this.isExpired(entry.session)) {
+      return undefined;
+    }
+    if (entry.busy) {
+      throw new PlanSessionBusyError(id);
+    }
+
+    const { session } = entry;
+    entry.busy = true;
+    try {
+      const conversation = await this.recommendationService.reviseTripPlan(
+        entry.conversation,
+        session.city,
+        session.startDate,
+        session.endDate,
+        instruction,
+        this.toOptions(session),
+      );
+      const diff = diffTripPlans(session.plan, conversation.plan);
+      const now = new Date();
+      const revision = session.revisions.length;
+
+      entry.conversation = conversation;
+      session.plan = conversation.plan;
+      session.revisions.push({
+        revision,
+        instruction,
+        diff,
+        createdAt: now.toISOString(),
+      });
+      session.updatedAt = now.toISOString();
+      session.expiresAt = this.expiresAt(now);
+      return { sessionId: id, revision, plan: session.plan, diff };
+    } finally {
+      entry.busy = false;
+    }
+  }
+
+  /** Asks for different suggestions in the same plan */
+  refresh(
+    id: string,
+    apiKeyId: string | null = null,
+  ): Promise<PlanRevisionResult | undefined> {
+    return this.revise(id, REFRESH_INSTRUCTION, apiKeyId);
+  }
+
+  private find(id: string, apiKeyId: string | null): SessionEntry | undefined {
+    const entry = this.sessions.get(id);
+    return entry?.session.apiKeyId === apiKeyId ? entry : undefined;
+  }
+
+  private toOptions(session: PlanSession): TripPlanOptions {
+    return {
+      locale: session.locale,
+      weatherAware: session.weatherAware,
+      promptVersion: session.promptVersion,
+      bookings: session.bookings,
+    };
+  }
+
+  private expiresAt(from: Date): string {
+    return new Date(from.getTime() + SESSION_IDLE_MS).toISOString();
+  }
+
+  private isExpired(session: PlanSession): boolean {
+    return Date.parse(session.expiresAt) <= Date.now();
+  }
+
+  /** Drops expired sessions, then the least recently used beyond the limit */
+  private prune(limit = MAX_SESSIONS): void {
+    for (const [id, entry] of this.sessions) {
+      if (this.isExpired(entry.session)) {
+        this.sessions.delete(id);
+      }
+    }
+    [...this.sessions.values()]
+      .sort((a, b) => a.session.updatedAt.localeCompare(b.session.updatedAt))
+      .slice(0, Math.max(0, this.sessions.size - limit))
+      .forEach((entry) => this.sessions.delete(entry.session.id));
+  }
+}
@@ -0,0 +1,98 @@
+import { cpSync, mkdirSync, mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  PromptRegistryService,
+  PromptTemplateError,
+} from './prompt-registry.service';
+import { ApiError } from '../validation/api-error';
+
+describe('PromptRegistryService', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'prompts-'));
+    cpSync('prompts', directory, { recursive: true });
+  });
+
+  const addVersion = (version: string, content: string) => {
+    mkdirSync(join(directory, 'money-saving-tips', version));
+    writeFileSync(
+      join(directory, 'money-saving-tips', version, 'tips.txt'),
+      content,
+    );
+  };
+
+  const setRollout = (rollout: unknown) =>
+    writeFileSync(
+      join(directory, 'money-saving-tips', 'rollout.json'),
+      JSON.stringify(rollout),
+    );
+
+  it('should render the default version with named variables', () => {
+    const registry = new PromptRegistryService(directory);
+    const selection = registry.select('money-saving-tips');
+    const prompt = registry.render(selection, 'tips', {
+      tripName: 'Summer',
+      cities: 'Paris, Rome',
+      startDate: '6/1/2026',
+      endDate: '6/5/2026',
+      duration: 4,
+      firstDate: '2026-06-01',
+      lastDate: '2026-06-05',
+      language: 'English',
+    });
+
+    expect(selection.id).toBe('money-saving-tips-v4');
+    expect(prompt).toContain('- Cities to visit: Paris, Rome');
+    expect(prompt).not.toContain('{{');
+  });
+
+  it('should split traffic between versions and honour a requested one', () => {
+    addVersion('v5', 'Short tips for {{cities}}');
+    addVersion('v6', 'Tips for {{cities}} in {{language}}');
+    setRollout({ default: 'v4', traffic: { v4: 70, v5: 30 } });
+    const random = jest.fn();
+    const registry = new PromptRegistryService(directory, random);
+
+    random.mockReturnValueOnce(0.5).mockReturnValueOnce(0.8);
+    expect(registry.select('money-saving-tips').version).toBe('v4');
+    expect(registry.select('money-saving-tips').version).toBe('v5');
+    expect(registry.select('money-saving-tips', 'v6').id).toBe(
+      'money-saving-tips-v6',
+    );
+  });
+
+  it('should refuse unknown requested versions with a 400', () => {
+    const registry = new PromptRegistryService(directory);
+
+    expect(() =>
+      registry.assertVersion('money-saving-tips', 'v4'),
+    ).not.toThrow();
+    expect(() => registry.assertVersion('money-saving-tips')).not.toThrow();
+    expect(() =>
+      registry.assertVersion('money-saving-tips', 'v9', 'params.promptVersion'),
+    ).toThrow(
+      expect.objectContaining({
+        code: 'UNKNOWN_PROMPT_VERSION',
+        field: 'params.promptVersion',
+      }) as ApiError,
+    );
+  });
+
+  it('should reject templates using unknown variables', () => {
+    addVersion('v5', 'Tips for {{country}}');
+
+    expect(() => new PromptRegistryService(directory)).toThrow(
+      PromptTemplateError,
+    );
+  });
+
+  it('should keep the current templates when a reload fails', () => {
+    const registry = new PromptRegistryService(directory);
+    setRollout({ default: 'v9' });
+
+    expect(() => registry.reload()).toThrow('unknown default version "v9"');
+    expect(registry.select('money-saving-tips').version).toBe('v4');
+  });
+});
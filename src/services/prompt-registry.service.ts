@@ -0,0 +1,297 @@
+import { HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import { join } from 'path';
+import { LLM_FEATURES, LlmFeature } from './model-selection.service';
+import { ApiError } from '../validation/api-error';
+
+/** Templates every version of a feature must provide, with the variables each may use */
+export const PROMPT_TEMPLATES: Record<LlmFeature, Record<string, string[]>> = {
+  weather: {
+    complete: [
+      'city',
+      'startDate',
+      'endDate',
+      'duration',
+      'trip',
+      'dates',
+      'firstDate',
+      'language',
+    ],
+    narrative: [
+      'city',
+      'startDate',
+      'endDate',
+      'trip',
+      'dailyWeather',
+      'language',
+    ],
+  },
+  'trip-plan': {
+    plan: [
+      'city',
+      'startDate',
+      'endDate',
+      'duration',
+      'trip',
+      'dates',
+      'firstDate',
+      'weatherContext',
+      'bookings',
+      'language',
+    ],
+    'weather-context': ['condition', 'temperature', 'forecast', 'dailyWeather'],
+    revise: ['instruction', 'dates', 'language'],
+    transfers: ['trip', 'stays', 'legs', 'bookings', 'language'],
+  },
+  'money-saving-tips': {
+    tips: [
+      'cities',
+      'tripName',
+      'startDate',
+      'endDate',
+      'duration',
+      'firstDate',
+      'lastDate',
+      'language',
+    ],
+  },
+  budget: {
+    estimate: [
+      'cities',
+      'startDate',
+      'endDate',
+      'duration',
+      'tier',
+      'currency',
+    ],
+  },
+};
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+const ROLLOUT_FILE = 'rollout.json';
+
+export type PromptVariables = Record<string, string | number>;
+
+export interface PromptOptions {
+  /** Use this version instead of the rollout's pick */
+  promptVersion?: string;
+}
+
+export interface PromptSelection {
+  feature: LlmFeature;
+  version: string;
+  /** Recorded in response meta and cache keys, e.g. `weather-v3` */
+  id: string;
+}
+
+export interface PromptRollout {
+  default: string;
+  /** Percentage of traffic per version, summing to 100 */
+  traffic?: Record<string, number>;
+}
+
+export interface PromptFeatureInfo {
+  feature: LlmFeature;
+  versions: string[];
+  rollout: PromptRollout;
+}
+
+interface FeaturePrompts {
+  rollout: PromptRollout;
+  versions: Map<string, Record<string, string>>;
+}
+
+export class PromptTemplateError extends Error {
+  constructor(readonly problems: string[]) {
+    super(
+      `Invalid prompt templates:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`,
+    );
+    this.name = 'PromptTemplateError';
+  }
+}
+
+/**
+ * Versioned prompt templates loaded from `<directory>/<feature>/<version>/<template>.txt`.
+ * Each feature's `rollout.json` names the default version and can split
+ * traffic between versions to compare wordings.
+ */
+@Injectable()
+export class PromptRegistryService {
+  private readonly logger = new Logger(PromptRegistryService.name);
+  private prompts: Map<LlmFeature, FeaturePrompts>;
+
+  constructor(
+    private readonly directory: string,
+    private readonly random: () => number = Math.random,
+  ) {
+    this.prompts = this.load();
+  }
+
+  /** Re-reads the templates; the current ones stay active if the files are invalid */
+  reload(): PromptFeatureInfo[] {
+    this.prompts = this.load();
+    this.logger.log(`Reloaded prompt templates from ${this.directory}`);
+    return this.listFeatures();
+  }
+
+  listFeatures(): PromptFeatureInfo[] {
+    return [...this.prompts.entries()].map(([feature, prompts]) => ({
+      feature,
+      versions: [...prompts.versions.keys()],
+      rollout: prompts.rollout,
+    }));
+  }
+
+  hasVersion(feature: LlmFeature, version: string): boolean {
+    return this.prompts.get(feature).versions.has(version);
+  }
+
+  /** Throws a 400 for a requested version the feature does not have */
+  assertVersion(
+    feature: LlmFeature,
+    version?: string,
+    field = 'promptVersion',
+  ): void {
+    if (version && !this.hasVersion(feature, version)) {
+      throw new ApiError(
+        HttpStatus.BAD_REQUEST,
+        'UNKNOWN_PROMPT_VERSION',
+        `Unknown prompt version "${version}" for ${feature}`,
+        field,
+      );
+    }
+  }
+
+  /** Picks the requested version, or one according to the rollout */
+  select(feature: LlmFeature, requested?: string): PromptSelection {
+    const { rollout, versions } = this.prompts.get(feature);
+    const version =
+      requested && versions.has(requested)
+        ? requested
+        : this.pickByTraffic(rollout);
+    return { feature, version, id: `${feature}-${version}` };
+  }
+
+  render(
+    selection: PromptSelection,
+    template: string,
+    variables: PromptVariables,
+  ): string {
+    const content = this.prompts
+      .get(selection.feature)
+      .versions.get(selection.version)[template];
+    if (content === undefined) {
+      throw new Error(`Unknown prompt template ${selection.id}/${template}`);
+    }
+
+    return content.replace(PLACEHOLDER, (_, name: string) => {
+      if (!(name in variables)) {
+        throw new Error(`Missing prompt variable "${name}" in ${template}`);
+      }
+      return String(variables[name]);
+    });
+  }
+
+  private pickByTraffic(rollout: PromptRollout): string {
+    const traffic = Object.entries(rollout.traffic ?? {});
+    let remaining = this.random() * 100;
+    for (const [version, percent] of traffic) {
+      remaining -= percent;
+      if (remaining < 0) {
+        return version;
+      }
+    }
+    return rollout.default;
+  }
+
+  private load(): Map<LlmFeature, FeaturePrompts> {
+    const problems: string[] = [];
+    const prompts = new Map<LlmFeature, FeaturePrompts>();
+
+    LLM_FEATURES.forEach((feature) => {
+      const featureDir = join(this.directory, feature);
+      if (!existsSync(featureDir)) {
+        problems.push(`${featureDir}: missing`);
+        return;
+      }
+
+      const versions = new Map<string, Record<string, string>>();
+      readdirSync(featureDir)
+        .filter((entry) => statSync(join(featureDir, entry)).isDirectory())
+        .sort()
+        .forEach((version) => {
+          versions.set(
+            version,
+            this.loadVersion(feature, join(featureDir, version), problems),
+          );
+        });
+
+      const rollout = this.loadRollout(featureDir, versions, problems);
+      prompts.set(feature, { rollout, versions });
+    });
+
+    if (problems.length > 0) {
+      throw new PromptTemplateError(problems);
+    }
+    return prompts;
+  }
+
+  private loadVersion(
+    feature: LlmFeature,
+    versionDir: string,
+    problems: string[],
+  ): Record<string, string> {
+    const templates: Record<string, string> = {};
+    Object.entries(PROMPT_TEMPLATES[feature]).forEach(([name, variables]) => {
+      const filePath = join(versionDir, `${name}.txt`);
+      if (!existsSync(filePath)) {
+        problems.push(`${filePath}: missing`);
+        return;
+      }
+
+      const content = readFileSync(filePath, 'utf8');
+      for (const [, variable] of content.matchAll(PLACEHOLDER)) {
+        if (!variables.includes(variable)) {
+          problems.push(
+            `${filePath}: unknown variable {{${variable}}}, expected one of ${variables.join(', ')}`,
+          );
+        }
+      }
+      templates[name] = content;
+    });
+    return templates;
+  }
+
+  private loadRollout(
+    featureDir: string,
+    versions: Map<string, Record<string, string>>,
+    problems: string[],
+  ): PromptRollout {
+    const filePath = join(featureDir, ROLLOUT_FILE);
+    let rollout: PromptRollout;
+    try {
+      rollout = JSON.parse(readFileSync(filePath, 'utf8')) as PromptRollout;
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      problems.push(`${filePath}: ${reason}`);
+      return { default: '' };
+    }
+
+    if (!versions.has(rollout.default)) {
+      problems.push(
+        `${filePath}: unknown default version "${rollout.default}"`,
+      );
+    }
+    const traffic = Object.entries(rollout.traffic ?? {});
+    traffic
+      .filter(([version]) => !versions.has(version))
+      .forEach(([version]) =>
+        problems.push(`${filePath}: unknown version "${version}" in traffic`),
+      );
+    const total = traffic.reduce((sum, [, percent]) => sum + percent, 0);
+    if (traffic.length > 0 && total !== 100) {
+      problems.push(`${filePath}: traffic must add up to 100, got ${total}`);
+    }
+    return rollout;
+  }
+}
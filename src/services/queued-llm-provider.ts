@@ -0,0 +1,101 @@
+import {
+  LlmChatMessage,
+  LlmGenerateOptions,
+  LlmGeneration,
+  LlmHealth,
+  LlmModel,
+  LlmProvider,
+  LlmProviderType,
+  LlmPullProgress,
+  LlmStreamChunk,
+} from './llm-provider';
+import { LlmQueue } from './llm-queue';
+
+/**
+ * Puts the generation calls of another provider behind an {@link LlmQueue}.
+ * Model management and health checks go straight through.
+ */
+export class QueuedLlmProvider extends LlmProvider {
+  readonly type: LlmProviderType;
+
+  constructor(
+    private readonly provider: LlmProvider,
+    private readonly queue: LlmQueue,
+  ) {
+    super();
+    this.type = provider.type;
+  }
+
+  async generate(
+    prompt: string,
+    options: LlmGenerateOptions = {},
+  ): Promise<LlmGeneration> {
+    const release = await this.queue.acquire(options.signal);
+    try {
+      return await this.provider.generate(prompt, this.withSignal(options));
+    } finally {
+      release();
+    }
+  }
+
+  async chat(
+    messages: LlmChatMessage[],
+    options: LlmGenerateOptions = {},
+  ): Promise<LlmGeneration> {
+    const release = await this.queue.acquire(options.signal);
+    try {
+      return await this.provider.chat(messages, this.withSignal(options));
+    } finally {
+      release();
+    }
+  }
+
+  async *generateStream(
+    prompt: string,
+    options: LlmGenerateOptions = {},
+  ): AsyncGenerator<LlmStreamChunk> {
+    const release = await this.queue.acquire(options.signal);
+    try {
+      yield* this.provider.generateStream(prompt, this.withSignal(options));
+    } finally {
+      release();
+    }
+  }
+
+  listModels(): Promise<LlmModel[]> {
+    return this.provider.listModels();
+  }
+
+  checkHealth(): Promise<LlmHealth> {
+    return this.provider.checkHealth();
+  }
+
+  pullModel(
+    name: string,
+    signal?: AbortSignal,
+  ): AsyncIterable<LlmPullProgress> {
+    return this.provider.pullModel(name, signal);
+  }
+
+  switchModel(newModel: string): Promise<boolean> {
+    return this.provider.switchModel(newModel);
+  }
+
+  getCurrentModel(): string {
+    return this.provider.getCurrentModel();
+  }
+
+  /** A cancelled job also stops the call it is waiting on */
+  private withSignal(options: LlmGenerateOptions): LlmGenerateOptions {
+    const jobSignal = this.queue.getContext()?.signal;
+    if (!jobSignal) {
+      return options;
+    }
+    return {
+      ...options,
+      signal: options.signal
+        ? AbortSignal.any([options.signal, jobSignal])
+        : jobSignal,
+    };
+  }
+}
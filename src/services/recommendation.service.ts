@@ -1,5 +1,73 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { OllamaService } from './ollama.service';
+import { Injectable, Logger, MessageEvent } from '@nestjs/common';
+import { Observable, from, switchMap } from 'rxjs';
+import { StructuredGenerationService } from './structured-generation.service';
+import { WeatherService, WeatherData } from './weather.service';
+import { CacheOptions, ResponseCacheService } from './response-cache.service';
+import { ResponseMeta, ResponseMetaBuilder } from './response-meta';
+import {
+  PromptOptions,
+  PromptRegistryService,
+  PromptSelection,
+} from './prompt-registry.service';
+import {
+  TRIP_PLAN_SCHEMA,
+  TripPlanResponse,
+  ActivityCategory,
+  ActivitySetting,
+  ItineraryDayResponse,
+  ItineraryItemResponse,
+} from '../schemas/trip-plan.schema';
+import { enumerateDates, formatDate } from '../utils/date.utils';
+import {
+  describeLanguage,
+  LanguageInfo,
+  Locale,
+  LocaleOptions,
+  resolveLocale,
+} from '../i18n/locale';
+import { getMessages } from '../i18n/messages';
+import {
+  MONEY_SAVING_TIPS_SCHEMA,
+  MoneySavingTipResponse,
+  MoneySavingTipsResponse,
+  TIP_CATEGORIES,
+  TipCategory,
+} from '../schemas/money-saving-tips.schema';
+import {
+  BookingCheck,
+  BookingInput,
+  BookingPlan,
+  isFreeOfBookings,
+  planBookings,
+} from './bookings';
+import { LlmChatMessage } from './llm-provider';
+import { filterMoneySavingTips, MoneySavingTipsFilter } from './tip-filter';
+
+export interface ItineraryItem {
+  startTime: string;
+  title: string;
+  category: ActivityCategory;
+  durationHours: number;
+  setting: ActivitySetting;
+  neighbourhood: string;
+  /** Set on items that come from the travelers' own bookings */
+  bookingId?: string;
+}
+
+export interface DayWeatherAssumption {
+  condition: string;
+  icon: string;
+  temperature: number;
+  rainProbability?: number;
+  source: 'daily-forecast' | 'trip-average';
+}
+
+export interface ItineraryDay {
+  date: string;
+  items: ItineraryItem[];
+  /** The weather this day was planned around (weather-aware plans only) */
+  weather?: DayWeatherAssumption;
+}
 
 export interface TripPlanData {
   icon: string;
@@ -7,255 +75,947 @@ export interface TripPlanData {
   description: string;
   activities: string;
   summary?: string;
+  days: ItineraryDay[];
+  /** How each given booking fits the trip (only when bookings were given) */
+  bookings?: BookingCheck[];
+  language: LanguageInfo;
+  meta: ResponseMeta;
+}
+
+// Used when the model returns a time we cannot read: morning, lunch, afternoon, evening...
+const DEFAULT_SLOT_TIMES = ['09:00', '12:30', '15:00', '19:00', '21:00'];
+
+export interface TripPlanOptions
+  extends CacheOptions,
+    PromptOptions,
+    LocaleOptions {
+  /** Fetch the forecast first and plan each day around it */
+  weatherAware?: boolean;
+  /** Forecast already fetched for a weather-aware plan; null plans without one */
+  weather?: WeatherData | null;
+  /** Existing bookings to plan around; nothing is scheduled over them */
+  bookings?: (BookingInput & { id?: string })[];
+}
+
+/** A trip plan with the conversation that produced it, kept to revise it later */
+export interface TripPlanConversation {
+  plan: TripPlanData;
+  messages: LlmChatMessage[];
+  /** The prompt version the conversation started with; revisions stay on it */
+  promptVersion: string;
+  /** Forecast the plan was built around (weather-aware plans only) */
+  weather: WeatherData | null;
 }
 
+// Revisions send the original request, this many earlier turns and the new instruction.
+// Odd, so the turns start with a plan and user and assistant keep alternating.
+const CONVERSATION_CONTEXT_MESSAGES = 5;
+
+export interface MoneySavingTipsOptions
+  extends CacheOptions,
+    PromptOptions,
+    LocaleOptions,
+    MoneySavingTipsFilter {}
+
 export interface MoneySavingTip {
+  category: TipCategory;
+  /** One of the trip's cities; null for tips about the whole trip */
+  city: string | null;
   tip: string;
+  /** The part of the trip the tip is useful in, within the trip dates */
+  validFrom: string;
+  validUntil: string;
+  /** Rough amount saved per traveler; null when the model gave none */
+  estimatedSavings: { amount: number; currency: string } | null;
+}
+
+export interface MoneySavingTips {
+  tips: MoneySavingTip[];
+  language: LanguageInfo;
+  meta: ResponseMeta;
 }
 
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const CURRENCY = /^[A-Z]{3}$/;
+
 @Injectable()
 export class RecommendationService {
   private readonly logger = new Logger(RecommendationService.name);
-  
-  constructor(private readonly ollamaService: OllamaService) {}
 
-  async getTripPlan(city: string, startDate: string, endDate: string, trip: string): Promise<TripPlanData> {
+  constructor(
+    private readonly structuredGeneration: StructuredGenerationService,
+    private readonly weatherService: WeatherService,
+    private readonly responseCache: ResponseCacheService,
+    private readonly promptRegistry: PromptRegistryService,
+  ) {}
+
+  async getTripPlan(
+    city: string,
+    startDate: string,
+    endDate: string,
+    trip: string,
+    options: TripPlanOptions = {},
+  ): Promise<TripPlanData> {
+    const prompt = this.promptRegistry.select(
+      'trip-plan',
+      options.promptVersion,
+    );
+    const locale = resolveLocale(options.locale);
+    const meta = this.structuredGeneration.createMeta(prompt.id, 'trip-plan');
+    const bookings = this.planBookings(options, startDate, endDate);
     try {
-      this.logger.log(`Generating trip plan using Ollama for ${city}, dates: ${startDate} to ${endDate}`);
-      
-      // Generate trip plan using Ollama AI
-      const tripPlanData = await this.generateTripPlanData(city, startDate, endDate, trip);
-      
+      this.logger.log(
+        `Generating trip plan using Ollama for ${city}, dates: ${startDate} to ${endDate}`,
+      );
+
+      // Resolved before the lookup so a plan made without the forecast is not
+      // served once the forecast is back
+      const weather = await this.resolveWeather(
+        city,
+        startDate,
+        endDate,
+        trip,
+        options,
+      );
+
+      const tripPlanData = await this.responseCache.getOrCompute(
+        {
+          namespace: 'trip-plan',
+          inputs: {
+            city,
+            startDate,
+            endDate,
+            trip,
+            weatherAware: !!options.weatherAware,
+            withWeather: !!weather,
+            locale: locale.tag,
+            // Serialized so the booking times are not cut to dates like other inputs
+            ...(bookings && { bookings: JSON.stringify(options.bookings) }),
+          },
+          promptVersion: prompt.id,
+          mode: options.cache,
+        },
+        () =>
+          // Generate trip plan using Ollama AI
+          this.generateTripPlanData(
+            city,
+            startDate,
+            endDate,
+            trip,
+            weather,
+            bookings,
+            prompt,
+            locale,
+            meta,
+          ),
+      );
+
       return tripPlanData;
     } catch (error) {
       console.log(error);
-      this.logger.error(`Error generating Ollama trip plan for ${city}:`, error.message);
-      return this.getFallbackTripPlanData(city, startDate, endDate);
+      this.logger.error(
+        `Error generating Ollama trip plan for ${city}:`,
+        (error as Error).message,
+      );
+      return this.getFallbackTripPlanData(
+        city,
+        startDate,
+        endDate,
+        bookings,
+        locale,
+        meta.build('fallback'),
+      );
     }
   }
 
-  private async generateTripPlanData(city: string, startDate: string, endDate: string, trip: string): Promise<TripPlanData> {
+  streamTripPlan(
+    city: string,
+    startDate: string,
+    endDate: string,
+    trip: string,
+    options: TripPlanOptions = {},
+  ): Observable<MessageEvent> {
+    this.logger.log(
+      `Streaming trip plan using Ollama for ${city}, dates: ${startDate} to ${endDate}`,
+    );
+    const prompt = this.promptRegistry.select(
+      'trip-plan',
+      options.promptVersion,
+    );
+    const locale = resolveLocale(options.locale);
+    const bookings = this.planBookings(options, startDate, endDate);
+
+    return from(
+      this.resolveWeather(city, startDate, endDate, trip, options),
+    ).pipe(
+      switchMap((weather) => {
+        const tripPlanPrompt = this.createTripPlanPrompt(
+          prompt,
+          locale,
+          city,
+          startDate,
+          endDate,
+          trip,
+          weather,
+          bookings,
+        );
+
+        return this.structuredGeneration.stream<TripPlanResponse, TripPlanData>(
+          tripPlanPrompt,
+          TRIP_PLAN_SCHEMA,
+          {
+            transform: (aiResponse, meta) =>
+              this.toTripPlanData(
+                aiResponse,
+                city,
+                startDate,
+                endDate,
+                locale,
+                meta,
+                weather,
+                bookings,
+              ),
+            fallback: (meta) =>
+              this.getFallbackTripPlanData(
+                city,
+                startDate,
+                endDate,
+                bookings,
+                locale,
+                meta,
+              ),
+            meta: this.structuredGeneration.createMeta(prompt.id, 'trip-plan'),
+            logger: this.logger,
+          },
+          { feature: 'trip-plan' },
+        );
+      }),
+    );
+  }
+
+  /**
+   * Generates a trip plan as the first turn of a conversation. Unlike
+   * getTripPlan it neither caches nor falls back: a failure is thrown.
+   */
+  async startTripPlanConversation(
+    city: string,
+    startDate: string,
+    endDate: string,
+    trip: string,
+    options: TripPlanOptions = {},
+  ): Promise<TripPlanConversation> {
+    const prompt = this.promptRegistry.select(
+      'trip-plan',
+      options.promptVersion,
+    );
+    const locale = resolveLocale(options.locale);
+    const bookings = this.planBookings(options, startDate, endDate);
+    this.logger.log(
+      `Starting trip plan conversation for ${city}, dates: ${startDate} to ${endDate}`,
+    );
+
+    const weather = await this.resolveWeather(
+      city,
+      startDate,
+      endDate,
+      trip,
+      options,
+    );
+    const messages: LlmChatMessage[] = [
+      {
+        role: 'user',
+        content: this.createTripPlanPrompt(
+          prompt,
+          locale,
+          city,
+          startDate,
+          endDate,
+          trip,
+          weather,
+          bookings,
+        ),
+      },
+    ];
+    return this.continueTripPlanConversation(
+      messages,
+      prompt,
+      city,
+      startDate,
+      endDate,
+      options,
+      weather,
+    );
+  }
+
+  /** Asks for a revised plan following the traveler's instruction */
+  async reviseTripPlan(
+    conversation: TripPlanConversation,
+    city: string,
+    startDate: string,
+    endDate: string,
+    instruction: string,
+    options: TripPlanOptions = {},
+  ): Promise<TripPlanConversation> {
+    const prompt = this.promptRegistry.select(
+      'trip-plan',
+      conversation.promptVersion,
+    );
+    const locale = resolveLocale(options.locale);
+    this.logger.log(`Revising trip plan for ${city}: ${instruction}`);
+
+    const messages: LlmChatMessage[] = [
+      ...conversation.messages,
+      {
+        role: 'user',
+        content: this.promptRegistry.render(prompt, 'revise', {
+          instruction,
+          dates: enumerateDates(startDate, endDate).join(', '),
+          language: locale.languageName,
+        }),
+      },
+    ];
+    return this.continueTripPlanConversation(
+      messages,
+      prompt,
+      city,
+      startDate,
+      endDate,
+      options,
+      conversation.weather,
+    );
+  }
+
+  private async continueTripPlanConversation(
+    messages: LlmChatMessage[],
+    prompt: PromptSelection,
+    city: string,
+    startDate: string,
+    endDate: string,
+    options: TripPlanOptions,
+    weather: WeatherData | null,
+  ): Promise<TripPlanConversation> {
+    const locale = resolveLocale(options.locale);
+    const meta = this.structuredGeneration.createMeta(prompt.id, 'trip-plan');
+    const context =
+      messages.length > CONVERSATION_CONTEXT_MESSAGES + 2
+        ? [messages[0], ...messages.slice(-(CONVERSATION_CONTEXT_MESSAGES + 1))]
+        : messages;
+
+    const aiResponse = await this.structuredGeneration.chat<TripPlanResponse>(
+      context,
+      TRIP_PLAN_SCHEMA,
+      {
+        feature: 'trip-plan',
+        meta,
+      },
+    );
+    const bookings = this.planBookings(options, startDate, endDate);
+
+    return {
+      plan: this.toTripPlanData(
+        aiResponse,
+        city,
+        startDate,
+        endDate,
+        locale,
+        meta.build('ai'),
+        weather,
+        bookings,
+      ),
+      messages: [
+        ...messages,
+        { role: 'assistant', content: JSON.stringify(aiResponse) },
+      ],
+      promptVersion: prompt.version,
+      weather,
+    };
+  }
+
+  private planBookings(
+    options: TripPlanOptions,
+    startDate: string,
+    endDate: string,
+  ): BookingPlan | null {
+    return options.bookings?.length
+      ? planBookings(options.bookings, startDate, endDate)
+      : null;
+  }
+
+  private async resolveWeather(
+    city: string,
+    startDate: string,
+    endDate: string,
+    trip: string,
+    options: TripPlanOptions,
+  ): Promise<WeatherData | null> {
+    if (!options.weatherAware) {
+      return null;
+    }
+    if (options.weather !== undefined) {
+      return options.weather;
+    }
+
+    this.logger.log(`Fetching weather for weather-aware trip plan in ${city}`);
+    return this.weatherService.getWeatherDataOrNull(
+      city,
+      startDate,
+      endDate,
+      trip,
+      { cache: options.cache, locale: options.locale },
+    );
+  }
+
+  private async generateTripPlanData(
+    city: string,
+    startDate: string,
+    endDate: string,
+    trip: string,
+    weather: WeatherData | null,
+    bookings: BookingPlan | null,
+    prompt: PromptSelection,
+    locale: Locale,
+    meta: ResponseMetaBuilder,
+  ): Promise<TripPlanData> {
     try {
       // Generate trip plan using Ollama
-      const tripPlanPrompt = this.createTripPlanPrompt(city, startDate, endDate, trip);
-      const aiResponse = await this.ollamaService.generateResponse(tripPlanPrompt);
-      
-      // Parse the AI response to extract structured data
-      const parsedData = this.parseOllamaTripPlanResponse(aiResponse, city);
-      
-      return parsedData;
+      const tripPlanPrompt = this.createTripPlanPrompt(
+        prompt,
+        locale,
+        city,
+        startDate,
+        endDate,
+        trip,
+        weather,
+        bookings,
+      );
+      const aiResponse =
+        await this.structuredGeneration.generate<TripPlanResponse>(
+          tripPlanPrompt,
+          TRIP_PLAN_SCHEMA,
+          {
+            feature: 'trip-plan',
+            meta,
+          },
+        );
+
+      return this.toTripPlanData(
+        aiResponse,
+        city,
+        startDate,
+        endDate,
+        locale,
+        meta.build('ai'),
+        weather,
+        bookings,
+      );
     } catch (error) {
-      this.logger.error('Error generating trip plan data from Ollama:', error.message);
+      this.logger.error(
+        'Error generating trip plan data from Ollama:',
+        (error as Error).message,
+      );
       throw error;
     }
   }
 
-  private createTripPlanPrompt(city: string, startDate: string, endDate: string, trip: string): string {
+  private createTripPlanPrompt(
+    prompt: PromptSelection,
+    locale: Locale,
+    city: string,
+    startDate: string,
+    endDate: string,
+    trip: string,
+    weather: WeatherData | null = null,
+    bookings: BookingPlan | null = null,
+  ): string {
     const start = new Date(startDate);
     const end = new Date(endDate);
-    const startFormatted = start.toLocaleDateString('en-US');
-    const endFormatted = end.toLocaleDateString('en-US');
-    const duration = Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
-    
-    return `
-Create a comprehensive trip plan for ${city} for a ${duration}-day trip from ${startFormatted} to ${endFormatted}.
-This trip is for: ${trip}
-
-Please provide the following information in a structured format:
-
-TITLE: [catchy title for the trip plan, 3-5 words]
-DESCRIPTION: [brief description of what to expect in ${city}, 1 sentence]
-ACTIVITIES: [detailed list of activities and attractions to visit in ${city}, formatted as a single paragraph with bullet points or numbered list]
-SUMMARY: [detailed travel guide in English of 200-300 words with day-by-day recommendations, best times to visit attractions, local customs, and practical advice. Add relevant emojis at the start of each section, for example when talking about food, you can add a 🍽️ emoji]
-
-Consider the following:
-- The type of trip (${trip})
-- The duration of stay (${duration} days)
-- Local culture and customs
-- Seasonal considerations
-- Popular tourist spots and hidden gems
-- Practical travel information
-
-Format the response exactly like this:
-TITLE: Amazing ${duration}-Day Adventure in ${city}
-DESCRIPTION: Discover the best of ${city} with our curated ${duration}-day itinerary featuring must-see attractions and local experiences.
-ACTIVITIES: [detailed activities list here...]
-SUMMARY: [detailed travel guide here in English...]
-
-Create a practical and enjoyable trip plan for ${city} during this ${duration}-day trip.
-`;
+    const dates = enumerateDates(startDate, endDate);
+
+    return this.promptRegistry.render(prompt, 'plan', {
+      city,
+      trip,
+      startDate: formatDate(startDate, locale.tag),
+      endDate: formatDate(endDate, locale.tag),
+      duration: Math.ceil(
+        (end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24),
+      ),
+      dates: dates.join(', '),
+      firstDate: dates[0],
+      weatherContext: this.createWeatherContext(prompt, weather),
+      bookings: bookings?.summary.length ? bookings.summary.join('\n') : 'none',
+      language: locale.languageName,
+    });
   }
 
-  private parseOllamaTripPlanResponse(aiResponse: string, city: string): TripPlanData {
-    try {
-      // Parse the structured response from Ollama
-      const lines = aiResponse.split('\n');
-      let title = '';
-      let description = '';
-      let activities = '';
-      let summary = '';
-
-      for (const line of lines) {
-        const trimmedLine = line.trim();
-        if (trimmedLine.startsWith('TITLE:')) {
-          title = trimmedLine.split(':').slice(1).join(':').trim();
-        } else if (trimmedLine.startsWith('DESCRIPTION:')) {
-          description = trimmedLine.split(':').slice(1).join(':').trim();
-        } else if (trimmedLine.startsWith('ACTIVITIES:')) {
-          activities = trimmedLine.split(':').slice(1).join(':').trim();
-        } else if (trimmedLine.startsWith('SUMMARY:')) {
-          summary = trimmedLine.split(':').slice(1).join(':').trim();
-        }
-      }
+  private createWeatherContext(
+    prompt: PromptSelection,
+    weather: WeatherData | null,
+  ): string {
+    if (!weather) {
+      return '';
+    }
 
-      // If summary is incomplete, extract the rest
-      const summaryStartIndex = aiResponse.indexOf('SUMMARY:');
-      if (summaryStartIndex !== -1 && summary.length < 50) {
-        summary = aiResponse
-          .substring(summaryStartIndex + 'SUMMARY:'.length)
-          .trim();
-      }
+    const dailyLines = weather.daily.map(
+      (day) =>
+        `- ${day.date}: ${day.condition}, ${day.minTemperature}–${day.maxTemperature}°C, ${day.rainProbability}% chance of rain`,
+    );
+
+    return this.promptRegistry.render(prompt, 'weather-context', {
+      condition: weather.condition,
+      temperature: weather.temperature,
+      forecast: weather.forecast,
+      dailyWeather:
+        dailyLines.length > 0 ? `Day by day:\n${dailyLines.join('\n')}\n` : '',
+    });
+  }
+
+  private toTripPlanData(
+    aiResponse: TripPlanResponse,
+    city: string,
+    startDate: string,
+    endDate: string,
+    locale: Locale,
+    meta: ResponseMeta,
+    weather: WeatherData | null = null,
+    bookings: BookingPlan | null = null,
+  ): TripPlanData {
+    const messages = getMessages(locale.language);
+    const activities = aiResponse.activities
+      .map((activity) => activity.trim())
+      .filter((activity) => activity.length > 0);
+    const description =
+      aiResponse.description.trim() || messages.tripPlan.description(city);
+    const summary =
+      aiResponse.summary.trim() || messages.tripPlan.summary(city);
+
+    return {
+      icon: '🗺️',
+      title: aiResponse.title.trim() || messages.tripPlan.title(city),
+      description,
+      activities:
+        activities.length > 0
+          ? activities
+              .map((activity, index) => `${index + 1}. ${activity}`)
+              .join('\n')
+          : messages.tripPlan.activities(city),
+      summary,
+      days: this.buildItinerary(
+        aiResponse.days,
+        startDate,
+        endDate,
+        weather,
+        bookings,
+      ),
+      ...(bookings && { bookings: bookings.checks }),
+      language: describeLanguage(locale, description, summary, ...activities),
+      meta,
+    };
+  }
+
+  /**
+   * Lines the model's days up with the actual trip dates: exactly one entry
+   * per date, matched by date first and by position otherwise. Booked items
+   * are added to their days and model items overlapping them are dropped.
+   */
+  private buildItinerary(
+    days: ItineraryDayResponse[],
+    startDate: string,
+    endDate: string,
+    weather: WeatherData | null,
+    bookings: BookingPlan | null = null,
+  ): ItineraryDay[] {
+    const dates = enumerateDates(startDate, endDate);
+    const byDate = new Map(
+      days.map((day) => [day.date.trim().slice(0, 10), day]),
+    );
+    const matchByDate = dates.some((date) => byDate.has(date));
+
+    return dates.map((date, index) => {
+      const day = matchByDate ? byDate.get(date) : days[index];
+      const items = (day?.items || [])
+        .filter((item) => item.title.trim().length > 0)
+        .map((item, itemIndex) => this.toItineraryItem(item, itemIndex))
+        .filter(
+          (item) =>
+            !bookings ||
+            isFreeOfBookings(
+              date,
+              item.startTime,
+              item.durationHours,
+              bookings.slots,
+            ),
+        );
 
       return {
-        icon: '🗺️',
-        title: title || `Trip to ${city}`,
-        description: description || `Discover the best of ${city} with our curated itinerary.`,
-        activities: activities || `Explore ${city}, visit local attractions, and try local cuisine.`,
-        summary: summary || `Discover the best of ${city} with our curated recommendations for activities, attractions, and dining experiences.`
+        date,
+        items: [...items, ...this.toBookedItems(bookings, date)].sort((a, b) =>
+          a.startTime.localeCompare(b.startTime),
+        ),
+        ...(weather && { weather: this.toWeatherAssumption(weather, date) }),
       };
-    } catch (error) {
-      this.logger.error('Error parsing Ollama trip plan response:', error.message);
-      // Return fallback with Ollama-generated basic data
+    });
+  }
+
+  private toBookedItems(
+    bookings: BookingPlan | null,
+    date: string,
+  ): ItineraryItem[] {
+    return (bookings?.slots || [])
+      .filter((slot) => slot.date === date)
+      .map((slot) => ({
+        startTime: slot.startTime,
+        title: slot.title,
+        category: slot.category,
+        durationHours: slot.durationHours,
+        setting: slot.setting,
+        neighbourhood: '',
+        bookingId: slot.bookingId,
+      }));
+  }
+
+  private toWeatherAssumption(
+    weather: WeatherData,
+    date: string,
+  ): DayWeatherAssumption {
+    const daily = weather.daily.find((day) => day.date === date);
+    if (daily) {
       return {
-        icon: '🗺️',
-        title: `Trip to ${city}`,
-        description: `Discover the best of ${city} with our curated itinerary.`,
-        activities: aiResponse.substring(0, 200) || `Explore ${city}, visit local attractions, and try local cuisine.`,
-        summary: aiResponse.substring(0, 300) || `Discover the best of ${city} with our curated recommendations.`
+        condition: daily.condition,
+        icon: daily.icon,
+        temperature: daily.maxTemperature,
+        rainProbability: daily.rainProbability,
+        source: 'daily-forecast',
       };
     }
+
+    return {
+      condition: weather.condition,
+      icon: weather.icon,
+      temperature: weather.temperature,
+      source: 'trip-average',
+    };
   }
 
-  private getFallbackTripPlanData(city: string, startDate: string, endDate: string): TripPlanData {
+  private toItineraryItem(
+    item: ItineraryItemResponse,
+    index: number,
+  ): ItineraryItem {
+    const time = /(\d{1,2})[:.](\d{2})/.exec(item.startTime);
+    const startTime =
+      time && Number(time[1]) < 24
+        ? `${time[1].padStart(2, '0')}:${time[2]}`
+        : DEFAULT_SLOT_TIMES[Math.min(index, DEFAULT_SLOT_TIMES.length - 1)];
+
+    return {
+      startTime,
+      title: item.title.trim(),
+      category: item.category,
+      durationHours: Math.round(item.durationHours * 4) / 4,
+      setting: item.setting,
+      neighbourhood: item.neighbourhood.trim(),
+    };
+  }
+
+  private getFallbackTripPlanData(
+    city: string,
+    startDate: string,
+    endDate: string,
+    bookings: BookingPlan | null,
+    locale: Locale,
+    meta: ResponseMeta,
+  ): TripPlanData {
+    const messages = getMessages(locale.language);
     return {
       icon: '🗺️',
-      title: 'Trip Planning',
-      description: `Unable to load trip planning suggestions for ${city} at this time`,
-      activities: 'Unable to load trip planning suggestions at this time',
-      summary: 'Unable to load trip planning suggestions at this time'
+      title: messages.tripPlan.unavailableTitle,
+      description: messages.tripPlan.unavailableFor(city),
+      activities: messages.tripPlan.unavailable,
+      summary: messages.tripPlan.unavailable,
+      days: enumerateDates(startDate, endDate).map((date) => ({
+        date,
+        items: this.toBookedItems(bookings, date),
+      })),
+      ...(bookings && { bookings: bookings.checks }),
+      language: describeLanguage(locale, messages.tripPlan.unavailable),
+      meta,
     };
   }
 
   async getMoneySavingTips(
-    cities: string[], 
-    startDate: string, 
-    endDate: string, 
-    tripName: string
-  ): Promise<MoneySavingTip> {
+    cities: string[],
+    startDate: string,
+    endDate: string,
+    tripName: string,
+    options: MoneySavingTipsOptions = {},
+  ): Promise<MoneySavingTips> {
+    const prompt = this.promptRegistry.select(
+      'money-saving-tips',
+      options.promptVersion,
+    );
+    const locale = resolveLocale(options.locale);
+    const meta = this.structuredGeneration.createMeta(
+      prompt.id,
+      'money-saving-tips',
+    );
     try {
-      this.logger.log(`Generating money-saving tips for trip: ${tripName}, cities: ${cities.join(', ')}, dates: ${startDate} to ${endDate}`);
-      
-      const tipsData = await this.generateMoneySavingTipsData(cities, startDate, endDate, tripName);
-      
-      return tipsData;
+      this.logger.log(
+        `Generating money-saving tips for trip: ${tripName}, cities: ${cities.join(', ')}, dates: ${startDate} to ${endDate}`,
+      );
+
+      const tipsData = await this.responseCache.getOrCompute(
+        {
+          namespace: 'money-saving-tips',
+          inputs: { cities, startDate, endDate, tripName, locale: locale.tag },
+          promptVersion: prompt.id,
+          mode: options.cache,
+        },
+        () =>
+          this.generateMoneySavingTipsData(
+            cities,
+            startDate,
+            endDate,
+            tripName,
+            prompt,
+            locale,
+            meta,
+          ),
+      );
+
+      return filterMoneySavingTips(tipsData, options);
     } catch (error) {
       console.log(error);
-      this.logger.error(`Error generating money-saving tips for trip ${tripName}:`, error.message);
-      return this.getFallbackMoneySavingTips();
+      this.logger.error(
+        `Error generating money-saving tips for trip ${tripName}:`,
+        (error as Error).message,
+      );
+      return filterMoneySavingTips(
+        this.getFallbackMoneySavingTips(
+          startDate,
+          endDate,
+          locale,
+          meta.build('fallback'),
+        ),
+        options,
+      );
     }
   }
 
+  streamMoneySavingTips(
+    cities: string[],
+    startDate: string,
+    endDate: string,
+    tripName: string,
+    options: PromptOptions & LocaleOptions & MoneySavingTipsFilter = {},
+  ): Observable<MessageEvent> {
+    this.logger.log(
+      `Streaming money-saving tips for trip: ${tripName}, cities: ${cities.join(', ')}, dates: ${startDate} to ${endDate}`,
+    );
+    const prompt = this.promptRegistry.select(
+      'money-saving-tips',
+      options.promptVersion,
+    );
+    const locale = resolveLocale(options.locale);
+    const tipsPrompt = this.createMoneySavingTipsPrompt(
+      prompt,
+      locale,
+      cities,
+      startDate,
+      endDate,
+      tripName,
+    );
+
+    return this.structuredGeneration.stream<
+      MoneySavingTipsResponse,
+      MoneySavingTips
+    >(
+      tipsPrompt,
+      MONEY_SAVING_TIPS_SCHEMA,
+      {
+        transform: (aiResponse, meta) =>
+          filterMoneySavingTips(
+            this.toMoneySavingTips(
+              aiResponse,
+              cities,
+              startDate,
+              endDate,
+              locale,
+              meta,
+            ),
+            options,
+          ),
+        fallback: (meta) =>
+          filterMoneySavingTips(
+            this.getFallbackMoneySavingTips(startDate, endDate, locale, meta),
+            options,
+          ),
+        meta: this.structuredGeneration.createMeta(
+          prompt.id,
+          'money-saving-tips',
+        ),
+        logger: this.logger,
+      },
+      { feature: 'money-saving-tips' },
+    );
+  }
+
   private async generateMoneySavingTipsData(
-    cities: string[], 
-    startDate: string, 
-    endDate: string, 
-    tripName: string
-  ): Promise<MoneySavingTip> {
+    cities: string[],
+    startDate: string,
+    endDate: string,
+    tripName: string,
+    prompt: PromptSelection,
+    locale: Locale,
+    meta: ResponseMetaBuilder,
+  ): Promise<MoneySavingTips> {
     try {
-      const tipsPrompt = this.createMoneySavingTipsPrompt(cities, startDate, endDate, tripName);
-      const aiResponse = await this.ollamaService.generateResponse(tipsPrompt);
-      
-      const parsedData = this.parseMoneySavingTipsResponse(aiResponse);
-      
-      return parsedData;
+      const tipsPrompt = this.createMoneySavingTipsPrompt(
+        prompt,
+        locale,
+        cities,
+        startDate,
+        endDate,
+        tripName,
+      );
+      const aiResponse =
+        await this.structuredGeneration.generate<MoneySavingTipsResponse>(
+          tipsPrompt,
+          MONEY_SAVING_TIPS_SCHEMA,
+          {
+            feature: 'money-saving-tips',
+            meta,
+          },
+        );
+
+      return this.toMoneySavingTips(
+        aiResponse,
+        cities,
+        startDate,
+        endDate,
+        locale,
+        meta.build('ai'),
+      );
     } catch (error) {
-      this.logger.error('Error generating money-saving tips from Ollama:', error.message);
+      this.logger.error(
+        'Error generating money-saving tips from Ollama:',
+        (error as Error).message,
+      );
       throw error;
     }
   }
 
   private createMoneySavingTipsPrompt(
-    cities: string[], 
-    startDate: string, 
-    endDate: string, 
-    tripName: string
+    prompt: PromptSelection,
+    locale: Locale,
+    cities: string[],
+    startDate: string,
+    endDate: string,
+    tripName: string,
   ): string {
     const start = new Date(startDate);
     const end = new Date(endDate);
-    const startFormatted = start.toLocaleDateString('en-US');
-    const endFormatted = end.toLocaleDateString('en-US');
-    const duration = Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
-    const citiesList = cities.join(', ');
-    
-    return `
-You are a travel expert specializing in budget travel and money-saving tips. 
-
-Create specific money-saving advice for a trip with the following details:
-- Trip Name: ${tripName}
-- Cities to visit: ${citiesList}
-- Travel dates: ${startFormatted} to ${endFormatted} (${duration} days)
-
-Provide practical, specific money-saving tips that are tailored to these cities and this type of trip. Include advice about:
-- Transportation options (Uber, public transport, walking)
-- Attraction tickets (buying in advance, combo deals, free days)
-- Accommodation savings
-- Food and dining tips
-- Local transportation between cities
-- Seasonal considerations for these dates
-- Specific deals or passes available in these cities
-
-Format your response exactly like this:
-TIP: [Your comprehensive money-saving advice here, <10 words]
-
-Make the tips specific to the cities mentioned and the trip type. Be practical and actionable.
-`;
+
+    return this.promptRegistry.render(prompt, 'tips', {
+      tripName,
+      cities: cities.join(', '),
+      startDate: formatDate(startDate, locale.tag),
+      endDate: formatDate(endDate, locale.tag),
+      duration: Math.ceil(
+        (end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24),
+      ),
+      firstDate: startDate.slice(0, 10),
+      lastDate: endDate.slice(0, 10),
+      language: locale.languageName,
+    });
   }
 
-  private parseMoneySavingTipsResponse(aiResponse: string): MoneySavingTip {
-    try {
-      const lines = aiResponse.split('\n');
-      let tip = '';
-
-      for (const line of lines) {
-        const trimmedLine = line.trim();
-        if (trimmedLine.startsWith('TIP:')) {
-          tip = trimmedLine.split(':').slice(1).join(':').trim();
-          break;
-        }
-      }
+  private toMoneySavingTips(
+    aiResponse: MoneySavingTipsResponse,
+    cities: string[],
+    startDate: string,
+    endDate: string,
+    locale: Locale,
+    meta: ResponseMeta,
+  ): MoneySavingTips {
+    const tips = aiResponse.tips
+      .map((tip) =>
+        this.toMoneySavingTip(
+          tip,
+          cities,
+          startDate.slice(0, 10),
+          endDate.slice(0, 10),
+        ),
+      )
+      .filter((tip) => tip.tip.length > 0);
+    // Nothing usable came back: answer with the fallback, marked as such so it is not cached
+    if (tips.length === 0) {
+      return this.getFallbackMoneySavingTips(startDate, endDate, locale, {
+        ...meta,
+        source: 'fallback',
+      });
+    }
+    return {
+      tips,
+      language: describeLanguage(locale, ...tips.map((tip) => tip.tip)),
+      meta,
+    };
+  }
 
-      // If tip is incomplete, extract the rest
-      const tipStartIndex = aiResponse.indexOf('TIP:');
-      if (tipStartIndex !== -1 && tip.length < 50) {
-        tip = aiResponse
-          .substring(tipStartIndex + 'TIP:'.length)
-          .trim();
+  // Dates outside the trip are pulled in, an unknown city means the whole trip
+  private toMoneySavingTip(
+    tip: MoneySavingTipResponse,
+    cities: string[],
+    firstDate: string,
+    lastDate: string,
+  ): MoneySavingTip {
+    const city =
+      cities.find(
+        (name) => name.toLowerCase() === tip.city.trim().toLowerCase(),
+      ) ?? null;
+    const clamp = (date: string, fallback: string) => {
+      const day = date.trim().slice(0, 10);
+      if (!DATE.test(day)) {
+        return fallback;
       }
+      return day < firstDate ? firstDate : day > lastDate ? lastDate : day;
+    };
+    const [validFrom, validUntil] = [
+      clamp(tip.validFrom, firstDate),
+      clamp(tip.validUntil, lastDate),
+    ].sort();
+    const currency = tip.currency.trim().toUpperCase();
 
-      return {
-        tip: tip || 'Consider using public transportation, buying attraction tickets in advance, and looking for local deals to save money on your trip.'
-      };
-    } catch (error) {
-      this.logger.error('Error parsing money-saving tips response:', error.message);
-      return {
-        tip: aiResponse.substring(0, 300) || 'Consider using public transportation, buying attraction tickets in advance, and looking for local deals to save money on your trip.'
-      };
-    }
+    return {
+      category: tip.category,
+      city,
+      tip: tip.tip.trim(),
+      validFrom,
+      validUntil,
+      estimatedSavings:
+        tip.estimatedSavings > 0 && CURRENCY.test(currency)
+          ? { amount: Math.round(tip.estimatedSavings), currency }
+          : null,
+    };
   }
 
-  private getFallbackMoneySavingTips(): MoneySavingTip {
+  private getFallbackMoneySavingTips(
+    startDate: string,
+    endDate: string,
+    locale: Locale,
+    meta: ResponseMeta,
+  ): MoneySavingTips {
+    const messages = getMessages(locale.language).moneySavingTips;
+    const tips = TIP_CATEGORIES.map((category) => ({
+      category,
+      city: null,
+      tip: messages.fallback[category],
+      validFrom: startDate.slice(0, 10),
+      validUntil: endDate.slice(0, 10),
+      estimatedSavings: null,
+    }));
     return {
-      tip: 'Consider using public transportation, buying attraction tickets in advance, and looking for local deals to save money on your trip.'
+      tips,
+      language: describeLanguage(locale, ...tips.map((tip) => tip.tip)),
+      meta,
     };
   }
 }
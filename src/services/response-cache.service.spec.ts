@@ -0,0 +1,154 @@
+import { mkdtempSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CacheEntry, MemoryCacheStore } from './cache-store';
+import { FileCacheStore } from './file-cache-store';
+import { ModelSelectionService } from './model-selection.service';
+import { ResponseMeta, ResponseSource } from './response-meta';
+import {
+  CacheLookup,
+  parseCacheMode,
+  ResponseCacheService,
+} from './response-cache.service';
+
+const respond = (source: ResponseSource) => ({
+  summary: 'sunny',
+  meta: { source, model: 'llama3.2:3b' } as ResponseMeta,
+});
+
+describe('ResponseCacheService', () => {
+  let model: string;
+  let compute: jest.Mock;
+  let store: MemoryCacheStore;
+  let service: ResponseCacheService;
+
+  const lookup: CacheLookup = {
+    namespace: 'weather',
+    inputs: {
+      city: 'Paris',
+      startDate: '2025-06-01T10:00:00.000Z',
+      endDate: '2025-06-03',
+    },
+    promptVersion: 'v1',
+  };
+
+  beforeEach(() => {
+    model = 'llama3.2:3b';
+    const modelSelection = {
+      getModel: () => model,
+    } as unknown as ModelSelectionService;
+    compute = jest.fn(() => Promise.resolve(respond('ai')));
+    store = new MemoryCacheStore();
+    service = new ResponseCacheService(store, modelSelection, 60);
+  });
+
+  it('should reuse the cached value for equivalent inputs', async () => {
+    await service.getOrCompute(lookup, compute);
+    const cached = await service.getOrCompute(
+      {
+        ...lookup,
+        inputs: {
+          city: ' paris ',
+          startDate: '2025-06-01',
+          endDate: '2025-06-03T00:00:00.000Z',
+        },
+      },
+      compute,
+    );
+
+    expect(cached).toEqual(respond('cache'));
+    expect(compute).toHaveBeenCalledTimes(1);
+  });
+
+  it('should miss when the model or prompt version changes', async () => {
+    await service.getOrCompute(lookup, compute);
+    await service.getOrCompute({ ...lookup, promptVersion: 'v2' }, compute);
+    model = 'mistral';
+    await service.getOrCompute(lookup, compute);
+
+    expect(compute).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not cache failed computations or fallbacks', async () => {
+    compute.mockRejectedValueOnce(new Error('model offline'));
+    compute.mockResolvedValueOnce(respond('fallback'));
+
+    await expect(service.getOrCompute(lookup, compute)).rejects.toThrow(
+      'model offline',
+    );
+    await service.getOrCompute(lookup, compute);
+    await service.getOrCompute(lookup, compute);
+    await service.getOrCompute(lookup, compute);
+
+    expect(compute).toHaveBeenCalledTimes(3);
+  });
+
+  it('should honour no-cache and no-store modes', async () => {
+    await service.getOrCompute({ ...lookup, mode: 'no-store' }, compute);
+    await service.getOrCompute({ ...lookup, mode: 'no-cache' }, compute);
+    await service.getOrCompute(lookup, compute);
+
+    expect(compute).toHaveBeenCalledTimes(2);
+  });
+
+  it('should invalidate entries by city', async () => {
+    await service.getOrCompute(lookup, compute);
+    await service.getOrCompute(
+      { ...lookup, inputs: { ...lookup.inputs, city: 'Rome' } },
+      compute,
+    );
+
+    await expect(service.invalidate({ city: 'PARIS' })).resolves.toBe(1);
+    await expect(service.getStats()).resolves.toMatchObject({
+      entries: 1,
+      namespaces: { weather: 1 },
+    });
+  });
+
+  it('should drop expired entries when storing new ones', async () => {
+    jest.useFakeTimers({ now: new Date('2025-06-01T10:00:00.000Z') });
+    try {
+      await service.getOrCompute(lookup, compute);
+      jest.advanceTimersByTime(61 * 1000);
+      await service.getOrCompute(
+        { ...lookup, inputs: { ...lookup.inputs, city: 'Rome' } },
+        compute,
+      );
+
+      const cities = (await store.entries()).map(([, entry]) => entry.cities);
+      expect(cities).toEqual([['rome']]);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should drop expired entries from the cache file when writing it', async () => {
+    const filePath = join(mkdtempSync(join(tmpdir(), 'cache-')), 'cache.json');
+    const fileStore = new FileCacheStore(filePath);
+    const now = Date.now();
+    const entry = (expiresAt: number): CacheEntry => ({
+      namespace: 'weather',
+      cities: [],
+      value: {},
+      createdAt: now,
+      expiresAt,
+    });
+
+    await fileStore.set('paris', entry(now + 1000));
+    jest.spyOn(Date, 'now').mockReturnValue(now + 2000);
+    try {
+      await fileStore.set('rome', entry(now + 5000));
+    } finally {
+      jest.restoreAllMocks();
+    }
+
+    const file = JSON.parse(readFileSync(filePath, 'utf8')) as object;
+    expect(Object.keys(file)).toEqual(['rome']);
+  });
+
+  it('should prefer the query parameter over Cache-Control', () => {
+    expect(parseCacheMode(undefined, 'no-cache, max-age=0')).toBe('no-cache');
+    expect(parseCacheMode('no-store', 'no-cache')).toBe('no-store');
+    expect(parseCacheMode()).toBe('default');
+  });
+});
@@ -0,0 +1,189 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { CacheStore, CacheStoreType } from './cache-store';
+import { LlmFeature, ModelSelectionService } from './model-selection.service';
+import { ResponseMeta } from './response-meta';
+
+/** Each feature caches under its own namespace */
+export type CacheNamespace = LlmFeature;
+
+/**
+ * `no-cache` skips the lookup but stores the fresh result,
+ * `no-store` neither reads nor writes the cache.
+ */
+export type CacheMode = 'default' | 'no-cache' | 'no-store';
+
+export interface CacheOptions {
+  cache?: CacheMode;
+}
+
+export interface CacheLookup {
+  namespace: CacheNamespace;
+  inputs: Record<string, unknown>;
+  promptVersion: string;
+  mode?: CacheMode;
+}
+
+export interface CacheInvalidation {
+  namespace?: string;
+  city?: string;
+}
+
+export interface CacheStats {
+  store: CacheStoreType;
+  ttlSeconds: number;
+  entries: number;
+  namespaces: Record<string, number>;
+}
+
+/**
+ * Reads the cache mode from a `cache` query parameter or the request's
+ * Cache-Control header; the query parameter wins.
+ */
+export function parseCacheMode(
+  query?: string,
+  cacheControl?: string,
+): CacheMode {
+  const directives = (query || cacheControl || '').toLowerCase();
+  if (directives.includes('no-store')) {
+    return 'no-store';
+  }
+  if (directives.includes('no-cache')) {
+    return 'no-cache';
+  }
+  return 'default';
+}
+
+/**
+ * Caches generated responses keyed on the normalized request inputs plus
+ * the feature's model and prompt version, so changing either invalidates
+ * earlier answers automatically.
+ */
+@Injectable()
+export class ResponseCacheService {
+  private readonly logger = new Logger(ResponseCacheService.name);
+
+  constructor(
+    private readonly store: CacheStore,
+    private readonly modelSelection: ModelSelectionService,
+    private readonly ttlSeconds: number,
+  ) {}
+
+  /**
+   * Returns the cached value when there is a fresh one, otherwise runs
+   * `compute` and stores its result. Only answers generated by the model
+   * are stored; errors and fallbacks are never cached.
+   */
+  async getOrCompute<T extends { meta: ResponseMeta }>(
+    lookup: CacheLookup,
+    compute: () => Promise<T>,
+  ): Promise<T> {
+    const mode = lookup.mode || 'default';
+    if (this.ttlSeconds === 0 || mode === 'no-store') {
+      return compute();
+    }
+
+    const key = this.createKey(lookup);
+    if (mode === 'default') {
+      const entry = await this.store.get(key);
+      if (entry && entry.expiresAt > Date.now()) {
+        this.logger.log(`Cache hit for ${lookup.namespace} (${key})`);
+        const value = entry.value as T;
+        return { ...value, meta: { ...value.meta, source: 'cache' } };
+      }
+      if (entry) {
+        await this.store.delete([key]);
+      }
+    }
+
+    const value = await compute();
+    if (value.meta.source !== 'ai') {
+      return value;
+    }
+
+    const now = Date.now();
+    await this.store.set(key, {
+      namespace: lookup.namespace,
+      cities: this.getCities(lookup.inputs),
+      value,
+      createdAt: now,
+      expiresAt: now + this.ttlSeconds * 1000,
+    });
+    return value;
+  }
+
+  async invalidate(filter: CacheInvalidation = {}): Promise<number> {
+    const city = filter.city ? this.normalize(filter.city) : undefined;
+    const keys = (await this.store.entries())
+      .filter(
+        ([, entry]) =>
+          (!filter.namespace || entry.namespace === filter.namespace) &&
+          (!city || entry.cities.includes(city)),
+      )
+      .map(([key]) => key);
+
+    await this.store.delete(keys);
+    this.logger.log(`Invalidated ${keys.length} cache entries`);
+    return keys.length;
+  }
+
+  async getStats(): Promise<CacheStats> {
+    const now = Date.now();
+    const namespaces: Record<string, number> = {};
+    const entries = (await this.store.entries()).filter(
+      ([, entry]) => entry.expiresAt > now,
+    );
+    entries.forEach(([, entry]) => {
+      namespaces[entry.namespace] = (namespaces[entry.namespace] || 0) + 1;
+    });
+
+    return {
+      store: this.store.type,
+      ttlSeconds: this.ttlSeconds,
+      entries: entries.length,
+      namespaces,
+    };
+  }
+
+  private createKey(lookup: CacheLookup): string {
+    const fingerprint = JSON.stringify({
+      inputs: this.normalize(lookup.inputs),
+      model: this.modelSelection.getModel(lookup.namespace),
+      promptVersion: lookup.promptVersion,
+    });
+    const hash = createHash('sha256').update(fingerprint).digest('hex');
+    return `${lookup.namespace}:${hash.slice(0, 32)}`;
+  }
+
+  private getCities(inputs: Record<string, unknown>): string[] {
+    const cities = [inputs.city, inputs.cities].flat();
+    return cities
+      .filter((city): city is string => typeof city === 'string')
+      .map((city) => this.normalize(city));
+  }
+
+  /**
+   * Lower-cases and trims strings, reduces ISO timestamps to their date
+   * and sorts object keys, so equivalent requests share a cache entry.
+   */
+  private normalize<T>(value: T): T;
+  private normalize(value: unknown): unknown {
+    if (typeof value === 'string') {
+      const trimmed = value.trim();
+      return /^\d{4}-\d{2}-\d{2}T/.test(trimmed)
+        ? trimmed.slice(0, 10)
+        : trimmed.toLowerCase();
+    }
+    if (Array.isArray(value)) {
+      return (value as unknown[]).map((item) => this.normalize(item));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value as Record<string, unknown>)
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([key, item]) => [key, this.normalize(item)]),
+      );
+    }
+    return value;
+  }
+}
@@ -0,0 +1,53 @@
+import { LlmUsage } from './llm-provider';
+
+/** Where the body of a response came from */
+export type ResponseSource = 'ai' | 'fallback' | 'cache';
+
+export interface ResponseMeta {
+  source: ResponseSource;
+  model: string;
+  promptVersion: string;
+  /** Time spent producing the response, in milliseconds */
+  latencyMs: number;
+  /** Prompt tokens over every LLM call, null when the runtime did not report them */
+  promptEvalCount: number | null;
+  /** Generated tokens over every LLM call, null when the runtime did not report them */
+  evalCount: number | null;
+}
+
+/**
+ * Collects timing and token usage while a response is generated. Create
+ * one per request, pass it to every generation call, then `build()` once
+ * the outcome is known.
+ */
+export class ResponseMetaBuilder {
+  private readonly startedAt = Date.now();
+  private promptEvalCount: number | null = null;
+  private evalCount: number | null = null;
+
+  constructor(
+    private readonly model: string,
+    private readonly promptVersion: string,
+  ) {}
+
+  addUsage(usage?: LlmUsage): void {
+    if (usage?.promptEvalCount !== undefined) {
+      this.promptEvalCount =
+        (this.promptEvalCount ?? 0) + usage.promptEvalCount;
+    }
+    if (usage?.evalCount !== undefined) {
+      this.evalCount = (this.evalCount ?? 0) + usage.evalCount;
+    }
+  }
+
+  build(source: ResponseSource): ResponseMeta {
+    return {
+      source,
+      model: this.model,
+      promptVersion: this.promptVersion,
+      latencyMs: Date.now() - this.startedAt,
+      promptEvalCount: this.promptEvalCount,
+      evalCount: this.evalCount,
+    };
+  }
+}
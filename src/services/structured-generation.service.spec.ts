@@ -0,0 +1,179 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { LlmProvider } from './llm-provider';
+import { ModelSelectionService } from './model-selection.service';
+import {
+  StructuredGenerationService,
+  StructuredOutputError,
+} from './structured-generation.service';
+import { JsonSchema } from '../schemas/json-schema';
+
+const SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', minLength: 1 },
+    temperature: { type: 'integer', minimum: -60, maximum: 60 },
+  },
+  required: ['title', 'temperature'],
+};
+
+describe('StructuredGenerationService', () => {
+  let service: StructuredGenerationService;
+  let generate: jest.Mock;
+  let chat: jest.Mock;
+
+  beforeEach(async () => {
+    generate = jest.fn();
+    chat = jest.fn();
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        StructuredGenerationService,
+        {
+          provide: LlmProvider,
+          useValue: { generate, chat, getCurrentModel: () => 'test' },
+        },
+        {
+          provide: ModelSelectionService,
+          useFactory: (llmProvider: LlmProvider) =>
+            new ModelSelectionService(llmProvider, { weather: 'small' }),
+          inject: [LlmProvider],
+        },
+      ],
+    }).compile();
+
+    service = app.get(StructuredGenerationService);
+  });
+
+  const respondWith = (...texts: string[]) =>
+    texts.forEach((text) =>
+      generate.mockResolvedValueOnce({
+        text,
+        model: 'test',
+        usage: { promptEvalCount: 10, evalCount: 5 },
+      }),
+    );
+
+  it('should return valid JSON and pass the schema as format', async () => {
+    respondWith('{"title": "Paris", "temperature": 21}');
+
+    await expect(service.generate('prompt', SCHEMA)).resolves.toEqual({
+      title: 'Paris',
+      temperature: 21,
+    });
+    expect(generate).toHaveBeenCalledWith('prompt', {
+      model: 'test',
+      format: SCHEMA,
+    });
+  });
+
+  it("should generate with the feature's model, repairs included", async () => {
+    respondWith('{"title": "Oslo"}', '{"title": "Oslo", "temperature": 4}');
+
+    await service.generate('prompt', SCHEMA, { feature: 'weather' });
+
+    expect(generate).toHaveBeenCalledTimes(2);
+    (generate.mock.calls as [string, { model: string }][]).forEach(
+      ([, options]) => expect(options.model).toBe('small'),
+    );
+    expect(service.createMeta('v1', 'weather').build('ai').model).toBe('small');
+  });
+
+  it('should accept JSON wrapped in markdown fences', async () => {
+    respondWith('Sure!\n```json\n{"title": "Rome", "temperature": 30}\n```');
+
+    await expect(service.generate('prompt', SCHEMA)).resolves.toEqual({
+      title: 'Rome',
+      temperature: 30,
+    });
+  });
+
+  it('should send a repair prompt listing the problems', async () => {
+    respondWith(
+      '{"title": "Oslo", "temperature": "cold"}',
+      '{"title": "Oslo", "temperature": 4}',
+    );
+
+    await expect(service.generate('prompt', SCHEMA)).resolves.toEqual({
+      title: 'Oslo',
+      temperature: 4,
+    });
+    expect(generate).toHaveBeenCalledTimes(2);
+    const repairPrompt = (generate.mock.calls as string[][])[1][0];
+    expect(repairPrompt).toContain('$.temperature: expected integer');
+    expect(repairPrompt).toContain('"temperature": "cold"');
+  });
+
+  it('should repair chat answers as further turns of the conversation', async () => {
+    chat
+      .mockResolvedValueOnce({ text: '{"title": "Oslo"}', model: 'test' })
+      .mockResolvedValueOnce({
+        text: '{"title": "Oslo", "temperature": 4}',
+        model: 'test',
+      });
+    const messages = [{ role: 'user' as const, content: 'prompt' }];
+
+    await expect(service.chat(messages, SCHEMA)).resolves.toEqual({
+      title: 'Oslo',
+      temperature: 4,
+    });
+    const [repairMessages, options] = chat.mock.calls[1] as [
+      { role: string; content: string }[],
+      { format: JsonSchema },
+    ];
+    expect(repairMessages.map((message) => message.role)).toEqual([
+      'user',
+      'assistant',
+      'user',
+    ]);
+    expect(repairMessages[2].content).toContain('$.temperature: is required');
+    expect(options.format).toBe(SCHEMA);
+    expect(generate).not.toHaveBeenCalled();
+  });
+
+  it('should give up after the configured number of repairs', async () => {
+    respondWith('not json', '{"title": ""}');
+
+    await expect(
+      service.generate('prompt', SCHEMA, { maxRepairAttempts: 1 }),
+    ).rejects.toBeInstanceOf(StructuredOutputError);
+    expect(generate).toHaveBeenCalledTimes(2);
+  });
+
+  it('should add the token usage of every call to the meta', async () => {
+    respondWith('{"title": "Oslo"}', '{"title": "Oslo", "temperature": 4}');
+    const meta = service.createMeta('test-v1');
+
+    await service.generate('prompt', SCHEMA, { meta });
+
+    expect(meta.build('ai')).toMatchObject({
+      source: 'ai',
+      model: 'test',
+      promptVersion: 'test-v1',
+      promptEvalCount: 20,
+      evalCount: 10,
+    });
+  });
+
+  it("should merge the feature's generation settings over the defaults", async () => {
+    const configured = new StructuredGenerationService(
+      { generate } as unknown as LlmProvider,
+      { getModel: () => 'test' } as unknown as ModelSelectionService,
+      {
+        defaults: { temperature: 0.7, maxTokens: 800 },
+        weather: { maxTokens: 1500 },
+      },
+    );
+    respondWith('{"title": "Oslo", "temperature": 4}');
+
+    await configured.generate('prompt', SCHEMA, {
+      feature: 'weather',
+      temperature: 0.1,
+    });
+
+    expect(generate).toHaveBeenCalledWith('prompt', {
+      model: 'test',
+      temperature: 0.1,
+      maxTokens: 1500,
+      format: SCHEMA,
+    });
+  });
+});
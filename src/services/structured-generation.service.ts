@@ -0,0 +1,320 @@
+import { Injectable, Logger, MessageEvent, Optional } from '@nestjs/common';
+import { Observable } from 'rxjs';
+import {
+  LlmChatMessage,
+  LlmGenerateOptions,
+  LlmGeneration,
+  LlmProvider,
+} from './llm-provider';
+import { ResponseMeta, ResponseMetaBuilder } from './response-meta';
+import { LlmFeature, ModelSelectionService } from './model-selection.service';
+import { GenerationConfig } from '../config/app-config';
+import {
+  extractJson,
+  JsonSchema,
+  validateJsonSchema,
+} from '../schemas/json-schema';
+
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+
+/** The options passed on to the provider; the others only steer this service */
+const LLM_OPTION_KEYS: (keyof LlmGenerateOptions)[] = [
+  'model',
+  'temperature',
+  'topP',
+  'maxTokens',
+  'timeoutMs',
+  'signal',
+  'format',
+];
+
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    readonly problems: string[],
+  ) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+export interface StructuredGenerationOptions extends LlmGenerateOptions {
+  maxRepairAttempts?: number;
+  /** Generate with the model selected for this feature */
+  feature?: LlmFeature;
+  /** Receives the token usage of every call, repairs included */
+  meta?: ResponseMetaBuilder;
+}
+
+export interface StructuredStreamHandlers<R, T extends object> {
+  transform: (response: R, meta: ResponseMeta) => T;
+  fallback: (meta: ResponseMeta) => T;
+  meta: ResponseMetaBuilder;
+  logger: Logger;
+}
+
+type ParseResult<T> = { data: T } | { problems: string[] };
+
+/** Asks the model again after `text` failed validation with `problems` */
+type Retry = (text: string, problems: string[]) => Promise<LlmGeneration>;
+
+/**
+ * Generates JSON constrained by a schema, validates the answer and asks the
+ * model to repair it when it does not match. Callers only fall back to
+ * their hardcoded defaults when every repair attempt has failed.
+ */
+@Injectable()
+export class StructuredGenerationService {
+  private readonly logger = new Logger(StructuredGenerationService.name);
+  private lastSuccessAt: Date | null = null;
+
+  constructor(
+    private readonly llmProvider: LlmProvider,
+    private readonly modelSelection: ModelSelectionService,
+    @Optional()
+    private readonly generation: GenerationConfig = { defaults: {} },
+  ) {}
+
+  /** Starts collecting provenance for one response */
+  createMeta(promptVersion: string, feature?: LlmFeature): ResponseMetaBuilder {
+    return new ResponseMetaBuilder(
+      this.modelSelection.getModel(feature),
+      promptVersion,
+    );
+  }
+
+  async generate<T>(
+    prompt: string,
+    schema: JsonSchema,
+    options: StructuredGenerationOptions = {},
+  ): Promise<T> {
+    const { maxRepairAttempts = DEFAULT_MAX_REPAIR_ATTEMPTS, meta } = options;
+    const llmOptions = this.toLlmOptions(options);
+    const { text, usage } = await this.llmProvider.generate(prompt, {
+      ...llmOptions,
+      format: schema,
+    });
+    meta?.addUsage(usage);
+
+    return this.repairUntilValid<T>(
+      schema,
+      text,
+      maxRepairAttempts,
+      this.repairPrompt(prompt, schema, llmOptions),
+      meta,
+    );
+  }
+
+  /**
+   * Like `generate`, but answers the last message of a conversation. A
+   * repair adds the invalid answer and the problems found as two more turns.
+   */
+  async chat<T>(
+    messages: LlmChatMessage[],
+    schema: JsonSchema,
+    options: StructuredGenerationOptions = {},
+  ): Promise<T> {
+    const { maxRepairAttempts = DEFAULT_MAX_REPAIR_ATTEMPTS, meta } = options;
+    const llmOptions = { ...this.toLlmOptions(options), format: schema };
+    const { text, usage } = await this.llmProvider.chat(messages, llmOptions);
+    meta?.addUsage(usage);
+
+    return this.repairUntilValid<T>(
+      schema,
+      text,
+      maxRepairAttempts,
+      (previousResponse, problems) =>
+        this.llmProvider.chat(
+          [
+            ...messages,
+            { role: 'assistant', content: previousResponse },
+            { role: 'user', content: this.describeProblems(schema, problems) },
+          ],
+          llmOptions,
+        ),
+      meta,
+    );
+  }
+
+  /**
+   * Streams the raw JSON tokens as `token` events and finishes with a
+   * `result` event holding the validated (and if needed repaired) data.
+   */
+  stream<R, T extends object>(
+    prompt: string,
+    schema: JsonSchema,
+    handlers: StructuredStreamHandlers<R, T>,
+    options: StructuredGenerationOptions = {},
+  ): Observable<MessageEvent> {
+    const { maxRepairAttempts = DEFAULT_MAX_REPAIR_ATTEMPTS } = options;
+    const llmOptions = this.toLlmOptions(options);
+    const { meta } = handlers;
+
+    return new Observable<MessageEvent>((subscriber) => {
+      const abortController = new AbortController();
+
+      const run = async () => {
+        let text = '';
+        try {
+          for await (const chunk of this.llmProvider.generateStream(prompt, {
+            ...llmOptions,
+            format: schema,
+            signal: abortController.signal,
+          })) {
+            meta.addUsage(chunk.usage);
+            if (chunk.text) {
+              text += chunk.text;
+              subscriber.next({ type: 'token', data: { text: chunk.text } });
+            }
+          }
+          const response = await this.repairUntilValid<R>(
+            schema,
+            text,
+            maxRepairAttempts,
+            this.repairPrompt(prompt, schema, {
+              ...llmOptions,
+              signal: abortController.signal,
+            }),
+            meta,
+          );
+          subscriber.next({
+            type: 'result',
+            data: handlers.transform(response, meta.build('ai')),
+          });
+        } catch (error) {
+          if (abortController.signal.aborted) {
+            return;
+          }
+          handlers.logger.error(
+            'Error while streaming generation:',
+            (error as Error).message,
+          );
+          subscriber.next({
+            type: 'result',
+            data: handlers.fallback(meta.build('fallback')),
+          });
+        }
+        subscriber.complete();
+      };
+
+      void run();
+
+      // Client disconnected: stop the upstream generation as well
+      return () => abortController.abort();
+    });
+  }
+
+  /** When the model last produced output that passed validation */
+  getLastSuccessfulGeneration(): Date | null {
+    return this.lastSuccessAt;
+  }
+
+  private toLlmOptions(
+    options: StructuredGenerationOptions,
+  ): LlmGenerateOptions {
+    const { feature } = options;
+    const llmOptions = Object.fromEntries(
+      LLM_OPTION_KEYS.filter((key) => options[key] !== undefined).map((key) => [
+        key,
+        options[key],
+      ]),
+    ) as LlmGenerateOptions;
+    return {
+      ...this.generation.defaults,
+      ...(feature ? this.generation[feature] : {}),
+      ...llmOptions,
+      model: llmOptions.model ?? this.modelSelection.getModel(feature),
+    };
+  }
+
+  private async repairUntilValid<T>(
+    schema: JsonSchema,
+    initialText: string,
+    maxRepairAttempts: number,
+    retry: Retry,
+    meta?: ResponseMetaBuilder,
+  ): Promise<T> {
+    let text = initialText;
+    let result = this.parse<T>(text, schema);
+
+    for (
+      let attempt = 1;
+      'problems' in result && attempt <= maxRepairAttempts;
+      attempt++
+    ) {
+      this.logger.warn(
+        `Model output did not match schema (repair ${attempt}/${maxRepairAttempts}): ${result.problems.join('; ')}`,
+      );
+      const repair = await retry(text, result.problems);
+      meta?.addUsage(repair.usage);
+      text = repair.text;
+      result = this.parse<T>(text, schema);
+    }
+
+    if ('problems' in result) {
+      throw new StructuredOutputError(
+        'Model output did not match the expected schema',
+        result.problems,
+      );
+    }
+    this.lastSuccessAt = new Date();
+    return result.data;
+  }
+
+  private parse<T>(text: string, schema: JsonSchema): ParseResult<T> {
+    let value: unknown;
+    try {
+      value = extractJson(text);
+    } catch (error) {
+      return {
+        problems: [`Response is not valid JSON: ${(error as Error).message}`],
+      };
+    }
+
+    const problems = validateJsonSchema(value, schema);
+    return problems.length > 0 ? { problems } : { data: value as T };
+  }
+
+  /** Retries a single prompt with the previous response and its problems */
+  private repairPrompt(
+    prompt: string,
+    schema: JsonSchema,
+    llmOptions: LlmGenerateOptions,
+  ): Retry {
+    return (previousResponse, problems) =>
+      this.llmProvider.generate(
+        this.createRepairPrompt(prompt, schema, previousResponse, problems),
+        { ...llmOptions, format: schema },
+      );
+  }
+
+  private createRepairPrompt(
+    prompt: string,
+    schema: JsonSchema,
+    previousResponse: string,
+    problems: string[],
+  ): string {
+    return `
+${prompt.trim()}
+
+Your previous response did not match the required JSON schema.
+Problems found:
+${problems.map((problem) => `- ${problem}`).join('\n')}
+
+Previous response:
+${previousResponse}
+
+Respond again with ONLY a corrected JSON object that matches this schema:
+${JSON.stringify(schema)}
+`;
+  }
+
+  private describeProblems(schema: JsonSchema, problems: string[]): string {
+    return `Your previous response did not match the required JSON schema.
+Problems found:
+${problems.map((problem) => `- ${problem}`).join('\n')}
+
+Respond again with ONLY a corrected JSON object that matches this schema:
+${JSON.stringify(schema)}`;
+  }
+}
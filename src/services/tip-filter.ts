@@ -0,0 +1,36 @@
+import type { MoneySavingTips } from './recommendation.service';
+import type { TipCategory } from '../schemas/money-saving-tips.schema';
+
+export interface MoneySavingTipsFilter {
+  /** Keep the tips in these categories */
+  categories?: TipCategory[];
+  /** Keep the tips for these cities, plus the ones for the whole trip */
+  cities?: string[];
+}
+
+/**
+ * Narrows generated tips down to what the client asked for. Tips are
+ * generated and cached for the whole trip, so filtering happens on the way
+ * out; an empty or missing list keeps everything.
+ */
+export function filterMoneySavingTips(
+  data: MoneySavingTips,
+  filter: MoneySavingTipsFilter,
+): MoneySavingTips {
+  const categories = filter.categories ?? [];
+  const cities = (filter.cities ?? []).map((city) => city.toLowerCase());
+  if (categories.length === 0 && cities.length === 0) {
+    return data;
+  }
+
+  return {
+    ...data,
+    tips: data.tips.filter(
+      (tip) =>
+        (categories.length === 0 || categories.includes(tip.category)) &&
+        (cities.length === 0 ||
+          tip.city === null ||
+          cities.includes(tip.city.toLowerCase())),
+    ),
+  };
+}
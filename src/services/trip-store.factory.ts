@@ -0,0 +1,9 @@
+import { MemoryTripStore, TripStore } from './trip-store';
+import { FileTripStore } from './file-trip-store';
+import { TripStoreConfig } from '../config/app-config';
+
+export function createTripStore(config: TripStoreConfig): TripStore {
+  return config.store === 'file'
+    ? new FileTripStore(config.filePath)
+    : new MemoryTripStore();
+}
@@ -0,0 +1,93 @@
+import type { WeatherData } from './weather.service';
+import type { MoneySavingTips, TripPlanData } from './recommendation.service';
+import type { Booking } from './bookings';
+
+/** One city of a trip and the days spent there */
+export interface TripCity {
+  name: string;
+  startDate: string;
+  endDate: string;
+}
+
+export interface Travelers {
+  adults: number;
+  children: number;
+}
+
+/** Options a result was generated with; asking with other ones regenerates it */
+export interface ResultOptions {
+  locale: string;
+  promptVersion: string | null;
+  weatherAware?: boolean;
+}
+
+export interface SavedResult<T> {
+  generatedAt: string;
+  options: ResultOptions;
+  data: T;
+}
+
+export interface CityResult<T> extends SavedResult<T> {
+  city: string;
+  startDate: string;
+  endDate: string;
+}
+
+/** Generated answers saved against a trip, cleared whenever the trip changes */
+export interface TripResults {
+  weather: CityResult<WeatherData>[];
+  plan: CityResult<TripPlanData>[];
+  tips: SavedResult<MoneySavingTips> | null;
+}
+
+export interface Trip {
+  id: string;
+  /** The API key that created the trip; null for the admin key or with auth off */
+  apiKeyId: string | null;
+  name: string;
+  /** Free-text description of the trip, e.g. "family vacation" */
+  description: string;
+  cities: TripCity[];
+  travelers: Travelers;
+  bookings: Booking[];
+  results: TripResults;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type TripStoreType = 'memory' | 'file';
+
+export abstract class TripStore {
+  abstract readonly type: TripStoreType;
+
+  abstract list(): Promise<Trip[]>;
+
+  abstract get(id: string): Promise<Trip | undefined>;
+
+  abstract save(trip: Trip): Promise<void>;
+
+  /** Resolves to false when there was no such trip */
+  abstract delete(id: string): Promise<boolean>;
+}
+
+export class MemoryTripStore extends TripStore {
+  readonly type = 'memory';
+  private readonly store = new Map<string, Trip>();
+
+  list(): Promise<Trip[]> {
+    return Promise.resolve([...this.store.values()]);
+  }
+
+  get(id: string): Promise<Trip | undefined> {
+    return Promise.resolve(this.store.get(id));
+  }
+
+  save(trip: Trip): Promise<void> {
+    this.store.set(trip.id, trip);
+    return Promise.resolve();
+  }
+
+  delete(id: string): Promise<boolean> {
+    return Promise.resolve(this.store.delete(id));
+  }
+}
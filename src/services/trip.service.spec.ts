@@ -0,0 +1,195 @@
+import { MemoryTripStore } from './trip-store';
+import { TripInput, TripService, getTripDates } from './trip.service';
+import { WeatherService } from './weather.service';
+import { RecommendationService } from './recommendation.service';
+import { ResponseMeta, ResponseSource } from './response-meta';
+
+const respond = (source: ResponseSource) => ({
+  summary: 'sunny',
+  meta: { source, model: 'llama3.2:3b' } as ResponseMeta,
+});
+
+describe('TripService', () => {
+  let getWeatherData: jest.Mock;
+  let getMoneySavingTips: jest.Mock;
+  let getTripPlan: jest.Mock;
+  let service: TripService;
+
+  const input: TripInput = {
+    name: 'Summer in Europe',
+    description: 'family vacation',
+    cities: [
+      { name: 'Paris', startDate: '2026-06-01', endDate: '2026-06-04' },
+      { name: 'Rome', startDate: '2026-06-04', endDate: '2026-06-08' },
+    ],
+    bookings: [
+      { type: 'hotel', title: 'Hotel Lutetia', startsAt: '2026-06-01' },
+    ],
+  };
+
+  beforeEach(() => {
+    getWeatherData = jest.fn(() => Promise.resolve(respond('ai')));
+    getMoneySavingTips = jest.fn(() => Promise.resolve(respond('fallback')));
+    getTripPlan = jest.fn(() => Promise.resolve(respond('ai')));
+    service = new TripService(
+      new MemoryTripStore(),
+      { getWeatherData } as unknown as WeatherService,
+      { getMoneySavingTips, getTripPlan } as unknown as RecommendationService,
+    );
+  });
+
+  it('should create, update and delete trips', async () => {
+    const trip = await service.create(input);
+
+    expect(trip.travelers).toEqual({ adults: 1, children: 0 });
+    expect(trip.bookings[0].id).toEqual(expect.any(String));
+    expect(getTripDates(trip)).toEqual({
+      startDate: '2026-06-01',
+      endDate: '2026-06-08',
+    });
+
+    const updated = await service.update(trip.id, { ...input, name: 'Italy' });
+    expect(updated).toMatchObject({ id: trip.id, name: 'Italy' });
+    const [summary] = await service.list();
+    expect(summary).not.toHaveProperty('results');
+
+    await expect(service.delete(trip.id)).resolves.toBe(true);
+    await expect(service.get(trip.id)).resolves.toBeUndefined();
+    await expect(service.update(trip.id, input)).resolves.toBeUndefined();
+  });
+
+  it('should only show a trip to the API key that created it', async () => {
+    const trip = await service.create(input, 'key-1');
+    await service.create(input);
+
+    await expect(service.list('key-1')).resolves.toEqual([
+      expect.objectContaining({ id: trip.id, apiKeyId: 'key-1' }),
+    ]);
+    await expect(service.list('key-2')).resolves.toEqual([]);
+    await expect(service.get(trip.id, 'key-2')).resolves.toBeUndefined();
+    await expect(
+      service.update(trip.id, input, 'key-2'),
+    ).resolves.toBeUndefined();
+    await expect(
+      service.getWeather(trip.id, {}, 'key-2'),
+    ).resolves.toBeUndefined();
+    expect(getWeatherData).not.toHaveBeenCalled();
+    await expect(service.delete(trip.id, 'key-2')).resolves.toBe(false);
+    await expect(service.delete(trip.id, 'key-1')).resolves.toBe(true);
+  });
+
+  it('should save results per city and serve them until the options change', async () => {
+    const { id } = await service.create(input);
+
+    const first = await service.getWeather(id);
+    expect(first?.cities.map((result) => result.city)).toEqual([
+      'Paris',
+      'Rome',
+    ]);
+    expect(getWeatherData).toHaveBeenCalledWith(
+      'Rome',
+      '2026-06-04',
+      '2026-06-08',
+      'family vacation',
+      expect.anything(),
+    );
+
+    await service.getWeather(id);
+    expect(getWeatherData).toHaveBeenCalledTimes(2);
+
+    await service.getWeather(id, { locale: 'he' });
+    await service.getWeather(id, { locale: 'he', refresh: true });
+    expect(getWeatherData).toHaveBeenCalledTimes(6);
+
+    await service.update(id, input);
+    await expect(service.get(id)).resolves.toMatchObject({
+      results: { weather: [], plan: [], tips: null },
+    });
+  });
+
+  it('should not save fallback answers', async () => {
+    const { id } = await service.create(input);
+
+    const tips = await service.getTips(id);
+    expect(tips?.tips.data.meta.source).toBe('fallback');
+    expect(getMoneySavingTips).toHaveBeenCalledWith(
+      ['Paris', 'Rome'],
+      '2026-06-01',
+      '2026-06-08',
+      'Summer in Europe',
+      {},
+    );
+
+    await service.getTips(id);
+    expect(getMoneySavingTips).toHaveBeenCalledTimes(2);
+    await expect(service.get(id)).resolves.toMatchObject({
+      results: { tips: null },
+    });
+  });
+
+  it('should save every tip and return the filtered ones', async () => {
+    const tip = (category: string, city: string | null) => ({
+      category,
+      city,
+      tip: `${category} in ${city ?? 'both cities'}`,
+      validFrom: '2026-06-01',
+      validUntil: '2026-06-08',
+      estimatedSavings: null,
+    });
+    getMoneySavingTips.mockResolvedValue({
+      ...respond('ai'),
+      tips: [
+        tip('food', 'Paris'),
+        tip('food', 'Rome'),
+        tip('passes', 'Rome'),
+        tip('transport', null),
+      ],
+    });
+    const { id } = await service.create(input);
+
+    const filtered = await service.getTips(id, {
+      categories: ['food', 'transport'],
+      cities: ['rome'],
+    });
+    expect(filtered?.tips.data.tips.map((saved) => saved.tip)).toEqual([
+      'food in Rome',
+      'transport in both cities',
+    ]);
+
+    const all = await service.getTips(id);
+    expect(all?.tips.data.tips).toHaveLength(4);
+    expect(getMoneySavingTips).toHaveBeenCalledTimes(1);
+  });
+
+  it('should plan each city around its own bookings', async () => {
+    const { id } = await service.create({
+      ...input,
+      bookings: [
+        ...input.bookings,
+        { type: 'tour', title: 'Colosseum', startsAt: '2026-06-05T10:00' },
+        {
+          type: 'flight',
+          title: 'Flight home',
+          city: 'rome',
+          startsAt: '2026-06-04T18:00',
+        },
+        { type: 'restaurant', title: 'Late dinner', startsAt: '2026-06-10' },
+      ],
+    });
+
+    await service.getPlan(id);
+    const bookingTitles = getTripPlan.mock.calls.map(
+      ([, , , , options]: [
+        string,
+        string,
+        string,
+        string,
+        { bookings: { title: string }[] },
+      ]) => options.bookings.map((booking) => booking.title),
+    );
+    expect(bookingTitles).toEqual([
+      ['Hotel Lutetia'],
+      ['Colosseum', 'Flight home', 'Late dinner'],
+    ]);
+  });
+});
@@ -0,0 +1,384 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { isDeepStrictEqual } from 'util';
+import {
+  CityResult,
+  ResultOptions,
+  SavedResult,
+  Travelers,
+  Trip,
+  TripCity,
+  TripResults,
+  TripStore,
+} from './trip-store';
+import { WeatherData, WeatherService } from './weather.service';
+import {
+  MoneySavingTips,
+  RecommendationService,
+  TripPlanData,
+} from './recommendation.service';
+import { CacheOptions } from './response-cache.service';
+import { PromptOptions } from './prompt-registry.service';
+import { ResponseMeta } from './response-meta';
+import { BookingInput, bookingsForStay } from './bookings';
+import { MoneySavingTipsFilter, filterMoneySavingTips } from './tip-filter';
+import { LocaleOptions, resolveLocale } from '../i18n/locale';
+
+const DEFAULT_TRAVELERS: Travelers = { adults: 1, children: 0 };
+
+/** What a client sends to create or replace a trip */
+export interface TripInput {
+  name: string;
+  description: string;
+  cities: TripCity[];
+  travelers?: Travelers;
+  bookings?: BookingInput[];
+}
+
+export type TripSummary = Omit<Trip, 'results'>;
+
+export interface TripGenerationOptions
+  extends CacheOptions,
+    PromptOptions,
+    LocaleOptions {
+  /** Generate again even if a saved result matches */
+  refresh?: boolean;
+}
+
+export interface TripTipsGenerationOptions
+  extends TripGenerationOptions,
+    MoneySavingTipsFilter {}
+
+export interface TripPlanGenerationOptions extends TripGenerationOptions {
+  weatherAware?: boolean;
+}
+
+export interface CityResults<T> {
+  tripId: string;
+  cities: CityResult<T>[];
+}
+
+export interface TripTips {
+  tripId: string;
+  tips: SavedResult<MoneySavingTips>;
+}
+
+/**
+ * Stores trips and generates weather, plans and tips for them. Results are
+ * saved on the trip and served again until the trip changes, a request asks
+ * for other options, or `refresh` is set. Fallback answers are never saved.
+ */
+@Injectable()
+export class TripService {
+  private readonly logger = new Logger(TripService.name);
+
+  constructor(
+    private readonly store: TripStore,
+    private readonly weatherService: WeatherService,
+    private readonly recommendationService: RecommendationService,
+  ) {}
+
+  /** The trips created with the API key */
+  async list(apiKeyId: string | null = null): Promise<TripSummary[]> {
+    const trips = await this.store.list();
+    return trips
+      .filter((trip) => this.belongsTo(trip, apiKeyId))
+      .map((trip) => this.toSummary(trip))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /** Undefined for an unknown trip or one created with another API key */
+  get(id: string, apiKeyId: string | null = null): Promise<Trip | undefined> {
+    return this.find(id, apiKeyId);
+  }
+
+  async create(
+    input: TripInput,
+    apiKeyId: string | null = null,
+  ): Promise<Trip> {
+    const now = new Date().toISOString();
+    const trip: Trip = {
+      id: randomUUID(),
+      apiKeyId,
+      ...this.fromInput(input),
+      results: this.emptyResults(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.store.save(trip);
+    this.logger.log(`Created trip ${trip.id} (${trip.name})`);
+    return trip;
+  }
+
+  /** Replaces the trip's details; saved results no longer apply and are dropped */
+  async update(
+    id: string,
+    input: TripInput,
+    apiKeyId: string | null = null,
+  ): Promise<Trip | undefined> {
+    const existing = await this.find(id, apiKeyId);
+    if (!existing) {
+      return undefined;
+    }
+
+    const trip: Trip = {
+      ...existing,
+      ...this.fromInput(input),
+      results: this.emptyResults(),
+      updatedAt: new Date().toISOString(),
+    };
+    await this.store.save(trip);
+    return trip;
+  }
+
+  async delete(id: string, apiKeyId: string | null = null): Promise<boolean> {
+    return !!(await this.find(id, apiKeyId)) && this.store.delete(id);
+  }
+
+  async getWeather(
+    id: string,
+    options: TripGenerationOptions = {},
+    apiKeyId: string | null = null,
+  ): Promise<CityResults<WeatherData> | undefined> {
+    const trip = await this.find(id, apiKeyId);
+    if (!trip) {
+      return undefined;
+    }
+
+    const resultOptions = this.toResultOptions(options);
+    const cities = await this.resolveCityResults(
+      trip,
+      trip.results.weather,
+      resultOptions,
+      options.refresh,
+      (city) =>
+        this.weatherService.getWeatherData(
+          city.name,
+          city.startDate,
+          city.endDate,
+          trip.description,
+          options,
+        ),
+    );
+    await this.saveResults(trip, (results) => {
+      results.weather = cities.filter((result) =>
+        this.isSaveable(result.data.meta),
+      );
+    });
+    return { tripId: trip.id, cities };
+  }
+
+  async getPlan(
+    id: string,
+    options: TripPlanGenerationOptions = {},
+    apiKeyId: string | null = null,
+  ): Promise<CityResults<TripPlanData> | undefined> {
+    const trip = await this.find(id, apiKeyId);
+    if (!trip) {
+      return undefined;
+    }
+
+    const resultOptions = {
+      ...this.toResultOptions(options),
+      weatherAware: !!options.weatherAware,
+    };
+    const cities = await this.resolveCityResults(
+      trip,
+      trip.results.plan,
+      resultOptions,
+      options.refresh,
+      (city) =>
+        this.recommendationService.getTripPlan(
+          city.name,
+          city.startDate,
+          city.endDate,
+          trip.description,
+          {
+            ...options,
+            bookings: bookingsForStay(trip.bookings, trip.cities, city),
+          },
+        ),
+    );
+    await this.saveResults(trip, (results) => {
+      results.plan = cities.filter((result) =>
+        this.isSaveable(result.data.meta),
+      );
+    });
+    return { tripId: trip.id, cities };
+  }
+
+  /** The filters narrow what is returned; the whole set is saved */
+  async getTips(
+    id: string,
+    options: TripTipsGenerationOptions = {},
+    apiKeyId: string | null = null,
+  ): Promise<TripTips | undefined> {
+    const trip = await this.find(id, apiKeyId);
+    if (!trip) {
+      return undefined;
+    }
+
+    const resultOptions = this.toResultOptions(options);
+    const saved = trip.results.tips;
+    if (
+      saved &&
+      !options.refresh &&
+      isDeepStrictEqual(saved.options, resultOptions) &&
+      // Tips saved before they were categorized hold a single `tip`
+      Array.isArray(saved.data.tips)
+    ) {
+      return { tripId: trip.id, tips: this.filterTips(saved, options) };
+    }
+
+    const { startDate, endDate } = getTripDates(trip);
+    const data = await this.recommendationService.getMoneySavingTips(
+      trip.cities.map((city) => city.name),
+      startDate,
+      endDate,
+      trip.name,
+      {
+        cache: options.cache,
+        promptVersion: options.promptVersion,
+        locale: options.locale,
+      },
+    );
+    const tips = this.toSavedResult(data, resultOptions);
+    if (this.isSaveable(data.meta)) {
+      await this.saveResults(trip, (results) => {
+        results.tips = tips;
+      });
+    }
+    return { tripId: trip.id, tips: this.filterTips(tips, options) };
+  }
+
+  private async find(
+    id: string,
+    apiKeyId: string | null,
+  ): Promise<Trip | undefined> {
+    const trip = await this.store.get(id);
+    return trip && this.belongsTo(trip, apiKeyId) ? trip : undefined;
+  }
+
+  /** Trips saved before they had an owner belong to the admin key */
+  private belongsTo(trip: Trip, apiKeyId: string | null): boolean {
+    return (trip.apiKeyId ?? null) === apiKeyId;
+  }
+
+  private filterTips(
+    tips: SavedResult<MoneySavingTips>,
+    filter: MoneySavingTipsFilter,
+  ): SavedResult<MoneySavingTips> {
+    return { ...tips, data: filterMoneySavingTips(tips.data, filter) };
+  }
+
+  /**
+   * One result per city of the trip: the saved one when it still matches,
+   * a new one otherwise. Cities are generated one after another so a long
+   * trip does not flood the LLM provider.
+   */
+  private async resolveCityResults<T extends { meta: ResponseMeta }>(
+    trip: Trip,
+    saved: CityResult<T>[],
+    options: ResultOptions,
+    refresh: boolean | undefined,
+    generate: (city: TripCity) => Promise<T>,
+  ): Promise<CityResult<T>[]> {
+    const results: CityResult<T>[] = [];
+    for (const city of trip.cities) {
+      const match = saved.find(
+        (result) =>
+          result.city === city.name &&
+          result.startDate === city.startDate &&
+          result.endDate === city.endDate &&
+          isDeepStrictEqual(result.options, options),
+      );
+      if (match && !refresh) {
+        results.push(match);
+        continue;
+      }
+
+      const data = await generate(city);
+      results.push({
+        city: city.name,
+        startDate: city.startDate,
+        endDate: city.endDate,
+        ...this.toSavedResult(data, options),
+      });
+    }
+    return results;
+  }
+
+  /**
+   * Applies the new results to the latest stored copy of the trip, unless it
+   * was edited or deleted while they were being generated.
+   */
+  private async saveResults(
+    trip: Trip,
+    apply: (results: TripResults) => void,
+  ): Promise<void> {
+    const latest = await this.store.get(trip.id);
+    if (!latest || latest.updatedAt !== trip.updatedAt) {
+      this.logger.warn(
+        `Trip ${trip.id} changed during generation, results not saved`,
+      );
+      return;
+    }
+
+    apply(latest.results);
+    await this.store.save(latest);
+  }
+
+  private toSavedResult<T>(data: T, options: ResultOptions): SavedResult<T> {
+    return { generatedAt: new Date().toISOString(), options, data };
+  }
+
+  private toResultOptions(options: TripGenerationOptions): ResultOptions {
+    return {
+      locale: resolveLocale(options.locale).tag,
+      promptVersion: options.promptVersion ?? null,
+    };
+  }
+
+  private isSaveable(meta: ResponseMeta): boolean {
+    return meta.source !== 'fallback';
+  }
+
+  private fromInput(
+    input: TripInput,
+  ): Omit<Trip, 'id' | 'apiKeyId' | 'results' | 'createdAt' | 'updatedAt'> {
+    return {
+      name: input.name,
+      description: input.description,
+      cities: input.cities.map(({ name, startDate, endDate }) => ({
+        name,
+        startDate,
+        endDate,
+      })),
+      travelers: input.travelers ?? { ...DEFAULT_TRAVELERS },
+      bookings: (input.bookings ?? []).map((booking) => ({
+        id: randomUUID(),
+        ...booking,
+      })),
+    };
+  }
+
+  private toSummary(trip: Trip): TripSummary {
+    const summary: Partial<Trip> = { ...trip };
+    delete summary.results;
+    return summary as TripSummary;
+  }
+
+  private emptyResults(): TripResults {
+    return { weather: [], plan: [], tips: null };
+  }
+}
+
+/** First and last day of the trip across all of its cities */
+export function getTripDates(trip: Pick<Trip, 'cities'>): {
+  startDate: string;
+  endDate: string;
+} {
+  const starts = trip.cities.map((city) => city.startDate).sort();
+  const ends = trip.cities.map((city) => city.endDate).sort();
+  return { startDate: starts[0], endDate: ends[ends.length - 1] };
+}
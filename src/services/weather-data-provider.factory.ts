@@ -0,0 +1,21 @@
+import {
+  NoWeatherDataProvider,
+  WeatherDataProvider,
+} from './weather-data-provider';
+import { OpenMeteoWeatherService } from './open-meteo-weather.service';
+import { WeatherDataProviderConfig } from '../config/app-config';
+
+export function createWeatherDataProvider(
+  config: WeatherDataProviderConfig,
+): WeatherDataProvider {
+  switch (config.provider) {
+    case 'none':
+      return new NoWeatherDataProvider();
+    case 'open-meteo':
+    default:
+      return new OpenMeteoWeatherService({
+        forecastUrl: config.forecastUrl,
+        geocodingUrl: config.geocodingUrl,
+      });
+  }
+}
@@ -0,0 +1,40 @@
+import { WeatherCondition } from '../schemas/weather.schema';
+
+export type WeatherDataSource = 'forecast' | 'climatology' | 'ai';
+
+export interface DailyWeatherRecord {
+  date: string;
+  minTemperature: number;
+  maxTemperature: number;
+  condition: WeatherCondition;
+  rainProbability: number;
+  source: WeatherDataSource;
+}
+
+export type WeatherDataProviderType = 'open-meteo' | 'none';
+
+/**
+ * Source of measured or forecast weather numbers. Implementations return
+ * records only for the dates they can actually cover (for a forecast API,
+ * the dates inside its forecast horizon) and an empty list otherwise.
+ */
+export abstract class WeatherDataProvider {
+  abstract readonly type: WeatherDataProviderType;
+
+  abstract getDailyWeather(
+    city: string,
+    dates: string[],
+  ): Promise<DailyWeatherRecord[]>;
+}
+
+/**
+ * Used when no forecast API is configured: every date falls through to
+ * climatology or the LLM.
+ */
+export class NoWeatherDataProvider extends WeatherDataProvider {
+  readonly type = 'none';
+
+  getDailyWeather(): Promise<DailyWeatherRecord[]> {
+    return Promise.resolve<DailyWeatherRecord[]>([]);
+  }
+}
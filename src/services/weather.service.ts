@@ -1,5 +1,46 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { OllamaService } from './ollama.service';
+import { Injectable, Logger, MessageEvent } from '@nestjs/common';
+import { Observable, from, switchMap } from 'rxjs';
+import { StructuredGenerationService } from './structured-generation.service';
+import { ClimatologyService } from './climatology.service';
+import { CacheOptions, ResponseCacheService } from './response-cache.service';
+import { ResponseMeta, ResponseMetaBuilder } from './response-meta';
+import {
+  PromptOptions,
+  PromptRegistryService,
+  PromptSelection,
+} from './prompt-registry.service';
+import {
+  DailyWeatherRecord,
+  WeatherDataProvider,
+  WeatherDataSource,
+} from './weather-data-provider';
+import {
+  WEATHER_SCHEMA,
+  WEATHER_NARRATIVE_SCHEMA,
+  WeatherResponse,
+  WeatherNarrativeResponse,
+  WeatherCondition,
+  DailyWeatherResponse,
+} from '../schemas/weather.schema';
+import { enumerateDates, formatDate } from '../utils/date.utils';
+import {
+  describeLanguage,
+  LanguageInfo,
+  Locale,
+  LocaleOptions,
+  resolveLocale,
+} from '../i18n/locale';
+import { getMessages } from '../i18n/messages';
+
+export interface DailyWeather {
+  date: string;
+  minTemperature: number;
+  maxTemperature: number;
+  condition: WeatherCondition;
+  icon: string;
+  rainProbability: number;
+  source: WeatherDataSource;
+}
 
 export interface WeatherData {
   icon: string;
@@ -7,177 +48,631 @@ export interface WeatherData {
   condition: string;
   forecast: string;
   summary: string;
+  daily: DailyWeather[];
+  language: LanguageInfo;
+  meta: ResponseMeta;
 }
 
+export interface WeatherOptions
+  extends CacheOptions,
+    PromptOptions,
+    LocaleOptions {}
+
 @Injectable()
 export class WeatherService {
   private readonly logger = new Logger(WeatherService.name);
-  
-  constructor(private readonly ollamaService: OllamaService) {}
 
-  async getWeatherData(city: string, startDate: string, endDate: string, trip: string): Promise<WeatherData> {
+  constructor(
+    private readonly structuredGeneration: StructuredGenerationService,
+    private readonly weatherDataProvider: WeatherDataProvider,
+    private readonly climatologyService: ClimatologyService,
+    private readonly responseCache: ResponseCacheService,
+    private readonly promptRegistry: PromptRegistryService,
+  ) {}
+
+  async getWeatherData(
+    city: string,
+    startDate: string,
+    endDate: string,
+    trip: string,
+    options: WeatherOptions = {},
+  ): Promise<WeatherData> {
+    const prompt = this.promptRegistry.select('weather', options.promptVersion);
+    const locale = resolveLocale(options.locale);
+    const meta = this.structuredGeneration.createMeta(prompt.id, 'weather');
     try {
-      this.logger.log(`Generating weather data using Ollama for ${city}, dates: ${startDate} to ${endDate}`);
-      
-      // Generate ALL weather data using Ollama AI
-      const aiWeatherData = await this.generateCompleteWeatherData(city, startDate, endDate, trip);
-      
+      this.logger.log(
+        `Generating weather data using Ollama for ${city}, dates: ${startDate} to ${endDate}`,
+      );
+
+      // Real numbers when available, Ollama only writes the narrative
+      const aiWeatherData = await this.getCachedWeatherData(
+        city,
+        startDate,
+        endDate,
+        trip,
+        options,
+        prompt,
+        locale,
+        meta,
+      );
+
       return aiWeatherData;
     } catch (error) {
       console.log(error);
-      this.logger.error(`Error generating Ollama weather for ${city}:`, error.message);
-      return this.getFallbackWeatherData(city, startDate, endDate);
+      this.logger.error(
+        `Error generating Ollama weather for ${city}:`,
+        (error as Error).message,
+      );
+      return this.getFallbackWeatherData(locale, meta.build('fallback'));
     }
   }
 
-  private async generateCompleteWeatherData(city: string, startDate: string, endDate: string, trip: string): Promise<WeatherData> {
+  /**
+   * Same as getWeatherData, but resolves to null instead of the fallback
+   * data so callers can tell a real forecast from a placeholder.
+   */
+  async getWeatherDataOrNull(
+    city: string,
+    startDate: string,
+    endDate: string,
+    trip: string,
+    options: WeatherOptions = {},
+  ): Promise<WeatherData | null> {
     try {
-      // Generate complete weather data using Ollama
-      const weatherPrompt = this.createCompleteWeatherPrompt(city, startDate, endDate, trip);
-      const aiResponse = await this.ollamaService.generateResponse(weatherPrompt);
-      
-      // Parse the AI response to extract structured data
-      const parsedData = this.parseOllamaWeatherResponse(aiResponse, city);
-      
-      return parsedData;
+      const prompt = this.promptRegistry.select(
+        'weather',
+        options.promptVersion,
+      );
+      const locale = resolveLocale(options.locale);
+      const meta = this.structuredGeneration.createMeta(prompt.id, 'weather');
+      return await this.getCachedWeatherData(
+        city,
+        startDate,
+        endDate,
+        trip,
+        options,
+        prompt,
+        locale,
+        meta,
+      );
     } catch (error) {
-      this.logger.error('Error generating complete weather data from Ollama:', error.message);
+      this.logger.warn(
+        `No weather data available for ${city}: ${(error as Error).message}`,
+      );
+      return null;
+    }
+  }
+
+  streamWeatherData(
+    city: string,
+    startDate: string,
+    endDate: string,
+    trip: string,
+    options: PromptOptions & LocaleOptions = {},
+  ): Observable<MessageEvent> {
+    this.logger.log(
+      `Streaming weather data using Ollama for ${city}, dates: ${startDate} to ${endDate}`,
+    );
+    const prompt = this.promptRegistry.select('weather', options.promptVersion);
+    const locale = resolveLocale(options.locale);
+
+    return from(this.getMeasuredWeather(city, startDate, endDate)).pipe(
+      switchMap((records) => {
+        const meta = this.structuredGeneration.createMeta(prompt.id, 'weather');
+        if (records) {
+          const narrativePrompt = this.createNarrativePrompt(
+            prompt,
+            locale,
+            city,
+            startDate,
+            endDate,
+            trip,
+            records,
+          );
+          return this.structuredGeneration.stream<
+            WeatherNarrativeResponse,
+            WeatherData
+          >(
+            narrativePrompt,
+            WEATHER_NARRATIVE_SCHEMA,
+            {
+              transform: (narrative, responseMeta) =>
+                this.toMeasuredWeatherData(
+                  records,
+                  narrative,
+                  locale,
+                  responseMeta,
+                ),
+              fallback: (responseMeta) =>
+                this.toMeasuredWeatherData(
+                  records,
+                  this.getTemplateNarrative(city, records, locale),
+                  locale,
+                  responseMeta,
+                ),
+              meta,
+              logger: this.logger,
+            },
+            { feature: 'weather' },
+          );
+        }
+
+        const weatherPrompt = this.createCompleteWeatherPrompt(
+          prompt,
+          locale,
+          city,
+          startDate,
+          endDate,
+          trip,
+        );
+        return this.structuredGeneration.stream<WeatherResponse, WeatherData>(
+          weatherPrompt,
+          WEATHER_SCHEMA,
+          {
+            transform: (aiResponse, responseMeta) =>
+              this.toWeatherData(
+                aiResponse,
+                city,
+                startDate,
+                endDate,
+                locale,
+                responseMeta,
+              ),
+            fallback: (responseMeta) =>
+              this.getFallbackWeatherData(locale, responseMeta),
+            meta,
+            logger: this.logger,
+          },
+          { feature: 'weather' },
+        );
+      }),
+    );
+  }
+
+  private getCachedWeatherData(
+    city: string,
+    startDate: string,
+    endDate: string,
+    trip: string,
+    options: CacheOptions,
+    prompt: PromptSelection,
+    locale: Locale,
+    meta: ResponseMetaBuilder,
+  ): Promise<WeatherData> {
+    return this.responseCache.getOrCompute(
+      {
+        namespace: 'weather',
+        inputs: { city, startDate, endDate, trip, locale: locale.tag },
+        promptVersion: prompt.id,
+        mode: options.cache,
+      },
+      () =>
+        this.generateCompleteWeatherData(
+          city,
+          startDate,
+          endDate,
+          trip,
+          prompt,
+          locale,
+          meta,
+        ),
+    );
+  }
+
+  private async generateCompleteWeatherData(
+    city: string,
+    startDate: string,
+    endDate: string,
+    trip: string,
+    prompt: PromptSelection,
+    locale: Locale,
+    meta: ResponseMetaBuilder,
+  ): Promise<WeatherData> {
+    const records = await this.getMeasuredWeather(city, startDate, endDate);
+    if (records) {
+      return this.generateMeasuredWeatherData(
+        city,
+        startDate,
+        endDate,
+        trip,
+        records,
+        prompt,
+        locale,
+        meta,
+      );
+    }
+
+    try {
+      // No forecast or climatology for this city: generate everything using Ollama
+      this.logger.warn(
+        `No weather data source covers ${city}, falling back to LLM-only weather`,
+      );
+      const weatherPrompt = this.createCompleteWeatherPrompt(
+        prompt,
+        locale,
+        city,
+        startDate,
+        endDate,
+        trip,
+      );
+      const aiResponse =
+        await this.structuredGeneration.generate<WeatherResponse>(
+          weatherPrompt,
+          WEATHER_SCHEMA,
+          {
+            feature: 'weather',
+            meta,
+          },
+        );
+
+      return this.toWeatherData(
+        aiResponse,
+        city,
+        startDate,
+        endDate,
+        locale,
+        meta.build('ai'),
+      );
+    } catch (error) {
+      this.logger.error(
+        'Error generating complete weather data from Ollama:',
+        (error as Error).message,
+      );
       throw error;
     }
   }
 
-  private createCompleteWeatherPrompt(city: string, startDate: string, endDate: string, trip: string): string {
+  /**
+   * Forecast for the dates inside the provider's horizon, climatology for
+   * the rest. Resolves to null unless every date of the stay is covered.
+   */
+  private async getMeasuredWeather(
+    city: string,
+    startDate: string,
+    endDate: string,
+  ): Promise<DailyWeatherRecord[] | null> {
+    const dates = enumerateDates(startDate, endDate);
+    const forecast = await this.weatherDataProvider.getDailyWeather(
+      city,
+      dates,
+    );
+    const forecastDates = new Set(forecast.map((day) => day.date));
+    const climatology = this.climatologyService.getDailyWeather(
+      city,
+      dates.filter((date) => !forecastDates.has(date)),
+    );
+    const records = [...forecast, ...climatology].sort((a, b) =>
+      a.date.localeCompare(b.date),
+    );
+
+    return records.length === dates.length ? records : null;
+  }
+
+  private async generateMeasuredWeatherData(
+    city: string,
+    startDate: string,
+    endDate: string,
+    trip: string,
+    records: DailyWeatherRecord[],
+    prompt: PromptSelection,
+    locale: Locale,
+    meta: ResponseMetaBuilder,
+  ): Promise<WeatherData> {
+    try {
+      const narrativePrompt = this.createNarrativePrompt(
+        prompt,
+        locale,
+        city,
+        startDate,
+        endDate,
+        trip,
+        records,
+      );
+      const narrative =
+        await this.structuredGeneration.generate<WeatherNarrativeResponse>(
+          narrativePrompt,
+          WEATHER_NARRATIVE_SCHEMA,
+          {
+            feature: 'weather',
+            meta,
+          },
+        );
+      return this.toMeasuredWeatherData(
+        records,
+        narrative,
+        locale,
+        meta.build('ai'),
+      );
+    } catch (error) {
+      // The numbers are still real, so only the prose falls back
+      this.logger.error(
+        'Error generating weather narrative from Ollama:',
+        (error as Error).message,
+      );
+      return this.toMeasuredWeatherData(
+        records,
+        this.getTemplateNarrative(city, records, locale),
+        locale,
+        meta.build('fallback'),
+      );
+    }
+  }
+
+  private createCompleteWeatherPrompt(
+    prompt: PromptSelection,
+    locale: Locale,
+    city: string,
+    startDate: string,
+    endDate: string,
+    trip: string,
+  ): string {
     const start = new Date(startDate);
     const end = new Date(endDate);
-    const startFormatted = start.toLocaleDateString('en-US');
-    const endFormatted = end.toLocaleDateString('en-US');
-    const duration = Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
-    
-    return `
-Create realistic weather information for ${city} for the period from ${startFormatted} to ${endFormatted} (${duration} days).
-Note that this trip is for ${trip}
-Please provide the following information in a structured format:
-
-TEMPERATURE: [number in celsius depending on season and location]
-CONDITION: [one word in English: sunny, cloudy, rainy, partly-cloudy, snow or stormy]
-ENGLISH_CONDITION: [English description of weather condition]
-FORECAST_ENGLISH: [forecast in English, including temperature range and brief description]
-SUMMARY_ENGLISH: [detailed analysis in English of 200-300 words with temperature ranges, humidity, rain chance, sunshine hours and clothing recommendations, for each section ,can add an emoji at the start of each section, for example when talking about clothing recommendations, you can add a 🧥 emoji]
-
-Consider the following:
-- The typical climate of ${city}
-- The current season and requested period
-- Geographic location and seasonal patterns
-- Appropriate recommendations for the trip period
-- Rain chance, sunshine hours and clothing recommendations
-
-Format the response exactly like this:
-TEMPERATURE: 25
-CONDITION: sunny
-ENGLISH_CONDITION: Bright sunshine
-FORECAST_ENGLISH: ${startFormatted} - ${endFormatted}: Expected temperature 22–28°C, bright sunshine most days
-SUMMARY_ENGLISH: [detailed analysis here in English...]
-
-Create a realistic forecast for ${city} during this period.
-`;
-  }
-
-  private parseOllamaWeatherResponse(aiResponse: string, city: string): WeatherData {
-    try {
-      // Parse the structured response from Ollama
-      const lines = aiResponse.split('\n');
-      let temperature = 25;
-      let condition = 'partly-cloudy';
-      let englishCondition = 'Pleasant weather';
-      let forecast = '';
-      let summary = '';
-
-      for (const line of lines) {
-        const trimmedLine = line.trim();
-        if (trimmedLine.startsWith('TEMPERATURE:')) {
-          temperature = parseInt(trimmedLine.split(':')[1].trim()) || 25;
-        } else if (trimmedLine.startsWith('CONDITION:')) {
-          condition = trimmedLine.split(':')[1].trim().toLowerCase();
-        } else if (trimmedLine.startsWith('ENGLISH_CONDITION:')) {
-          englishCondition = trimmedLine.split(':')[1].trim();
-        } else if (trimmedLine.startsWith('FORECAST_ENGLISH:')) {
-          forecast = trimmedLine.split(':').slice(1).join(':').trim();
-        } else if (trimmedLine.startsWith('SUMMARY_ENGLISH:')) {
-          summary = trimmedLine.split(':').slice(1).join(':').trim();
-        }
-      }
+    const dates = enumerateDates(startDate, endDate);
 
-      // If summary is incomplete, extract the rest
-      const summaryStartIndex = aiResponse.indexOf('SUMMARY_ENGLISH:');
-      if (summaryStartIndex !== -1 && summary.length < 50) {
-        summary = aiResponse
-          .substring(summaryStartIndex + 'SUMMARY_ENGLISH:'.length)
-          .trim();
-      }
+    return this.promptRegistry.render(prompt, 'complete', {
+      city,
+      trip,
+      startDate: formatDate(startDate, locale.tag),
+      endDate: formatDate(endDate, locale.tag),
+      duration: Math.ceil(
+        (end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24),
+      ),
+      dates: dates.join(', '),
+      firstDate: dates[0],
+      language: locale.languageName,
+    });
+  }
+
+  private createNarrativePrompt(
+    prompt: PromptSelection,
+    locale: Locale,
+    city: string,
+    startDate: string,
+    endDate: string,
+    trip: string,
+    records: DailyWeatherRecord[],
+  ): string {
+    const dailyLines = records.map(
+      (day) =>
+        `- ${day.date}: ${day.condition}, ${day.minTemperature}–${day.maxTemperature}°C, ${day.rainProbability}% chance of rain (${day.source === 'forecast' ? 'forecast' : 'long-term average'})`,
+    );
+
+    return this.promptRegistry.render(prompt, 'narrative', {
+      city,
+      trip,
+      startDate: formatDate(startDate, locale.tag),
+      endDate: formatDate(endDate, locale.tag),
+      dailyWeather: dailyLines.join('\n'),
+      language: locale.languageName,
+    });
+  }
+
+  private toMeasuredWeatherData(
+    records: DailyWeatherRecord[],
+    narrative: WeatherNarrativeResponse,
+    locale: Locale,
+    meta: ResponseMeta,
+  ): WeatherData {
+    const condition = this.getDominantCondition(records);
+    const temperature = Math.round(
+      records.reduce(
+        (sum, day) => sum + (day.minTemperature + day.maxTemperature) / 2,
+        0,
+      ) / records.length,
+    );
+
+    const forecast = narrative.forecast.trim();
+    const summary = narrative.summary.trim();
+
+    return {
+      icon: this.getWeatherIcon(condition),
+      temperature,
+      condition:
+        narrative.conditionDescription.trim() ||
+        this.translateCondition(condition, locale),
+      forecast,
+      summary,
+      daily: records.map((day) => ({
+        date: day.date,
+        minTemperature: day.minTemperature,
+        maxTemperature: day.maxTemperature,
+        condition: day.condition,
+        icon: this.getWeatherIcon(day.condition),
+        rainProbability: day.rainProbability,
+        source: day.source,
+      })),
+      language: describeLanguage(locale, forecast, summary),
+      meta,
+    };
+  }
+
+  private getTemplateNarrative(
+    city: string,
+    records: DailyWeatherRecord[],
+    locale: Locale,
+  ): WeatherNarrativeResponse {
+    const messages = getMessages(locale.language);
+    const icon = this.getWeatherIcon(this.getDominantCondition(records));
+    const condition = this.translateCondition(
+      this.getDominantCondition(records),
+      locale,
+    );
+    const min = Math.min(...records.map((day) => day.minTemperature));
+    const max = Math.max(...records.map((day) => day.maxTemperature));
+    const rainyDays = records.filter((day) => day.rainProbability >= 50).length;
+
+    return {
+      conditionDescription: condition,
+      forecast: messages.weather.rangeForecast({
+        icon,
+        city,
+        condition,
+        min,
+        max,
+      }),
+      summary: messages.weather.rangeSummary({
+        icon,
+        city,
+        condition,
+        min,
+        max,
+        rainyDays,
+      }),
+    };
+  }
+
+  private getDominantCondition(
+    records: DailyWeatherRecord[],
+  ): WeatherCondition {
+    const counts = new Map<WeatherCondition, number>();
+    records.forEach((day) =>
+      counts.set(day.condition, (counts.get(day.condition) || 0) + 1),
+    );
+    return [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+  }
+
+  private toWeatherData(
+    aiResponse: WeatherResponse,
+    city: string,
+    startDate: string,
+    endDate: string,
+    locale: Locale,
+    meta: ResponseMeta,
+  ): WeatherData {
+    const messages = getMessages(locale.language);
+    const icon = this.getWeatherIcon(aiResponse.condition);
+    const temperature = Math.round(aiResponse.temperature);
+    const condition =
+      aiResponse.conditionDescription.trim() ||
+      this.translateCondition(aiResponse.condition, locale);
+    const forecast =
+      aiResponse.forecast.trim() ||
+      messages.weather.forecast({ icon, city, condition, temperature });
+    const summary =
+      aiResponse.summary.trim() ||
+      messages.weather.summary({ icon, city, condition, temperature });
+
+    return {
+      icon,
+      temperature,
+      condition,
+      forecast,
+      summary,
+      daily: this.buildDailyForecast(aiResponse, startDate, endDate),
+      language: describeLanguage(locale, forecast, summary),
+      meta,
+    };
+  }
+
+  /**
+   * One entry per date of the stay. Dates the model skipped reuse the
+   * closest day it did return, or the trip-wide values if it returned none.
+   */
+  private buildDailyForecast(
+    aiResponse: WeatherResponse,
+    startDate: string,
+    endDate: string,
+  ): DailyWeather[] {
+    const dates = enumerateDates(startDate, endDate);
+    const byDate = new Map(
+      aiResponse.daily.map((day) => [day.date.trim().slice(0, 10), day]),
+    );
+    const matchByDate = dates.some((date) => byDate.has(date));
+    const matched = dates.map((date, index) =>
+      matchByDate ? byDate.get(date) : aiResponse.daily[index],
+    );
+
+    return dates.map((date, index) => {
+      const source = matched[index] || this.findNearestDay(matched, index);
+      const minTemperature = Math.round(
+        source ? source.minTemperature : aiResponse.temperature,
+      );
+      const maxTemperature = Math.round(
+        source ? source.maxTemperature : aiResponse.temperature,
+      );
+      const condition = source ? source.condition : aiResponse.condition;
 
       return {
+        date,
+        minTemperature: Math.min(minTemperature, maxTemperature),
+        maxTemperature: Math.max(minTemperature, maxTemperature),
+        condition,
         icon: this.getWeatherIcon(condition),
-        temperature: Math.round(temperature),
-        condition: englishCondition,
-        forecast: forecast || `${this.getWeatherIcon(condition)} Forecast for ${city}: ${englishCondition}, temperature ${temperature}°C`,
-        summary: summary || `The weather in ${city} is expected to be ${englishCondition} with a temperature of ${temperature}°C.`
-      };
-    } catch (error) {
-      this.logger.error('Error parsing Ollama response:', error.message);
-      // Return fallback with Ollama-generated basic data
-      return {
-        icon: '🌤️',
-        temperature: 25,
-        condition: 'Pleasant weather',
-        forecast: `🌤️ Forecast for ${city}: Pleasant weather`,
-        summary: aiResponse.substring(0, 300) || `The weather in ${city} looks pleasant.`
+        rainProbability: source
+          ? Math.round(source.rainProbability)
+          : this.estimateRainProbability(condition),
+        source: 'ai' as const,
       };
+    });
+  }
+
+  private findNearestDay(
+    days: (DailyWeatherResponse | undefined)[],
+    index: number,
+  ): DailyWeatherResponse | undefined {
+    for (let offset = 1; offset < days.length; offset++) {
+      const nearest = days[index - offset] || days[index + offset];
+      if (nearest) {
+        return nearest;
+      }
     }
+    return undefined;
+  }
+
+  private estimateRainProbability(condition: WeatherCondition): number {
+    const rainMap: Record<WeatherCondition, number> = {
+      sunny: 5,
+      'partly-cloudy': 15,
+      cloudy: 30,
+      rainy: 70,
+      stormy: 80,
+      snow: 60,
+    };
+
+    return rainMap[condition];
   }
 
   private getWeatherIcon(condition: string): string {
-    const iconMap = {
-      'sunny': '☀️',
-      'clear': '☀️',
+    const iconMap: Record<string, string> = {
+      sunny: '☀️',
+      clear: '☀️',
       'partly-cloudy': '🌤️',
-      'cloudy': '☁️',
-      'overcast': '☁️',
-      'rainy': '🌧️',
-      'rain': '🌧️',
-      'stormy': '⛈️',
-      'snow': '❄️',
-      'fog': '🌫️',
-      'windy': '💨'
+      cloudy: '☁️',
+      overcast: '☁️',
+      rainy: '🌧️',
+      rain: '🌧️',
+      stormy: '⛈️',
+      snow: '❄️',
+      fog: '🌫️',
+      windy: '💨',
     };
-    
+
     return iconMap[condition.toLowerCase()] || '🌤️';
   }
 
-  private translateCondition(condition: string): string {
-    const conditionMap = {
-      'sunny': 'Bright sunshine',
-      'clear': 'Clear skies',
-      'partly-cloudy': 'Partly cloudy',
-      'cloudy': 'Cloudy',
-      'overcast': 'Overcast',
-      'rainy': 'Rainy',
-      'rain': 'Rain',
-      'stormy': 'Stormy',
-      'snow': 'Snowy',
-      'fog': 'Foggy',
-      'windy': 'Windy'
-    };
-    
-    return conditionMap[condition.toLowerCase()] || 'Pleasant weather';
+  private translateCondition(condition: string, locale: Locale): string {
+    const messages = getMessages(locale.language);
+    return (
+      messages.conditions[condition.toLowerCase()] || messages.defaultCondition
+    );
   }
 
-  private getFallbackWeatherData(city: string, startDate: string, endDate: string): WeatherData {
+  private getFallbackWeatherData(
+    locale: Locale,
+    meta: ResponseMeta,
+  ): WeatherData {
+    const messages = getMessages(locale.language);
     return {
       icon: '',
       temperature: -1,
-      condition: 'Unknown',
-      forecast: 'Unable to load weather forecast at this time',
-      summary: 'Unable to load weather forecast at this time'
+      condition: messages.weather.unknownCondition,
+      forecast: messages.weather.unavailable,
+      summary: messages.weather.unavailable,
+      daily: [],
+      language: describeLanguage(locale, messages.weather.unavailable),
+      meta,
     };
   }
 }
@@ -0,0 +1,46 @@
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Formats a date as `YYYY-MM-DD` using its UTC calendar day.
+ */
+export function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Lists every calendar day (UTC) from startDate to endDate, both included.
+ */
+export function enumerateDates(startDate: string, endDate: string): string[] {
+  const start = new Date(toIsoDate(new Date(startDate)));
+  const end = new Date(toIsoDate(new Date(endDate)));
+  const dates: string[] = [];
+
+  for (let day = start.getTime(); day <= end.getTime(); day += MS_PER_DAY) {
+    dates.push(toIsoDate(new Date(day)));
+  }
+  return dates;
+}
+
+/**
+ * Number of calendar days (UTC) from startDate to endDate, both included.
+ */
+export function countDays(startDate: string, endDate: string): number {
+  const start = new Date(toIsoDate(new Date(startDate))).getTime();
+  const end = new Date(toIsoDate(new Date(endDate))).getTime();
+  return Math.round((end - start) / MS_PER_DAY) + 1;
+}
+
+/**
+ * The UTC calendar day this many days after (or before, when negative) date.
+ */
+export function addDays(date: string, days: number): string {
+  return toIsoDate(new Date(new Date(date).getTime() + days * MS_PER_DAY));
+}
+
+/**
+ * Formats a date's UTC calendar day for display, e.g. `11/1/2026` for
+ * `en-US` or `1.11.2026` for `he-IL`.
+ */
+export function formatDate(date: string, locale: string): string {
+  return new Date(date).toLocaleDateString(locale, { timeZone: 'UTC' });
+}
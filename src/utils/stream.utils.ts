@@ -0,0 +1,25 @@
+import { Readable } from 'stream';
+
+/**
+ * Splits a byte stream into text lines, as used by Ollama's NDJSON output
+ * and by `text/event-stream` responses.
+ */
+export async function* readLines(stream: Readable): AsyncGenerator<string> {
+  let buffer = '';
+  for await (const chunk of stream) {
+    buffer += Buffer.isBuffer(chunk) ? chunk.toString('utf8') : String(chunk);
+    let newlineIndex = buffer.indexOf('\n');
+    while (newlineIndex !== -1) {
+      const line = buffer.slice(0, newlineIndex).replace(/\r$/, '');
+      buffer = buffer.slice(newlineIndex + 1);
+      if (line.length > 0) {
+        yield line;
+      }
+      newlineIndex = buffer.indexOf('\n');
+    }
+  }
+
+  if (buffer.trim().length > 0) {
+    yield buffer;
+  }
+}
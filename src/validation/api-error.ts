@@ -0,0 +1,24 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/** Body of every error response sent by the API */
+export interface ApiErrorBody {
+  code: string;
+  message: string;
+  /** Request parameter that caused the error, null when not field specific */
+  field: string | null;
+}
+
+export class ApiError extends HttpException {
+  constructor(
+    status: HttpStatus,
+    readonly code: string,
+    message: string,
+    readonly field: string | null = null,
+  ) {
+    super(message, status);
+  }
+
+  toBody(): ApiErrorBody {
+    return { code: this.code, message: this.message, field: this.field };
+  }
+}
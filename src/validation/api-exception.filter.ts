@@ -0,0 +1,61 @@
+import {
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { Response } from 'express';
+import { ApiError, ApiErrorBody } from './api-error';
+
+/**
+ * Sends every error as an {@link ApiErrorBody}. Nest's own HTTP exceptions
+ * (e.g. 404 for unknown routes) get a code derived from their status;
+ * anything else is logged and reported as a 500 without internals.
+ */
+@Catch()
+export class ApiExceptionFilter implements ExceptionFilter {
+  private readonly logger = new Logger(ApiExceptionFilter.name);
+
+  catch(exception: unknown, host: ArgumentsHost): void {
+    const response = host.switchToHttp().getResponse<Response>();
+    if (response.headersSent) {
+      return;
+    }
+
+    const [status, body] = this.toBody(exception);
+    response.status(status).json(body);
+  }
+
+  private toBody(exception: unknown): [number, ApiErrorBody] {
+    if (exception instanceof ApiError) {
+      return [exception.getStatus(), exception.toBody()];
+    }
+
+    if (exception instanceof HttpException) {
+      const status = exception.getStatus();
+      return [
+        status,
+        {
+          code: HttpStatus[status] ?? 'HTTP_ERROR',
+          message: exception.message,
+          field: null,
+        },
+      ];
+    }
+
+    this.logger.error(
+      'Unhandled error:',
+      exception instanceof Error ? exception.stack : exception,
+    );
+    return [
+      HttpStatus.INTERNAL_SERVER_ERROR,
+      {
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Internal server error',
+        field: null,
+      },
+    ];
+  }
+}
@@ -0,0 +1,266 @@
+import { ArgumentMetadata, HttpStatus } from '@nestjs/common';
+import { IsString, validateSync } from 'class-validator';
+import { ApiError } from './api-error';
+import { createValidationPipe } from './validation.pipe';
+import {
+  IS_NOT_BEFORE,
+  IsNotBefore,
+  MAX_DAYS_AFTER,
+  MAX_TRIP_DAYS,
+  MaxDaysAfter,
+} from './validators';
+import {
+  MoneySavingTipsQueryDto,
+  TripPlanQueryDto,
+} from '../dto/trip-query.dto';
+import { TripDto } from '../dto/trip.dto';
+import { MultiCityPlanDto } from '../dto/multi-city.dto';
+import { BookingsDto } from '../dto/booking.dto';
+
+describe('createValidationPipe', () => {
+  const pipe = createValidationPipe();
+
+  const validate = (metatype: ArgumentMetadata['metatype'], value: object) =>
+    pipe.transform(value, { type: 'query', metatype });
+
+  const expectError = async (
+    promise: Promise<unknown>,
+    status: HttpStatus,
+    body: unknown,
+  ) => {
+    const error = (await promise.catch(
+      (caught: unknown) => caught,
+    )) as ApiError;
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.getStatus()).toBe(status);
+    expect(error.toBody()).toEqual(body);
+  };
+
+  const tripPlan = {
+    city: ' Paris ',
+    startDate: '2025-06-01',
+    endDate: '2025-06-03',
+    trip: 'family',
+  };
+
+  it('should transform a valid trip plan query', async () => {
+    await expect(
+      validate(TripPlanQueryDto, { ...tripPlan, weatherAware: 'true' }),
+    ).resolves.toEqual({
+      ...tripPlan,
+      city: 'Paris',
+      weatherAware: true,
+    });
+  });
+
+  it('should report a missing city as a 400', async () => {
+    await expectError(
+      validate(TripPlanQueryDto, { ...tripPlan, city: undefined }),
+      HttpStatus.BAD_REQUEST,
+      { code: 'MISSING_PARAMETER', message: 'city is required', field: 'city' },
+    );
+  });
+
+  it('should reject dates not written YYYY-MM-DD with a 400', async () => {
+    for (const startDate of [
+      '01/06/2025',
+      '2024-W05',
+      '2024-032',
+      '20240815',
+      '2025-06-01T10:00:00.000Z',
+      '2025-02-30',
+    ]) {
+      await expectError(
+        validate(TripPlanQueryDto, { ...tripPlan, startDate }),
+        HttpStatus.BAD_REQUEST,
+        expect.objectContaining({ code: 'INVALID_DATE', field: 'startDate' }),
+      );
+    }
+  });
+
+  it('should fail the date range checks when a date cannot be read', () => {
+    class Range {
+      @IsString()
+      startDate: string;
+
+      @IsNotBefore('startDate')
+      @MaxDaysAfter('startDate', MAX_TRIP_DAYS)
+      endDate: string;
+    }
+    const range = Object.assign(new Range(), {
+      startDate: 'soon',
+      endDate: '2025-06-03',
+    });
+
+    expect(Object.keys(validateSync(range)[0]?.constraints ?? {})).toEqual(
+      expect.arrayContaining([IS_NOT_BEFORE, MAX_DAYS_AFTER]),
+    );
+  });
+
+  it('should reject inverted and overly long trips with a 422', async () => {
+    await expectError(
+      validate(TripPlanQueryDto, { ...tripPlan, endDate: '2025-05-30' }),
+      HttpStatus.UNPROCESSABLE_ENTITY,
+      expect.objectContaining({ code: 'INVALID_DATE_RANGE', field: 'endDate' }),
+    );
+    await expectError(
+      validate(TripPlanQueryDto, { ...tripPlan, endDate: '2025-08-01' }),
+      HttpStatus.UNPROCESSABLE_ENTITY,
+      expect.objectContaining({ code: 'TRIP_TOO_LONG', field: 'endDate' }),
+    );
+  });
+
+  it('should tell malformed locales from unsupported languages', async () => {
+    await expectError(
+      validate(TripPlanQueryDto, { ...tripPlan, locale: 'he_IL!' }),
+      HttpStatus.BAD_REQUEST,
+      expect.objectContaining({ code: 'INVALID_PARAMETER', field: 'locale' }),
+    );
+    await expectError(
+      validate(TripPlanQueryDto, { ...tripPlan, locale: 'ja-JP' }),
+      HttpStatus.UNPROCESSABLE_ENTITY,
+      expect.objectContaining({ code: 'UNSUPPORTED_LOCALE', field: 'locale' }),
+    );
+  });
+
+  it('should split the cities list and cap its size', async () => {
+    const tips = {
+      cities: 'Paris, Rome,,',
+      startDate: '2025-06-01',
+      endDate: '2025-06-03',
+      tripName: 'Summer',
+    };
+    await expect(
+      validate(MoneySavingTipsQueryDto, tips),
+    ).resolves.toMatchObject({ cities: ['Paris', 'Rome'] });
+
+    await expectError(
+      validate(MoneySavingTipsQueryDto, {
+        ...tips,
+        cities: Array.from({ length: 11 }, (_, i) => `City ${i}`).join(','),
+      }),
+      HttpStatus.UNPROCESSABLE_ENTITY,
+      expect.objectContaining({ code: 'TOO_MANY_ITEMS', field: 'cities' }),
+    );
+  });
+
+  it('should report errors inside a trip body with their path', async () => {
+    const trip = {
+      name: 'Summer',
+      description: 'family',
+      cities: [
+        { name: 'Paris', startDate: '2025-06-01', endDate: '2025-06-03' },
+      ],
+    };
+    await expect(
+      pipe.transform(trip, { type: 'body', metatype: TripDto }),
+    ).resolves.toBeInstanceOf(TripDto);
+
+    await expectError(
+      pipe.transform(
+        { ...trip, cities: [{ ...trip.cities[0], endDate: '2025-05-01' }] },
+        { type: 'body', metatype: TripDto },
+      ),
+      HttpStatus.UNPROCESSABLE_ENTITY,
+      expect.objectContaining({
+        code: 'INVALID_DATE_RANGE',
+        field: 'cities.0.endDate',
+      }),
+    );
+    await expectError(
+      pipe.transform(
+        { ...trip, travelers: { adults: 'two' } },
+        { type: 'body', metatype: TripDto },
+      ),
+      HttpStatus.BAD_REQUEST,
+      expect.objectContaining({
+        code: 'INVALID_PARAMETER',
+        field: 'travelers.adults',
+      }),
+    );
+  });
+
+  it('should check that multi-city stays make one trip', async () => {
+    const body = (value: object) =>
+      pipe.transform(
+        { trip: 'art lovers', ...value },
+        { type: 'body', metatype: MultiCityPlanDto },
+      );
+    const split = {
+      startDate: '2025-06-01',
+      endDate: '2025-06-03',
+      cities: [{ name: 'Rome' }, { name: 'Florence' }],
+    };
+    await expect(body(split)).resolves.toBeInstanceOf(MultiCityPlanDto);
+
+    await expectError(
+      body({ ...split, endDate: '2025-06-02' }),
+      HttpStatus.UNPROCESSABLE_ENTITY,
+      {
+        code: 'INVALID_STAYS',
+        message: 'A trip through 2 cities needs at least 2 nights',
+        field: 'cities',
+      },
+    );
+    await expectError(
+      body({
+        cities: [
+          { name: 'Rome', startDate: '2025-06-01', endDate: '2025-06-04' },
+          { name: 'Florence', startDate: '2025-06-03', endDate: '2025-06-05' },
+        ],
+      }),
+      HttpStatus.UNPROCESSABLE_ENTITY,
+      expect.objectContaining({
+        code: 'INVALID_STAYS',
+        message: 'cities.1 starts before the previous city ends',
+      }),
+    );
+    await expectError(
+      body({
+        cities: [
+          { name: 'Rome', startDate: '2025-06-01', endDate: '2025-06-04' },
+          { name: 'Florence' },
+        ],
+      }),
+      HttpStatus.UNPROCESSABLE_ENTITY,
+      expect.objectContaining({
+        code: 'INVALID_STAYS',
+        message: 'Give dates for every city or for none',
+      }),
+    );
+    await expectError(
+      body({ cities: split.cities }),
+      HttpStatus.BAD_REQUEST,
+      expect.objectContaining({
+        code: 'MISSING_PARAMETER',
+        field: 'startDate',
+      }),
+    );
+  });
+
+  it('should only accept booking dates the planner can read', async () => {
+    const body = (startsAt: string) =>
+      pipe.transform(
+        { bookings: [{ type: 'tour', title: 'Colosseum', startsAt }] },
+        { type: 'body', metatype: BookingsDto },
+      );
+    for (const startsAt of [
+      '2026-08-16',
+      '2026-08-16T10:00',
+      '2026-08-16T10:00:00+02:00',
+    ]) {
+      await expect(body(startsAt)).resolves.toBeInstanceOf(BookingsDto);
+    }
+
+    for (const startsAt of ['2026-08', '20260816T1000', '2026-W33']) {
+      await expectError(
+        body(startsAt),
+        HttpStatus.BAD_REQUEST,
+        expect.objectContaining({
+          code: 'INVALID_DATE',
+          field: 'bookings.0.startsAt',
+        }),
+      );
+    }
+  });
+});
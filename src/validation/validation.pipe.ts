@@ -0,0 +1,99 @@
+import { HttpStatus, ValidationError, ValidationPipe } from '@nestjs/common';
+import { ApiError } from './api-error';
+import {
+  IS_ISO_DATE,
+  IS_ISO_MOMENT,
+  IS_NOT_BEFORE,
+  IS_SUPPORTED_LOCALE,
+  MAX_DAYS_AFTER,
+  STAYS_FIT,
+} from './validators';
+
+interface ErrorCode {
+  status: HttpStatus;
+  code: string;
+}
+
+const MISSING: ErrorCode = {
+  status: HttpStatus.BAD_REQUEST,
+  code: 'MISSING_PARAMETER',
+};
+const INVALID: ErrorCode = {
+  status: HttpStatus.BAD_REQUEST,
+  code: 'INVALID_PARAMETER',
+};
+
+/**
+ * Malformed input is a 400; well-formed input we refuse to plan for
+ * (inverted or too long date ranges, too many cities, unsupported languages)
+ * is a 422.
+ */
+const ERROR_CODES: Record<string, ErrorCode> = {
+  isDefined: MISSING,
+  isNotEmpty: MISSING,
+  arrayMinSize: MISSING,
+  [IS_ISO_DATE]: { status: HttpStatus.BAD_REQUEST, code: 'INVALID_DATE' },
+  [IS_ISO_MOMENT]: { status: HttpStatus.BAD_REQUEST, code: 'INVALID_DATE' },
+  [IS_NOT_BEFORE]: {
+    status: HttpStatus.UNPROCESSABLE_ENTITY,
+    code: 'INVALID_DATE_RANGE',
+  },
+  [MAX_DAYS_AFTER]: {
+    status: HttpStatus.UNPROCESSABLE_ENTITY,
+    code: 'TRIP_TOO_LONG',
+  },
+  arrayMaxSize: {
+    status: HttpStatus.UNPROCESSABLE_ENTITY,
+    code: 'TOO_MANY_ITEMS',
+  },
+  [IS_SUPPORTED_LOCALE]: {
+    status: HttpStatus.UNPROCESSABLE_ENTITY,
+    code: 'UNSUPPORTED_LOCALE',
+  },
+  [STAYS_FIT]: {
+    status: HttpStatus.UNPROCESSABLE_ENTITY,
+    code: 'INVALID_STAYS',
+  },
+};
+
+/**
+ * Turns the first failed constraint into an {@link ApiError}. Constraints
+ * are checked in declaration order, so a missing value is reported as
+ * missing rather than as an invalid date. Errors inside nested bodies are
+ * reported with their path, e.g. `cities.0.startDate`.
+ */
+export function toApiError(errors: ValidationError[]): ApiError {
+  const [error, field] = findFirstError(errors);
+  const [constraint, message] = Object.entries(error?.constraints ?? {})[0] ?? [
+    'unknown',
+    'Invalid request',
+  ];
+  const { status, code } = ERROR_CODES[constraint] ?? INVALID;
+
+  return new ApiError(status, code, message, field);
+}
+
+function findFirstError(
+  errors: ValidationError[],
+  parent?: string,
+): [ValidationError | undefined, string | null] {
+  const error = errors[0];
+  if (!error) {
+    return [undefined, parent ?? null];
+  }
+
+  const field = parent ? `${parent}.${error.property}` : error.property;
+  if (!error.constraints && error.children?.length) {
+    return findFirstError(error.children, field);
+  }
+  return [error, field];
+}
+
+export function createValidationPipe(): ValidationPipe {
+  return new ValidationPipe({
+    transform: true,
+    whitelist: true,
+    stopAtFirstError: true,
+    exceptionFactory: toApiError,
+  });
+}
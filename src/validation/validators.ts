@@ -0,0 +1,223 @@
+import { isISO8601, ValidateBy, ValidationOptions } from 'class-validator';
+import { countDays } from '../utils/date.utils';
+import { isSupportedLocale, SUPPORTED_LANGUAGES } from '../i18n/locale';
+
+export const MAX_TRIP_DAYS = 30;
+export const MAX_CITIES = 10;
+
+export const IS_ISO_DATE = 'isIsoDate';
+export const IS_ISO_MOMENT = 'isIsoMoment';
+export const IS_NOT_BEFORE = 'isNotBefore';
+export const MAX_DAYS_AFTER = 'maxDaysAfter';
+export const IS_SUPPORTED_LOCALE = 'isSupportedLocale';
+export const STAYS_FIT = 'staysFit';
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_MOMENT_PATTERN =
+  /^\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:\d{2})?)?$/;
+
+const toTime = (value: unknown): number =>
+  typeof value === 'string' ? new Date(value).getTime() : NaN;
+
+/**
+ * Accepts calendar dates written `YYYY-MM-DD` only: no times, week dates
+ * (`2024-W05`), ordinal dates (`2024-032`) or the basic format (`20240815`).
+ */
+export function IsIsoDate(
+  validationOptions?: ValidationOptions,
+): PropertyDecorator {
+  return ValidateBy(
+    {
+      name: IS_ISO_DATE,
+      validator: {
+        validate: (value) =>
+          typeof value === 'string' &&
+          ISO_DATE_PATTERN.test(value) &&
+          isISO8601(value, { strict: true }),
+        defaultMessage: (args) =>
+          `${args?.property} must be a date in YYYY-MM-DD format (e.g. 2024-08-15)`,
+      },
+    },
+    validationOptions,
+  );
+}
+
+/**
+ * Accepts `YYYY-MM-DD` or `YYYY-MM-DDTHH:mm`, optionally with seconds and
+ * an offset, which are ignored when the time is read.
+ */
+export function IsIsoMoment(
+  validationOptions?: ValidationOptions,
+): PropertyDecorator {
+  return ValidateBy(
+    {
+      name: IS_ISO_MOMENT,
+      validator: {
+        validate: (value) =>
+          typeof value === 'string' &&
+          ISO_MOMENT_PATTERN.test(value) &&
+          isISO8601(value, { strict: true }),
+        defaultMessage: (args) =>
+          `${args?.property} must be a date or date-time written YYYY-MM-DD or YYYY-MM-DDTHH:mm (e.g. 2024-08-15T10:00)`,
+      },
+    },
+    validationOptions,
+  );
+}
+
+/**
+ * Checks that a date is not earlier than the date in `property`. Fails when
+ * either date cannot be read; a malformed date is reported by `@IsIsoDate()`
+ * or `@IsIsoMoment()` first.
+ */
+export function IsNotBefore(
+  property: string,
+  validationOptions?: ValidationOptions,
+): PropertyDecorator {
+  return ValidateBy(
+    {
+      name: IS_NOT_BEFORE,
+      constraints: [property],
+      validator: {
+        validate: (value, args) => {
+          const start = toTime(
+            (args?.object as Record<string, unknown>)[property],
+          );
+          const end = toTime(value);
+          return !isNaN(start) && !isNaN(end) && end >= start;
+        },
+        defaultMessage: (args) =>
+          `${args?.property} cannot be before ${property}`,
+      },
+    },
+    validationOptions,
+  );
+}
+
+/**
+ * Caps the number of days (inclusive) between `property` and this date.
+ * Fails when either date cannot be read.
+ */
+export function MaxDaysAfter(
+  property: string,
+  maxDays: number,
+  validationOptions?: ValidationOptions,
+): PropertyDecorator {
+  return ValidateBy(
+    {
+      name: MAX_DAYS_AFTER,
+      constraints: [property, maxDays],
+      validator: {
+        validate: (value, args) => {
+          const start = (args?.object as Record<string, unknown>)[property];
+          return (
+            !isNaN(toTime(start)) &&
+            !isNaN(toTime(value)) &&
+            countDays(start as string, value as string) <= maxDays
+          );
+        },
+        defaultMessage: () => `Trips can be at most ${maxDays} days long`,
+      },
+    },
+    validationOptions,
+  );
+}
+
+/** Accepts locale tags whose language the app can write, e.g. `he-IL` */
+export function IsSupportedLocale(
+  validationOptions?: ValidationOptions,
+): PropertyDecorator {
+  return ValidateBy(
+    {
+      name: IS_SUPPORTED_LOCALE,
+      validator: {
+        validate: (value) =>
+          typeof value === 'string' && isSupportedLocale(value),
+        defaultMessage: (args) =>
+          `${args?.property} must be one of the supported languages: ${SUPPORTED_LANGUAGES.join(', ')}`,
+      },
+    },
+    validationOptions,
+  );
+}
+
+interface StayDates {
+  startDate?: unknown;
+  endDate?: unknown;
+}
+
+/** Why the stays do not make a trip, or null when they do */
+function checkStays(
+  stays: StayDates[],
+  trip: StayDates,
+  maxDays: number,
+): string | null {
+  const dated = stays.filter(
+    (stay) => stay.startDate !== undefined || stay.endDate !== undefined,
+  );
+  if (dated.length > 0 && dated.length < stays.length) {
+    return 'Give dates for every city or for none';
+  }
+
+  if (dated.length === 0) {
+    if (isNaN(toTime(trip.startDate)) || isNaN(toTime(trip.endDate))) {
+      return null;
+    }
+    const nights =
+      countDays(trip.startDate as string, trip.endDate as string) - 1;
+    return nights < stays.length
+      ? `A trip through ${stays.length} cities needs at least ${stays.length} nights`
+      : null;
+  }
+
+  if (
+    stays.some(
+      (stay) => isNaN(toTime(stay.startDate)) || isNaN(toTime(stay.endDate)),
+    )
+  ) {
+    return null;
+  }
+  const overlap = stays.findIndex(
+    (stay, index) =>
+      index > 0 && toTime(stay.startDate) < toTime(stays[index - 1].endDate),
+  );
+  if (overlap !== -1) {
+    return `cities.${overlap} starts before the previous city ends`;
+  }
+  const days = countDays(
+    stays[0].startDate as string,
+    stays[stays.length - 1].endDate as string,
+  );
+  return days > maxDays ? `Trips can be at most ${maxDays} days long` : null;
+}
+
+/**
+ * Checks that a list of stays, each with its own dates or splitting the
+ * body's `startDate` and `endDate`, follow each other and fit in a trip of
+ * at most `maxDays` days. Malformed stays and dates are left to the other
+ * constraints.
+ */
+export function StaysFit(
+  maxDays: number,
+  validationOptions?: ValidationOptions,
+): PropertyDecorator {
+  const problem = (value: unknown, object: unknown): string | null =>
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every((stay) => stay && typeof stay === 'object')
+      ? checkStays(value as StayDates[], object as StayDates, maxDays)
+      : null;
+
+  return ValidateBy(
+    {
+      name: STAYS_FIT,
+      constraints: [maxDays],
+      validator: {
+        validate: (value, args) => problem(value, args?.object) === null,
+        defaultMessage: (args) =>
+          problem(args?.value, args?.object) ?? 'Invalid stays',
+      },
+    },
+    validationOptions,
+  );
+}
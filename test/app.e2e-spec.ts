@@ -3,13 +3,14 @@ import { Test } from '@nestjs/testing';
 import * as request from 'supertest';
 import { App } from 'supertest/types';
 import { AppModule } from './../src/app.module';
+import { loadAppConfig } from './../src/config/config.loader';
 
 describe('AppController (e2e)', () => {
   let app: INestApplication<App>;
 
   beforeAll(async () => {
     const moduleFixture = await Test.createTestingModule({
-      imports: [AppModule],
+      imports: [AppModule.forRoot(loadAppConfig())],
     }).compile();
 
     app = moduleFixture.createNestApplication();